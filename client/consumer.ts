@@ -1,14 +1,85 @@
-import { BrokerId, ConsumerId, ConsumptionResponse, PartitionId, Response, TopicId } from "./types.js";
+import { BrokerId, ConsumerId, ConsumptionResponse, GroupId, PartitionId, Response, TopicId } from "./types.js";
+
+const SHUTDOWN_SIGNALS: NodeJS.Signals[] = ["SIGINT", "SIGTERM"];
+
+// How long a consume request waits for messages on the broker, unless told otherwise
+const DEFAULT_WAIT_MS = 5000;
+// The longest wait the broker accepts
+const MAX_WAIT_MS = 30_000;
+// How often a consumer without partitions asks for some while it waits
+const UNASSIGNED_RETRY_MS = 1000;
+
+// Consumers that haven't been closed, closed when the process is told to stop
+const openConsumers = new Set<Consumer>();
+
+// Close every open consumer, then let the signal take its default course (unless the
+// application handles it itself)
+function closeOnSignal(signal: NodeJS.Signals): void {
+    for (const shutdownSignal of SHUTDOWN_SIGNALS) {
+        process.removeListener(shutdownSignal, closeOnSignal);
+    }
+    Promise.allSettled([...openConsumers].map(consumer => consumer.close())).finally(() => {
+        if (process.listenerCount(signal) === 0) {
+            process.kill(process.pid, signal);
+        }
+    });
+}
+
+function trackOpenConsumer(consumer: Consumer): void {
+    if (openConsumers.size === 0) {
+        for (const signal of SHUTDOWN_SIGNALS) {
+            process.once(signal, closeOnSignal);
+        }
+    }
+    openConsumers.add(consumer);
+}
+
+function untrackOpenConsumer(consumer: Consumer): void {
+    openConsumers.delete(consumer);
+    if (openConsumers.size === 0) {
+        for (const signal of SHUTDOWN_SIGNALS) {
+            process.removeListener(signal, closeOnSignal);
+        }
+    }
+}
 
 /**
- * Consumer client for consuming messages from a Panda-Q broker partition.
+ * Consumer client for consuming messages from the partitions of a Panda-Q topic.
  * 
- * The Consumer class provides a simple interface for consuming messages from a specific partition
- * on a Panda-Q broker. It supports both single message consumption and batch consumption,
+ * The Consumer class provides a simple interface for consuming messages from the partitions
+ * the broker assigns to it. It supports both single message consumption and batch consumption,
  * with optional basic authentication.
  * 
- * Each Consumer instance is tied to a specific partition, ensuring ordered message processing
- * from that partition.
+ * A consumer can own any number of partitions of its topic. Each consume() / batchConsume()
+ * call reads from one of them, taking turns, so messages of a partition are still processed
+ * in order. The consume response names the partition (`partitionId`), and commits, nacks and
+ * lease extensions apply to the partition of the last batch unless another one is given.
+ * 
+ * A consumed batch is leased to this consumer for the topic's visibility timeout: other
+ * consumers of the partition don't get it until the lease expires or it is committed.
+ * Call `extendLease()` while working on a batch that takes longer than that.
+ * 
+ * Consumers belong to a consumer group (`"default"` unless one is given). Each group reads
+ * every message of the topic and commits its own offsets, and its consumers share the
+ * topic's partitions among themselves.
+ * 
+ * Whenever a consumer joins or leaves its group, the broker divides the partitions among the
+ * group's consumers again (a rebalance, see the topic's `assignmentStrategy`). Once
+ * registered, the consumer sends a heartbeat every third of the broker's session timeout and
+ * learns its new assignment from it. Before giving up a partition it calls the
+ * `onPartitionsRevoked` callback, which is the place to commit what has been processed; new
+ * partitions are announced to `onPartitionsAssigned`. A consumer that stops (or is cut off
+ * for longer than the session timeout) loses its partitions to the rest of its group; if it
+ * comes back, it registers again.
+ * 
+ * Consuming long-polls: when no assigned partition has messages, the request waits on the
+ * broker for up to `waitMs` (default 5s) until `minMessages` (default 1) arrive, so an idle
+ * consumer neither spins nor misses messages by sleeping. Pass `waitMs: 0` to return at once;
+ * waits over the broker's limit of 30s are capped to it.
+ * 
+ * Call `close()` on shutdown to leave the group right away, so its partitions move to the
+ * rest of the group without waiting for the session to time out. Open consumers are closed
+ * automatically when the process receives SIGINT or SIGTERM.
  * 
  * @example
  * ```typescript
@@ -16,20 +87,50 @@ import { BrokerId, ConsumerId, ConsumptionResponse, PartitionId, Response, Topic
  * const consumer = new Consumer(
  *   "http://localhost:3000",
  *   "brokerId-1",
- *   "topicId-1",
- *   0 // partition ID
+ *   "consumerId-1",
+ *   "topicId-1"
  * );
  * 
  * // Create a consumer with basic authentication
  * const secureConsumer = new Consumer(
  *   "http://localhost:3000",
  *   "brokerId-1",
+ *   "consumerId-1",
  *   "topicId-1",
- *   0,
  *   "myUsername",
  *   "myPassword"
  * );
  * 
+ * // Create a consumer of the "billing" group, which reads the topic independently of others
+ * const billingConsumer = new Consumer(
+ *   "http://localhost:3000",
+ *   "brokerId-1",
+ *   "consumerId-2",
+ *   "topicId-1",
+ *   undefined,
+ *   undefined,
+ *   "billing"
+ * );
+ * 
+ * // Wait up to 10s for batches of at least 100 messages
+ * const bulkConsumer = new Consumer(
+ *   "http://localhost:3000",
+ *   "brokerId-1",
+ *   "consumerId-3",
+ *   "topicId-1",
+ *   undefined,
+ *   undefined,
+ *   "bulk",
+ *   { waitMs: 10_000, minMessages: 100 }
+ * );
+ * 
+ * // Commit what has been processed before a partition moves to another consumer
+ * consumer.onPartitionsRevoked(async (partitionIds) => {
+ *   for (const partitionId of partitionIds) {
+ *     await consumer.commitBatch(partitionId);
+ *   }
+ * });
+ * 
  * // Consume a single message
  * const result = await consumer.consume();
  * if (result.success) {
@@ -47,10 +148,32 @@ class Consumer {
     private readonly brokerUrl: string;
     private readonly brokerId: BrokerId;
     private readonly consumerId: ConsumerId;
+    private readonly groupId: GroupId;
     private readonly topicId: TopicId;
-    private partitionId: PartitionId = '';
+    private registered: boolean = false;
+    private registering?: Promise<Response<any>>;
+    private closed: boolean = false;
+    // Partitions assigned to this consumer, and the generation of the assignment
+    private partitionIds: PartitionId[] = [];
+    private generation: number = 0;
+    // Index into partitionIds of the partition the next consume() reads
+    private nextPartitionIndex: number = 0;
+    // Partition of the most recently consumed batch
+    private lastPartitionId?: PartitionId;
+    // Next offset to read per partition after a seek; without one, reads the uncommitted head of the partition
+    private readonly positions: Map<PartitionId, number> = new Map();
+    // Next offset to read of partitions that weren't seeked individually
+    private position?: number;
+    // Lease on the most recently consumed batch of each partition
+    private readonly leaseIds: Map<PartitionId, string> = new Map();
+    private heartbeatTimer?: ReturnType<typeof setInterval>;
+    private heartbeatInFlight?: Promise<Response<any>>;
+    private revokedCallback?: (partitionIds: PartitionId[]) => void | Promise<void>;
+    private assignedCallback?: (partitionIds: PartitionId[]) => void | Promise<void>;
     private readonly username?: string;
     private readonly password?: string;
+    private readonly waitMs: number;
+    private readonly minMessages: number;
 
     constructor(
         brokerUrl: string,
@@ -58,26 +181,62 @@ class Consumer {
         consumerId: ConsumerId,
         topicId: TopicId,
         username?: string,
-        password?: string
+        password?: string,
+        groupId: GroupId = "default",
+        options: { waitMs?: number; minMessages?: number } = {}
     ) {
         this.brokerUrl = brokerUrl;
         this.brokerId = brokerId;
         this.topicId = topicId;
         this.consumerId = consumerId;
-        // this.partitionId = partitionId;
+        this.groupId = groupId;
         this.username = username;
         this.password = password;
+        // The broker refuses waits it doesn't accept, which would fail every poll
+        const waitMs = options.waitMs ?? DEFAULT_WAIT_MS;
+        this.waitMs = Number.isFinite(waitMs) ? Math.min(Math.max(Math.floor(waitMs), 0), MAX_WAIT_MS) : DEFAULT_WAIT_MS;
+        if (this.waitMs !== waitMs) {
+            console.warn(`Invalid waitMs ${waitMs}. Expected an integer from 0 to ${MAX_WAIT_MS}, using ${this.waitMs}`);
+        }
+        this.minMessages = options.minMessages ?? 1;
 
+        trackOpenConsumer(this);
         this.registerConsumer();
     }
 
-    private async registerConsumer(): Promise<Response<any>> {
-        if (this.partitionId) {
-            return {
+    private registerConsumer(): Promise<Response<any>> {
+        if (this.closed) {
+            return Promise.resolve({
+                success: false,
+                error: new Error(`Consumer ${this.consumerId} is closed`)
+            });
+        }
+        if (this.registered) {
+            return Promise.resolve({
                 success: true,
                 data: null
-            }
+            });
+        }
+        if (!this.registering) {
+            this.registering = this.sendRegistration().finally(() => {
+                this.registering = undefined;
+            });
+        }
+        return this.registering;
+    }
+
+    private getHeaders(): Record<string, string> {
+        const headers: Record<string, string> = {
+            "Content-Type": "application/json"
+        };
+        if (this.username && this.password) {
+            const credentials = Buffer.from(`${this.username}:${this.password}`).toString('base64');
+            headers['Authorization'] = `Basic ${credentials}`;
         }
+        return headers;
+    }
+
+    private async sendRegistration(): Promise<Response<any>> {
         try {
             let url = `${this.brokerUrl}/register/${this.topicId}`;
             const headers: Record<string, string> = {
@@ -93,7 +252,8 @@ class Consumer {
                 headers,
                 body: JSON.stringify({
                     brokerId: this.brokerId,
-                    consumerId: this.consumerId
+                    consumerId: this.consumerId,
+                    groupId: this.groupId
                 })
             });
             if (response.status !== 200) {
@@ -101,7 +261,13 @@ class Consumer {
             }
 
             const data = await response.json();
-            this.partitionId = data.data?.partitionId;
+            this.registered = true;
+            this.startHeartbeat(data.data?.sessionTimeoutMs);
+            const revoking = await this.applyAssignment(data.data);
+            if (revoking.length > 0) {
+                // Partitions this consumer owned before it registered again; hand them over
+                await this.heartbeat();
+            }
 
             return {
                 success: true,
@@ -116,15 +282,201 @@ class Consumer {
         }
     }
 
-    private async fetchMessage(batch: boolean = false): Promise<Response<any>> {
+    // Heartbeats don't keep the process alive
+    private startHeartbeat(sessionTimeoutMs: number | undefined): void {
+        if (this.heartbeatTimer || !sessionTimeoutMs) {
+            return;
+        }
+        this.heartbeatTimer = setInterval(() => this.heartbeat(), Math.max(Math.floor(sessionTimeoutMs / 3), 100));
+        this.heartbeatTimer.unref();
+    }
+
+    /**
+     * Adopt the assignment of a register or heartbeat response. Partitions this consumer is
+     * losing are dropped (after the revoked callback has run), new ones are added (and
+     * announced to the assigned callback). Returns the partitions to release to their new owner.
+     */
+    private async applyAssignment(assignment: { generation: number; partitionIds: PartitionId[]; revokingPartitionIds?: PartitionId[] }): Promise<PartitionId[]> {
+        const owned = (assignment.partitionIds ?? []).map(String);
+        const revoking = (assignment.revokingPartitionIds ?? []).map(String);
+        const kept = owned.filter(partitionId => !revoking.includes(partitionId));
+        const lost = this.partitionIds.filter(partitionId => !kept.includes(partitionId));
+        const added = kept.filter(partitionId => !this.partitionIds.includes(partitionId));
+        this.generation = assignment.generation;
+        this.partitionIds = kept;
+
+        if (lost.length > 0) {
+            try {
+                await this.revokedCallback?.(lost);
+            } catch (error) {
+                console.error(`Partitions revoked callback failed: ${error}`);
+            }
+            for (const partitionId of lost) {
+                this.leaseIds.delete(partitionId);
+                this.positions.delete(partitionId);
+            }
+            if (this.lastPartitionId !== undefined && lost.includes(this.lastPartitionId)) {
+                this.lastPartitionId = undefined;
+            }
+        }
+        if (added.length > 0) {
+            try {
+                await this.assignedCallback?.(added);
+            } catch (error) {
+                console.error(`Partitions assigned callback failed: ${error}`);
+            }
+        }
+        return revoking;
+    }
+
+    private async sendHeartbeat(revokedPartitionIds: PartitionId[]): Promise<{ status: number; data: any }> {
+        const response = await fetch(`${this.brokerUrl}/heartbeat/${this.topicId}`, {
+            method: "POST",
+            headers: this.getHeaders(),
+            body: JSON.stringify({
+                consumerId: this.consumerId,
+                groupId: this.groupId,
+                revokedPartitionIds: revokedPartitionIds.map(Number)
+            })
+        });
+        return {
+            status: response.status,
+            data: await response.json()
+        };
+    }
+
+    private async runHeartbeat(): Promise<Response<any>> {
         try {
-            let url = `${this.brokerUrl}/consume/${this.brokerId}/${this.topicId}/${this.partitionId}`;
+            let { status, data } = await this.sendHeartbeat([]);
+            if (status === 404 && data.errorCode === "CONSUMER_NOT_REGISTERED") {
+                console.warn(`Consumer ${this.consumerId} lost its partitions, registering again`);
+                await this.applyAssignment({ generation: this.generation, partitionIds: [] });
+                this.registered = false;
+                return await this.registerConsumer();
+            }
+            if (status !== 200) {
+                throw new Error(`Failed to send heartbeat: ${data.errorCode ?? status}`);
+            }
+
+            const revoking = await this.applyAssignment(data.data);
+            if (revoking.length > 0) {
+                // Hand the revoked partitions over to their new owners
+                ({ status, data } = await this.sendHeartbeat(revoking));
+                if (status !== 200) {
+                    throw new Error(`Failed to release partitions: ${data.errorCode ?? status}`);
+                }
+                await this.applyAssignment(data.data);
+            }
+
+            return {
+                success: true,
+                data
+            };
+        } catch (error) {
+            console.error(`Failed to send heartbeat: ${error}`);
+            return {
+                success: false,
+                error
+            };
+        }
+    }
+
+    // The partitions to read: the given one, or all assigned ones
+    private resolvePartitionIds(partitionId?: PartitionId): PartitionId[] {
+        return partitionId !== undefined ? [String(partitionId)] : this.partitionIds;
+    }
+
+    private resolvePartitionId(partitionId?: PartitionId): PartitionId {
+        const resolved = partitionId ?? this.lastPartitionId;
+        if (resolved === undefined) {
+            throw new Error("No partition given and nothing consumed yet");
+        }
+        return String(resolved);
+    }
+
+    /**
+     * Read from each assigned partition in turn until one has messages. The last partition of
+     * a round is long-polled for the rest of `waitMs`. The broker ends that wait early once
+     * messages arrive on any partition of this consumer, and the next round picks them up, so
+     * idle partitions are waited on together. A consumer without partitions (its group has
+     * more consumers than the topic has partitions) sends heartbeats for the rest of `waitMs`
+     * until one brings it some.
+     */
+    private async poll(batch: boolean): Promise<Response<any>> {
+        const registerResult = await this.registerConsumer();
+        if (!registerResult.success) {
+            return registerResult;
+        }
+
+        let empty: Response<any> | undefined;
+        const deadline = Date.now() + this.waitMs;
+        while (!this.closed) {
+            const partitionIds = [...this.partitionIds];
+            if (partitionIds.length === 0) {
+                const remainingMs = deadline - Date.now();
+                if (remainingMs <= 0) {
+                    break;
+                }
+                await new Promise(resolve => setTimeout(resolve, Math.min(remainingMs, UNASSIGNED_RETRY_MS)));
+                await this.heartbeat();
+                continue;
+            }
+            for (let i = 0; i < partitionIds.length; i++) {
+                const partitionId = partitionIds[this.nextPartitionIndex++ % partitionIds.length];
+                const waitMs = i === partitionIds.length - 1 ? Math.max(deadline - Date.now(), 0) : 0;
+                const response = await this.fetchMessage(partitionId, batch, waitMs);
+                if (!response.success || response.data.data?.count > 0) {
+                    return response;
+                }
+                empty = response;
+            }
+            if (Date.now() >= deadline) {
+                break;
+            }
+        }
+        return empty ?? {
+            success: true,
+            data: {
+                success: true,
+                data: {
+                    messages: batch ? [] : null,
+                    count: 0,
+                    startOffset: 0,
+                    endOffset: 0
+                }
+            }
+        };
+    }
+
+    private async fetchMessage(partitionId: PartitionId, batch: boolean = false, waitMs: number = 0): Promise<Response<any>> {
+        try {
+            let url = `${this.brokerUrl}/consume/${this.brokerId}/${this.topicId}/${partitionId}`;
+            const query: string[] = [];
             if (batch) {
-                url += `?b=t`;
+                query.push("b=t");
+            }
+            // The broker wakes a long poll when any partition of the consumer has messages
+            query.push(`consumerId=${encodeURIComponent(this.consumerId)}`);
+            query.push(`groupId=${encodeURIComponent(this.groupId)}`);
+            const position = this.positions.get(partitionId) ?? this.position;
+            if (position !== undefined) {
+                query.push(`fromOffset=${position}`);
+            }
+            // Replays long-poll too, once they have caught up with the log
+            if (waitMs > 0) {
+                query.push(`waitMs=${waitMs}`);
+                if (batch && this.minMessages > 1) {
+                    query.push(`minMessages=${this.minMessages}`);
+                }
+            }
+            if (query.length > 0) {
+                url += `?${query.join("&")}`;
             }
 
+            // fetch transparently decompresses whichever encoding the broker picks
             const headers: Record<string, string> = {
-                "Content-Type": "application/json"
+                "Content-Type": "application/json",
+                "Accept-Encoding": "br, gzip, deflate"
             };
             if (this.username && this.password) {
                 const credentials = Buffer.from(`${this.username}:${this.password}`).toString('base64');
@@ -136,11 +488,27 @@ class Consumer {
                 headers
             });
 
+            if (response.status === 409) {
+                // The partition moved to another consumer: pick up the current assignment
+                await this.heartbeat();
+            }
             if (response.status !== 200) {
                 throw new Error(`Failed to consume message: ${response.statusText}`);
             }
 
             const data = await response.json();
+            if (data.data) {
+                data.data.partitionId = partitionId;
+            }
+            if (position !== undefined && data.data?.count > 0) {
+                this.positions.set(partitionId, data.data.endOffset + 1);
+            }
+            if (data.data?.count > 0) {
+                this.lastPartitionId = partitionId;
+            }
+            if (data.data?.leaseId) {
+                this.leaseIds.set(partitionId, data.data.leaseId);
+            }
             return {
                 success: true,
                 data
@@ -154,11 +522,126 @@ class Consumer {
         }
     }
 
+    private async fetchOffsets(partitionId: PartitionId): Promise<Response<{ logStartOffset: number; logEndOffset: number; readOffset: number; committedOffset: number | null }>> {
+        try {
+            const response = await fetch(`${this.brokerUrl}/offsets/${this.topicId}/${partitionId}?groupId=${encodeURIComponent(this.groupId)}`, {
+                method: "GET",
+                headers: this.getHeaders()
+            });
+
+            if (response.status !== 200) {
+                throw new Error(`Failed to fetch offsets: ${response.statusText}`);
+            }
+
+            const data = await response.json();
+            return {
+                success: true,
+                data: data.data
+            };
+        } catch (error) {
+            console.error(`Failed to fetch offsets: ${error}`);
+            return {
+                success: false,
+                error
+            };
+        }
+    }
+
+    private async seekAll(partitionId: PartitionId | undefined, pick: (offsets: { logStartOffset: number; logEndOffset: number }) => number): Promise<Response<Record<PartitionId, number>>> {
+        const registerResult = await this.registerConsumer();
+        if (!registerResult.success) {
+            return registerResult;
+        }
+        const positions: Record<PartitionId, number> = {};
+        for (const id of this.resolvePartitionIds(partitionId)) {
+            const offsets = await this.fetchOffsets(id);
+            if (!offsets.success) {
+                return offsets;
+            }
+            positions[id] = pick(offsets.data);
+            this.positions.set(id, positions[id]);
+        }
+        return {
+            success: true,
+            data: positions
+        };
+    }
+
     /**
-     * Consumes a single message from the partition.
+     * Moves the consumer to `offset` of `partitionId`, or of every partition without one.
+     * Subsequent consume() / batchConsume() calls read from the broker's on-disk log starting
+     * at that offset, so already-committed messages can be replayed. Offsets older than the
+     * partition's retention start at the oldest retained message.
      * 
-     * This method fetches one message at a time from the configured partition.
-     * Messages are consumed in the order they were produced (FIFO within the partition).
+     * Seeking does not change the committed offset, and committing an offset at or behind
+     * the committed one is a no-op.
+     * 
+     * @param offset - The offset of the next message to read (offsets start at 1)
+     * @param partitionId - The partition to move. Defaults to all partitions, including ones assigned later.
+     * 
+     * @example
+     * ```typescript
+     * consumer.seek(1200);
+     * const result = await consumer.batchConsume(); // messages from offset 1200 onwards
+     * ```
+     */
+    seek(offset: number, partitionId?: PartitionId): void {
+        if (!Number.isInteger(offset) || offset < 1) {
+            throw new Error(`Invalid offset: ${offset}. Offsets are positive integers`);
+        }
+        if (partitionId !== undefined) {
+            this.positions.set(String(partitionId), offset);
+            return;
+        }
+        this.positions.clear();
+        this.position = offset;
+    }
+
+    /**
+     * Moves the consumer to the oldest message still retained by `partitionId`, or by each
+     * assigned partition.
+     * 
+     * @param partitionId - The partition to move. Defaults to all assigned partitions.
+     * @returns A Promise that resolves to a Response object containing the new position of each partition
+     */
+    async seekToBeginning(partitionId?: PartitionId): Promise<Response<Record<PartitionId, number>>> {
+        return this.seekAll(partitionId, offsets => offsets.logStartOffset);
+    }
+
+    /**
+     * Moves the consumer past the last message in `partitionId`, or in each assigned
+     * partition, so only messages produced from now on are consumed.
+     * 
+     * @param partitionId - The partition to move. Defaults to all assigned partitions.
+     * @returns A Promise that resolves to a Response object containing the new position of each partition
+     */
+    async seekToEnd(partitionId?: PartitionId): Promise<Response<Record<PartitionId, number>>> {
+        return this.seekAll(partitionId, offsets => offsets.logEndOffset + 1);
+    }
+
+    /**
+     * Registers `callback` to be called with the partitions this consumer is about to lose in
+     * a rebalance, before they move to another consumer of the group. Commit what has been
+     * processed of them here: the broker waits for the callback (up to the session timeout)
+     * before handing them over. It is also called when the session has timed out, once the
+     * partitions are already gone.
+     */
+    onPartitionsRevoked(callback: (partitionIds: PartitionId[]) => void | Promise<void>): void {
+        this.revokedCallback = callback;
+    }
+
+    /**
+     * Registers `callback` to be called with the partitions newly assigned to this consumer.
+     */
+    onPartitionsAssigned(callback: (partitionIds: PartitionId[]) => void | Promise<void>): void {
+        this.assignedCallback = callback;
+    }
+
+    /**
+     * Consumes a single message from one of the assigned partitions.
+     * 
+     * This method fetches one message at a time, from the next assigned partition that has
+     * one. Messages are consumed in the order they were produced (FIFO within the partition).
      * If authentication credentials were provided in the constructor, they will be
      * included as a Basic Authorization header.
      * 
@@ -169,8 +652,8 @@ class Consumer {
      * const result = await consumer.consume();
      * 
      * if (result.success) {
-     *   const message = result.data;
-     *   console.log("Consumed message:", message);
+     *   const message = result.data.messages; // null when nothing is pending
+     *   console.log(`Consumed from partition ${result.data.partitionId}:`, message, message?.headers);
      *   // Process the message
      * } else {
      *   console.error("Failed to consume:", result.error);
@@ -181,7 +664,7 @@ class Consumer {
      */
     async consume(): Promise<Response<ConsumptionResponse>> {
         try {
-            const response = await this.fetchMessage();
+            const response = await this.poll(false);
 
             if (!response.success) {
                 throw new Error(`Failed to consume message: ${response.error}`);
@@ -198,10 +681,10 @@ class Consumer {
     }
 
     /**
-     * Consumes multiple messages from the partition in a single request.
+     * Consumes multiple messages from one of the assigned partitions in a single request.
      * 
-     * This method fetches multiple messages at once from the configured partition,
-     * which can be more efficient than making multiple single consume() calls.
+     * This method fetches multiple messages at once from the next assigned partition that has
+     * any, which can be more efficient than making multiple single consume() calls.
      * The batch size is determined by the broker's configuration.
      * If authentication credentials were provided in the constructor, they will be
      * included as a Basic Authorization header.
@@ -213,7 +696,7 @@ class Consumer {
      * const result = await consumer.batchConsume();
      * 
      * if (result.success) {
-     *   const messages = result.data; // Array of messages
+     *   const messages = result.data.messages as Message[];
      *   console.log(`Consumed ${messages.length} messages`);
      *   messages.forEach(msg => {
      *     // Process each message
@@ -228,16 +711,13 @@ class Consumer {
      */
     async batchConsume(): Promise<Response<ConsumptionResponse>> {
         try {
-            const response = await this.fetchMessage(true);
+            const response = await this.poll(true);
 
             if (!response.success) {
                 throw new Error(`Failed to consume message: ${response.error}`);
             }
 
-            return {
-                success: true,
-                data: response.data
-            }
+            return response.data;
         } catch (error) {
             console.error(`Failed to consume message: ${error}`);
             return {
@@ -255,6 +735,7 @@ class Consumer {
      * included as a Basic Authorization header.
      * 
      * @param offset - The offset of the last consumed message
+     * @param partitionId - The partition to commit. Defaults to the partition of the last consumed batch.
      * @returns A Promise that resolves to a Response object with success status and data/error
      * 
      * @example
@@ -270,21 +751,20 @@ class Consumer {
      * 
      * @throws {Error} Throws if the commit request fails
      */
-    async commitOffset(offset: number): Promise<Response<any>> {
+    async commitOffset(offset: number, partitionId?: PartitionId): Promise<Response<any>> {
         try {
             const payload = {
                 brokerId: this.brokerId,
                 topicId: this.topicId,
-                partitionId: this.partitionId,
+                partitionId: this.resolvePartitionId(partitionId),
                 consumerId: this.consumerId,
+                groupId: this.groupId,
                 offset
             };
 
             const response = await fetch(`${this.brokerUrl}/commit`, {
                 method: "POST",
-                headers: {
-                    "Content-Type": "application/json"
-                },
+                headers: this.getHeaders(),
                 body: JSON.stringify(payload)
             });
 
@@ -305,6 +785,307 @@ class Consumer {
             };
         }
     }
+
+    /**
+     * The topic partitions this consumer reads, registering it first if needed. `partitionId`
+     * is the partition of the last consumed batch (or the first assigned one). Used by
+     * `Transaction.commitOffset` to commit consumed offsets together with produced output.
+     */
+    async getAssignment(): Promise<{ topicId: TopicId; partitionId: PartitionId; partitionIds: PartitionId[]; generation: number; consumerId: ConsumerId; groupId: GroupId }> {
+        const registerResult = await this.registerConsumer();
+        const partitionId = this.lastPartitionId ?? this.partitionIds[0];
+        if (!registerResult.success || partitionId === undefined) {
+            throw new Error(`Consumer ${this.consumerId} has no partition of topic ${this.topicId}`);
+        }
+        return {
+            topicId: this.topicId,
+            partitionId,
+            partitionIds: [...this.partitionIds],
+            generation: this.generation,
+            consumerId: this.consumerId,
+            groupId: this.groupId
+        };
+    }
+
+    /**
+     * Tells the broker this consumer is alive, so it stays in its group for another session
+     * timeout, and adopts the assignment the broker answers with: partitions moving to another
+     * consumer are handed over (after the `onPartitionsRevoked` callback), new ones are added.
+     * Called periodically once the consumer is registered; there is no need to call it
+     * yourself unless the event loop is blocked for long stretches.
+     * 
+     * If the session has already timed out, the consumer registers again (possibly getting
+     * different partitions).
+     * 
+     * @returns A Promise that resolves to a Response object with success status and data/error
+     */
+    heartbeat(): Promise<Response<any>> {
+        // A heartbeat still waiting on a revoked callback answers for the ones that overlap it
+        if (!this.heartbeatInFlight) {
+            this.heartbeatInFlight = this.runHeartbeat().finally(() => {
+                this.heartbeatInFlight = undefined;
+            });
+        }
+        return this.heartbeatInFlight;
+    }
+
+    /**
+     * Commits exactly the most recently consumed batch of a partition, by its lease.
+     * 
+     * Use this instead of `commitOffset` on topics with priorities: a batch can skip older
+     * messages of a lower priority (the consume response then has `contiguous: false`), and
+     * committing its `endOffset` would commit those too.
+     * 
+     * @param partitionId - The partition of the batch. Defaults to the partition of the last consumed batch.
+     * @returns A Promise that resolves to a Response object with success status and data/error.
+     *          Fails once the lease has expired: the batch may already be leased to someone else.
+     * 
+     * @example
+     * ```typescript
+     * const result = await consumer.batchConsume();
+     * await process(result.data.messages);
+     * await consumer.commitBatch();
+     * ```
+     */
+    async commitBatch(partitionId?: PartitionId): Promise<Response<any>> {
+        try {
+            const resolvedPartitionId = this.resolvePartitionId(partitionId);
+            const leaseId = this.leaseIds.get(resolvedPartitionId);
+            if (!leaseId) {
+                throw new Error(`No leased batch of partition ${resolvedPartitionId} to commit`);
+            }
+
+            const payload = {
+                brokerId: this.brokerId,
+                topicId: this.topicId,
+                partitionId: resolvedPartitionId,
+                consumerId: this.consumerId,
+                groupId: this.groupId,
+                leaseId
+            };
+
+            const response = await fetch(`${this.brokerUrl}/commit`, {
+                method: "POST",
+                headers: this.getHeaders(),
+                body: JSON.stringify(payload)
+            });
+
+            if (response.status !== 200) {
+                throw new Error(`Failed to commit batch: ${response.statusText}`);
+            }
+
+            this.leaseIds.delete(resolvedPartitionId);
+            const data = await response.json();
+            return {
+                success: true,
+                data
+            };
+        } catch (error) {
+            console.error(`Failed to commit batch: ${error}`);
+            return {
+                success: false,
+                error
+            };
+        }
+    }
+
+    /**
+     * Extends the lease on the most recently consumed batch of a partition, so the broker doesn't offer it to
+     * another consumer while it is still being processed.
+     * 
+     * @param extendMs - New lease duration from now. Defaults to the topic's visibility timeout.
+     * @param partitionId - The partition of the batch. Defaults to the partition of the last consumed batch.
+     * @returns A Promise that resolves to a Response object with the new `leaseExpiresAt`.
+     *          Fails once the lease has expired: the batch may already be leased to someone else.
+     * 
+     * @example
+     * ```typescript
+     * const result = await consumer.batchConsume();
+     * const heartbeat = setInterval(() => consumer.extendLease(), 10_000);
+     * await processSlowly(result.data.messages);
+     * clearInterval(heartbeat);
+     * await consumer.commitOffset(result.data.endOffset);
+     * ```
+     */
+    async extendLease(extendMs?: number, partitionId?: PartitionId): Promise<Response<any>> {
+        try {
+            const resolvedPartitionId = this.resolvePartitionId(partitionId);
+            const leaseId = this.leaseIds.get(resolvedPartitionId);
+            if (!leaseId) {
+                throw new Error(`No leased batch of partition ${resolvedPartitionId} to extend`);
+            }
+
+            const payload = {
+                topicId: this.topicId,
+                partitionId: resolvedPartitionId,
+                consumerId: this.consumerId,
+                groupId: this.groupId,
+                extendMs
+            };
+
+            const response = await fetch(`${this.brokerUrl}/leases/${leaseId}/extend`, {
+                method: "POST",
+                headers: this.getHeaders(),
+                body: JSON.stringify(payload)
+            });
+
+            if (response.status !== 200) {
+                throw new Error(`Failed to extend lease: ${response.statusText}`);
+            }
+
+            const data = await response.json();
+            return {
+                success: true,
+                data
+            };
+        } catch (error) {
+            console.error(`Failed to extend lease: ${error}`);
+            return {
+                success: false,
+                error
+            };
+        }
+    }
+
+    /**
+     * Rejects individual messages of a consumed batch.
+     * 
+     * The message at index `i` of a batch has offset `startOffset + i + 1`. Nacked messages are
+     * settled when you next commit past them: each is delivered again later (with a higher
+     * `deliveryCount`), or moved to the topic's dead-letter topic once it has been delivered
+     * `maxDeliveries` times. So a poison message never blocks the partition.
+     * 
+     * @param offsets - Offsets of the messages to reject
+     * @param partitionId - The partition of the messages. Defaults to the partition of the last consumed batch.
+     * @returns A Promise that resolves to a Response object with success status and data/error
+     * 
+     * @example
+     * ```typescript
+     * const result = await consumer.batchConsume();
+     * const { messages, startOffset, endOffset } = result.data;
+     * const failed = messages
+     *   .map((message, i) => ({ message, offset: startOffset + i + 1 }))
+     *   .filter(({ message }) => !process(message))
+     *   .map(({ offset }) => offset);
+     * if (failed.length > 0) {
+     *   await consumer.nack(failed);
+     * }
+     * await consumer.commitOffset(endOffset);
+     * ```
+     */
+    async nack(offsets: number[], partitionId?: PartitionId): Promise<Response<any>> {
+        try {
+            const payload = {
+                brokerId: this.brokerId,
+                topicId: this.topicId,
+                partitionId: this.resolvePartitionId(partitionId),
+                consumerId: this.consumerId,
+                groupId: this.groupId,
+                offsets
+            };
+
+            const response = await fetch(`${this.brokerUrl}/nack`, {
+                method: "POST",
+                headers: this.getHeaders(),
+                body: JSON.stringify(payload)
+            });
+
+            if (response.status !== 200) {
+                throw new Error(`Failed to nack offsets: ${response.statusText}`);
+            }
+
+            const data = await response.json();
+            return {
+                success: true,
+                data
+            };
+        } catch (error) {
+            console.error(`Failed to nack offsets: ${error}`);
+            return {
+                success: false,
+                error
+            };
+        }
+    }
+
+    /**
+     * Leaves the consumer group, so the broker hands this consumer's partitions to the rest of
+     * the group right away instead of after the session timeout. The `onPartitionsRevoked`
+     * callback runs first, and `offset` (if given) is committed as part of leaving.
+     * 
+     * A closed consumer can't consume any more. Open consumers are closed automatically when
+     * the process receives SIGINT or SIGTERM.
+     * 
+     * @param offset - Optional final offset to commit, like `commitOffset`
+     * @param partitionId - The partition of `offset`. Defaults to the partition of the last consumed batch.
+     * @returns A Promise that resolves to a Response object with the released partitions
+     * 
+     * @example
+     * ```typescript
+     * const result = await consumer.batchConsume();
+     * await process(result.data.messages);
+     * await consumer.close(result.data.endOffset);
+     * ```
+     */
+    async close(offset?: number, partitionId?: PartitionId): Promise<Response<any>> {
+        if (this.closed) {
+            return {
+                success: true,
+                data: null
+            };
+        }
+        try {
+            const finalPartitionId = offset !== undefined ? this.resolvePartitionId(partitionId) : undefined;
+            this.closed = true;
+            untrackOpenConsumer(this);
+
+            // Let a registration or heartbeat in flight finish before leaving
+            await this.registering;
+            await this.heartbeatInFlight;
+            if (this.heartbeatTimer) {
+                clearInterval(this.heartbeatTimer);
+                this.heartbeatTimer = undefined;
+            }
+            if (!this.registered) {
+                return {
+                    success: true,
+                    data: null
+                };
+            }
+
+            // Give up every partition as in a rebalance, so the revoked callback can commit them
+            await this.applyAssignment({ generation: this.generation, partitionIds: [] });
+            this.registered = false;
+
+            const response = await fetch(`${this.brokerUrl}/unregister/${this.topicId}`, {
+                method: "POST",
+                headers: this.getHeaders(),
+                body: JSON.stringify({
+                    consumerId: this.consumerId,
+                    groupId: this.groupId,
+                    partitionId: finalPartitionId,
+                    offset
+                })
+            });
+
+            const data = await response.json();
+            // A consumer whose session already timed out has nothing left to release
+            if (response.status !== 200 && data.errorCode !== "CONSUMER_NOT_REGISTERED") {
+                throw new Error(`Failed to unregister consumer: ${response.statusText}`);
+            }
+
+            return {
+                success: true,
+                data
+            };
+        } catch (error) {
+            console.error(`Failed to close consumer: ${error}`);
+            return {
+                success: false,
+                error
+            };
+        }
+    }
 }
 
 export default Consumer;
\ No newline at end of file
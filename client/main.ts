@@ -1,4 +1,5 @@
 import Consumer from "./consumer.js";
 import Producer from "./producer.js";
+import Transaction from "./transaction.js";
 
-export { Consumer, Producer };
\ No newline at end of file
+export { Consumer, Producer, Transaction };
\ No newline at end of file
@@ -1,4 +1,6 @@
-import { BrokerId, TopicId, Response } from "./types.js";
+import { randomUUID } from "node:crypto";
+import { Acks, BrokerId, TopicId, Response } from "./types.js";
+import Transaction from "./transaction.js";
 
 /**
  * Producer client for sending messages to a Panda-Q broker.
@@ -6,6 +8,11 @@ import { BrokerId, TopicId, Response } from "./types.js";
  * The Producer class provides a simple interface for publishing messages to a specific topic
  * on a Panda-Q broker. It supports both authenticated and unauthenticated connections.
  * 
+ * Every producer sends a `producerId` (random per instance unless one is passed in), so
+ * retrying `produce` with the same `messageId` after a timeout doesn't create a duplicate:
+ * the broker acknowledges the retry with the original offset and `duplicate: true`.
+ * Pass a fixed `producerId` to keep that guarantee across producer restarts.
+ * 
  * @example
  * ```typescript
  * // Create a producer without authentication
@@ -37,19 +44,22 @@ class Producer {
     private readonly topicId: TopicId;
     private readonly username?: string;
     private readonly password?: string;
+    readonly producerId: string;
 
     constructor(
         brokerId: BrokerId,
         brokerUrl: string,
         topicId: TopicId,
         username?: string,
-        password?: string
+        password?: string,
+        producerId: string = randomUUID()
     ) {
         this.brokerId = brokerId;
         this.brokerUrl = brokerUrl;
         this.topicId = topicId;
         this.username = username;
         this.password = password;
+        this.producerId = producerId;
     }
 
     /**
@@ -59,8 +69,24 @@ class Producer {
      * If authentication credentials were provided in the constructor, they will be
      * included as a Basic Authorization header.
      * 
-     * @param message - The message to send to the topic. Must contain at least a key and value.
-     * @returns A Promise that resolves to a Response object with success status and data/error
+     * @param message - The message to send to the topic: `messageId` and `content`, plus an optional
+     *                  partition `key` (messages with the same key land in the same partition, in
+     *                  order), an explicit `partitionId` that bypasses the topic's partitioner, and
+     *                  string `headers` for metadata.
+     * @param options - Optional `acks` durability level for this request (`none`, `leader` or `fsync`).
+     *                  Defaults to the topic's configured level. The response's `acks` field reports
+     *                  the level the broker reached before acknowledging.
+     *                  `deliverAt` (a Date or ms since epoch) or `delayMs` holds the message back
+     *                  until then: the broker stores it durably and only routes it to its partition
+     *                  once it is due. The response then has a `scheduleId` and `offset: null`.
+     *                  `ttlMs` overrides the topic's time to live: once it has passed (counted from
+     *                  when the broker accepted the message, or from `deliverAt`), the message is
+     *                  no longer delivered.
+     *                  `priority` (0 to 9, default 0) lets the message overtake older messages of a
+     *                  lower priority in its partition.
+     * @returns A Promise that resolves to a Response object with success status and data/error.
+     *          `data.duplicate` is true when the broker had already accepted this `messageId`
+     *          from this producer; `data.offset` is then the original offset.
      * 
      * @example
      * ```typescript
@@ -74,6 +100,17 @@ class Producer {
      * } else {
      *   console.error("Failed to send message:", result.error);
      * }
+     * 
+     * // Keep an order's events in one partition and attach tracing metadata
+     * await producer.produce({
+     *   messageId: "evt-42",
+     *   key: "order-123",
+     *   headers: { "trace-id": "4bf92f35", "content-type": "application/json" },
+     *   content: { status: "shipped" }
+     * });
+     * 
+     * // Deliver a reminder in an hour
+     * await producer.produce({ messageId: "reminder-1", content: "..." }, { delayMs: 60 * 60 * 1000 });
      * ```
      * 
      * @throws {Error} Throws if the message is null or undefined
@@ -81,7 +118,10 @@ class Producer {
     async produce(message: {
         messageId: string;
         content: any;
-    }): Promise<Response<any>> {
+        key?: string;
+        partitionId?: number;
+        headers?: Record<string, string>;
+    }, options?: { acks?: Acks; deliverAt?: Date | number; delayMs?: number; ttlMs?: number; priority?: number }): Promise<Response<any>> {
         if (!message) {
             throw new Error("Invalid Message");
         }
@@ -91,11 +131,20 @@ class Producer {
             const content = message.content;
             const payload = {
                 brokerId: this.brokerId,
+                producerId: this.producerId,
                 message: {
                     topicId: this.topicId,
                     messageId: message.messageId,
-                    content: typeof content === 'string' ? content : JSON.stringify(content)
-                }
+                    content: typeof content === 'string' ? content : JSON.stringify(content),
+                    key: message.key,
+                    partitionId: message.partitionId,
+                    headers: message.headers
+                },
+                acks: options?.acks,
+                deliverAt: options?.deliverAt instanceof Date ? options.deliverAt.getTime() : options?.deliverAt,
+                delayMs: options?.delayMs,
+                ttlMs: options?.ttlMs,
+                priority: options?.priority
             };
 
             const headers: Record<string, string> = {
@@ -130,6 +179,98 @@ class Producer {
             };
         }
     }
+
+    /**
+     * Runs `work` inside a transaction: every message it sends through the given `Transaction`
+     * (to any topic) is committed together, or not at all.
+     * 
+     * The transaction commits once `work` resolves. If `work` throws (including when a
+     * `send` is rejected), the transaction is aborted and none of its messages are ever
+     * visible to consumers.
+     * 
+     * @param work - Callback that stages the transaction's messages
+     * @param options - Optional `acks` durability level for the commit. Defaults to the
+     *                  strictest level configured on the topics the transaction writes to.
+     * @returns A Promise that resolves to a Response object with the commit result
+     *          (`transactionId`, `messageCount`, `startOffset`, `endOffset`, `acks`)
+     * 
+     * @example
+     * ```typescript
+     * const result = await producer.transaction(async (transaction) => {
+     *   await transaction.send({ messageId: "order-1", content: { status: "created" } }, "orders");
+     *   await transaction.send({ messageId: "stock-1", content: { sku: "abc", reserved: 1 } }, "inventory");
+     * });
+     * 
+     * // Consume-transform-produce: the output and the input commit happen together
+     * const batch = await consumer.batchConsume();
+     * await producer.transaction(async (transaction) => {
+     *   for (const message of batch.data.messages) {
+     *     await transaction.send({ messageId: `enriched-${message.messageId}`, content: enrich(message) });
+     *   }
+     *   await transaction.commitOffset(consumer, batch.data.endOffset);
+     * });
+     * ```
+     */
+    async transaction(work: (transaction: Transaction) => Promise<void>, options?: { acks?: Acks }): Promise<Response<any>> {
+        const headers: Record<string, string> = {
+            "Content-Type": "application/json"
+        };
+        if (this.username && this.password) {
+            const credentials = Buffer.from(`${this.username}:${this.password}`).toString('base64');
+            headers['Authorization'] = `Basic ${credentials}`;
+        }
+
+        let transactionId: string | undefined;
+        try {
+            const beginResponse = await fetch(`${this.brokerUrl}/transactions`, {
+                method: "POST",
+                headers,
+                body: JSON.stringify({ brokerId: this.brokerId })
+            });
+            if (beginResponse.status !== 200) {
+                throw new Error(`Failed to begin transaction: ${beginResponse.statusText}`);
+            }
+            transactionId = (await beginResponse.json()).data.transactionId as string;
+
+            await work(new Transaction(transactionId, this.brokerUrl, this.topicId, headers));
+        } catch (error) {
+            console.error(`Transaction failed, aborting: ${error}`);
+            if (transactionId) {
+                await fetch(`${this.brokerUrl}/transactions/${transactionId}/abort`, {
+                    method: "POST",
+                    headers,
+                    body: JSON.stringify({})
+                }).catch(() => undefined); // the broker also aborts it once it times out
+            }
+            return {
+                success: false,
+                error
+            };
+        }
+
+        try {
+            const commitResponse = await fetch(`${this.brokerUrl}/transactions/${transactionId}/commit`, {
+                method: "POST",
+                headers,
+                body: JSON.stringify({ acks: options?.acks })
+            });
+            if (commitResponse.status !== 200) {
+                throw new Error(`Failed to commit transaction ${transactionId}: ${commitResponse.statusText}`);
+            }
+
+            const data = await commitResponse.json();
+            return {
+                success: true,
+                data
+            };
+        } catch (error) {
+            console.error(`Failed to commit transaction: ${error}`);
+            return {
+                success: false,
+                error
+            };
+        }
+    }
 }
 
 export default Producer;
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { PartitionId, TopicId } from "./types.js";
+import Consumer from "./consumer.js";
+
+/**
+ * A transaction opened by `Producer.transaction()`.
+ *
+ * Messages sent through a transaction are staged on the broker and only become visible to
+ * consumers once the transaction commits. They can target any topic on the broker.
+ *
+ * A transaction can also commit offsets a `Consumer` has processed (`commitOffset`): the
+ * output and the input commit then take effect together, so a worker that crashes in between
+ * neither loses input nor produces its output twice.
+ */
+class Transaction {
+    readonly transactionId: string;
+    private readonly brokerUrl: string;
+    private readonly topicId: TopicId;
+    private readonly headers: Record<string, string>;
+
+    constructor(transactionId: string, brokerUrl: string, topicId: TopicId, headers: Record<string, string>) {
+        this.transactionId = transactionId;
+        this.brokerUrl = brokerUrl;
+        this.topicId = topicId;
+        this.headers = headers;
+    }
+
+    /**
+     * Stage a message in this transaction.
+     *
+     * @param message - The message to stage
+     * @param topicId - Topic to write to. Defaults to the producer's topic.
+     * @throws {Error} Throws if the broker rejects the message, which aborts the transaction
+     */
+    async send(message: {
+        messageId: string;
+        content: any;
+        key?: string;
+        partitionId?: number;
+        headers?: Record<string, string>;
+    }, topicId: TopicId = this.topicId): Promise<void> {
+        const content = message.content;
+        const response = await fetch(`${this.brokerUrl}/transactions/${this.transactionId}/messages`, {
+            method: "POST",
+            headers: this.headers,
+            body: JSON.stringify({
+                topicId,
+                message: {
+                    messageId: message.messageId,
+                    content: typeof content === 'string' ? content : JSON.stringify(content),
+                    key: message.key,
+                    partitionId: message.partitionId,
+                    headers: message.headers
+                }
+            })
+        });
+
+        if (response.status !== 200) {
+            throw new Error(`Failed to add message ${message.messageId} to transaction ${this.transactionId}: ${response.statusText}`);
+        }
+    }
+
+    /**
+     * Commit a partition of `consumer` up to `offset` as part of this transaction, instead of
+     * calling `consumer.commitOffset` after producing.
+     *
+     * @param consumer - The consumer the processed messages came from
+     * @param offset - The offset to commit, like `Consumer.commitOffset` (usually the batch's `endOffset`)
+     * @param partitionId - The partition to commit. Defaults to the partition of the consumer's last batch.
+     * @throws {Error} Throws if the broker rejects the commit (e.g. the offsets are leased to
+     *                 another consumer), which aborts the transaction
+     */
+    async commitOffset(consumer: Consumer, offset: number, partitionId?: PartitionId): Promise<void> {
+        const assignment = await consumer.getAssignment();
+        const { topicId, consumerId, groupId } = assignment;
+        partitionId = partitionId ?? assignment.partitionId;
+        const response = await fetch(`${this.brokerUrl}/transactions/${this.transactionId}/offsets`, {
+            method: "POST",
+            headers: this.headers,
+            body: JSON.stringify({ topicId, partitionId, consumerId, groupId, offset })
+        });
+
+        if (response.status !== 200) {
+            throw new Error(`Failed to add offset ${offset} of topic ${topicId}, partition ${partitionId} to transaction ${this.transactionId}: ${response.statusText}`);
+        }
+    }
+}
+
+export default Transaction;
@@ -2,10 +2,28 @@ export type BrokerId = string;
 export type TopicId = string;
 export type PartitionId = string;
 export type ConsumerId = string;
+export type GroupId = string;
+export type Acks = "none" | "leader" | "fsync";
 export type Message = {
     topicId: TopicId;
     messageId: string;
     content: string;
+    // Partition key, if the producer set one
+    key?: string;
+    // Partition the producer picked explicitly, if it did
+    partitionId?: number;
+    // Application metadata set by the producer
+    headers?: Record<string, string>;
+    // When the broker accepted the message (ms since epoch)
+    timestamp?: number;
+    // Time to live from `timestamp`, if the message has its own
+    ttlMs?: number;
+    // 0 (default) to 9; higher priorities are consumed first
+    priority?: number;
+    // The message's offset in its partition
+    offset?: number;
+    // How many times this message has been delivered, including this delivery
+    deliveryCount?: number;
 }
 
 type ErrorResponse = {
@@ -18,7 +36,18 @@ type SuccessResponse<T = any> = {
 };
 export type Response<T = any> = SuccessResponse<T> | ErrorResponse;
 
+// Result of `consume()` (one message, or null when there is none) and `batchConsume()` (an array)
 export type ConsumptionResponse = {
-    message: Message | Message[];
-    offset: number;
+    // The partition the messages were read from
+    partitionId?: PartitionId;
+    messages: Message | Message[] | null;
+    count: number;
+    // The batch covers offsets startOffset + 1 through endOffset
+    startOffset: number;
+    endOffset: number;
+    // False when the batch skipped older messages of a lower priority (commit it with `commitBatch()`)
+    contiguous?: boolean;
+    // Set unless reading from a seeked position
+    leaseId?: string;
+    leaseExpiresAt?: string;
 }
\ No newline at end of file
@@ -2,17 +2,8 @@ import fs from "fs";
 import path from "path";
 import { internalTPCMap } from "./main.js";
 import { readTPCLog, writeTPCLog, tpcLogExists } from "./shared/tpc-helper.js";
-
-interface TopicConfig {
-    id: string;
-    partitions: number;
-}
-
-interface BrokerConfig {
-    brokerId: string;
-    topics: TopicConfig[];
-    reboot: boolean;
-}
+import { atomicFileExists, writeAtomicFile } from "./shared/atomic-file.js";
+import { ACKS_LEVELS, ASSIGNMENT_STRATEGIES, Acks, AssignmentStrategy, BrokerConfig, COMPRESSION_TYPES, Compression, PARTITIONER_STRATEGIES, PartitionerStrategy, TopicConfig } from "./shared/types.js";
 
 /**
  * Bootstrap utilities for initializing the Panda-Q data storage
@@ -20,6 +11,20 @@ interface BrokerConfig {
 export class Bootstrap {
     private static readonly CONFIG_FILE = "pandaq-config.json";
     private static readonly DATA_DIR = "pandaq-data";
+    private static readonly DEFAULT_SEGMENT_BYTES = 64 * 1024 * 1024;
+    private static readonly DEFAULT_SEGMENT_MESSAGES = 500_000;
+    private static readonly DEFAULT_INDEX_INTERVAL = 100;
+    private static readonly DEFAULT_ACKS: Acks = "leader";
+    private static readonly DEFAULT_COMPRESSION: Compression = "none";
+    private static readonly DEFAULT_PARTITIONER: PartitionerStrategy = "murmur2";
+    private static readonly DEFAULT_STICKY_BATCH_SIZE = 100;
+    private static readonly DEFAULT_ASSIGNMENT_STRATEGY: AssignmentStrategy = "range";
+    private static readonly DEFAULT_VISIBILITY_TIMEOUT_MS = 30 * 1000;
+    private static readonly DEFAULT_GROUP_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+    private static readonly DEAD_LETTER_SUFFIX = ".DLQ";
+    private static readonly DEFAULT_DEDUP_WINDOW_MS = 5 * 60 * 1000;
+    private static readonly DEFAULT_DEDUP_WINDOW_SIZE = 100_000;
+    private static readonly DEFAULT_SESSION_TIMEOUT_MS = 30 * 1000;
 
     /**
      * Parse the pandaq-config.json file
@@ -54,16 +59,118 @@ export class Bootstrap {
                 if (!topic.partitions || typeof topic.partitions !== 'number') {
                     throw new Error(`Topic '${topic.id}' must have a valid 'partitions' number`);
                 }
+                if (topic.segmentBytes !== undefined && (typeof topic.segmentBytes !== 'number' || topic.segmentBytes <= 0)) {
+                    throw new Error(`Topic '${topic.id}' has an invalid 'segmentBytes' value`);
+                }
+                if (topic.segmentMessages !== undefined && (typeof topic.segmentMessages !== 'number' || topic.segmentMessages <= 0)) {
+                    throw new Error(`Topic '${topic.id}' has an invalid 'segmentMessages' value`);
+                }
+                if (topic.indexInterval !== undefined && (!Number.isInteger(topic.indexInterval) || topic.indexInterval <= 0)) {
+                    throw new Error(`Topic '${topic.id}' has an invalid 'indexInterval' value`);
+                }
+                if (topic.acks !== undefined && !ACKS_LEVELS.includes(topic.acks)) {
+                    throw new Error(`Topic '${topic.id}' has an invalid 'acks' value. Expected one of: ${ACKS_LEVELS.join(", ")}`);
+                }
+                if (topic.compression !== undefined && !COMPRESSION_TYPES.includes(topic.compression)) {
+                    throw new Error(`Topic '${topic.id}' has an invalid 'compression' value. Expected one of: ${COMPRESSION_TYPES.join(", ")}`);
+                }
+                if (topic.partitioner !== undefined && !PARTITIONER_STRATEGIES.includes(topic.partitioner)) {
+                    throw new Error(`Topic '${topic.id}' has an invalid 'partitioner' value. Expected one of: ${PARTITIONER_STRATEGIES.join(", ")}`);
+                }
+                if (topic.stickyBatchSize !== undefined && (!Number.isInteger(topic.stickyBatchSize) || topic.stickyBatchSize <= 0)) {
+                    throw new Error(`Topic '${topic.id}' has an invalid 'stickyBatchSize' value`);
+                }
+                if (topic.assignmentStrategy !== undefined && !ASSIGNMENT_STRATEGIES.includes(topic.assignmentStrategy)) {
+                    throw new Error(`Topic '${topic.id}' has an invalid 'assignmentStrategy' value. Expected one of: ${ASSIGNMENT_STRATEGIES.join(", ")}`);
+                }
+                if (topic.visibilityTimeoutMs !== undefined && (typeof topic.visibilityTimeoutMs !== 'number' || topic.visibilityTimeoutMs <= 0)) {
+                    throw new Error(`Topic '${topic.id}' has an invalid 'visibilityTimeoutMs' value`);
+                }
+                if (topic.groupRetentionMs !== undefined && (typeof topic.groupRetentionMs !== 'number' || topic.groupRetentionMs <= 0)) {
+                    throw new Error(`Topic '${topic.id}' has an invalid 'groupRetentionMs' value`);
+                }
+                if (topic.maxDeliveries !== undefined && (!Number.isInteger(topic.maxDeliveries) || topic.maxDeliveries < 1)) {
+                    throw new Error(`Topic '${topic.id}' has an invalid 'maxDeliveries' value`);
+                }
+                if (topic.ttlMs !== undefined && (typeof topic.ttlMs !== 'number' || topic.ttlMs <= 0)) {
+                    throw new Error(`Topic '${topic.id}' has an invalid 'ttlMs' value`);
+                }
+                if (topic.deadLetterExpired !== undefined && typeof topic.deadLetterExpired !== 'boolean') {
+                    throw new Error(`Topic '${topic.id}' has an invalid 'deadLetterExpired' value`);
+                }
+                if (topic.deadLetterTopic !== undefined && (typeof topic.deadLetterTopic !== 'string' || !topic.deadLetterTopic || topic.deadLetterTopic === topic.id)) {
+                    throw new Error(`Topic '${topic.id}' has an invalid 'deadLetterTopic' value`);
+                }
+                if (topic.retentionMs !== undefined && (typeof topic.retentionMs !== 'number' || topic.retentionMs < 0)) {
+                    throw new Error(`Topic '${topic.id}' has an invalid 'retentionMs' value`);
+                }
+                if (topic.retentionBytes !== undefined && (typeof topic.retentionBytes !== 'number' || topic.retentionBytes < 0)) {
+                    throw new Error(`Topic '${topic.id}' has an invalid 'retentionBytes' value`);
+                }
                 return {
                     id: topic.id,
-                    partitions: topic.partitions
+                    partitions: topic.partitions,
+                    segmentBytes: topic.segmentBytes ?? Bootstrap.DEFAULT_SEGMENT_BYTES,
+                    segmentMessages: topic.segmentMessages ?? Bootstrap.DEFAULT_SEGMENT_MESSAGES,
+                    indexInterval: topic.indexInterval ?? Bootstrap.DEFAULT_INDEX_INTERVAL,
+                    acks: topic.acks ?? Bootstrap.DEFAULT_ACKS,
+                    compression: topic.compression ?? Bootstrap.DEFAULT_COMPRESSION,
+                    partitioner: topic.partitioner ?? Bootstrap.DEFAULT_PARTITIONER,
+                    stickyBatchSize: topic.stickyBatchSize ?? Bootstrap.DEFAULT_STICKY_BATCH_SIZE,
+                    assignmentStrategy: topic.assignmentStrategy ?? Bootstrap.DEFAULT_ASSIGNMENT_STRATEGY,
+                    retentionMs: topic.retentionMs,
+                    retentionBytes: topic.retentionBytes,
+                    visibilityTimeoutMs: topic.visibilityTimeoutMs ?? Bootstrap.DEFAULT_VISIBILITY_TIMEOUT_MS,
+                    groupRetentionMs: topic.groupRetentionMs ?? Bootstrap.DEFAULT_GROUP_RETENTION_MS,
+                    ttlMs: topic.ttlMs,
+                    maxDeliveries: topic.maxDeliveries,
+                    deadLetterExpired: topic.deadLetterExpired,
+                    deadLetterTopic: topic.maxDeliveries !== undefined || topic.deadLetterExpired
+                        ? (topic.deadLetterTopic ?? `${topic.id}${Bootstrap.DEAD_LETTER_SUFFIX}`)
+                        : undefined
                 };
             });
 
+            // A dead-letter topic that isn't configured explicitly is created with default
+            // settings and as many partitions as its source topic
+            for (const topic of [...topics]) {
+                if (topic.deadLetterTopic !== undefined && !topics.some(existing => existing.id === topic.deadLetterTopic)) {
+                    topics.push({
+                        id: topic.deadLetterTopic,
+                        partitions: topic.partitions,
+                        segmentBytes: Bootstrap.DEFAULT_SEGMENT_BYTES,
+                        segmentMessages: Bootstrap.DEFAULT_SEGMENT_MESSAGES,
+                        indexInterval: Bootstrap.DEFAULT_INDEX_INTERVAL,
+                        acks: topic.acks,
+                        compression: Bootstrap.DEFAULT_COMPRESSION,
+                        partitioner: Bootstrap.DEFAULT_PARTITIONER,
+                        stickyBatchSize: Bootstrap.DEFAULT_STICKY_BATCH_SIZE,
+                        assignmentStrategy: Bootstrap.DEFAULT_ASSIGNMENT_STRATEGY,
+                        visibilityTimeoutMs: Bootstrap.DEFAULT_VISIBILITY_TIMEOUT_MS,
+                        groupRetentionMs: Bootstrap.DEFAULT_GROUP_RETENTION_MS
+                    });
+                }
+            }
+
+            if (config.dedupWindowMs !== undefined && (typeof config.dedupWindowMs !== 'number' || config.dedupWindowMs < 0)) {
+                throw new Error("Invalid 'dedupWindowMs' in config");
+            }
+            if (config.dedupWindowSize !== undefined && (!Number.isInteger(config.dedupWindowSize) || config.dedupWindowSize < 0)) {
+                throw new Error("Invalid 'dedupWindowSize' in config");
+            }
+            if (config.sessionTimeoutMs !== undefined && (typeof config.sessionTimeoutMs !== 'number' || config.sessionTimeoutMs <= 0)) {
+                throw new Error("Invalid 'sessionTimeoutMs' in config");
+            }
+
             const result: BrokerConfig = {
                 brokerId: config.brokerId,
                 topics,
-                reboot: config.reboot === true
+                reboot: config.reboot === true,
+                dedup: {
+                    windowMs: config.dedupWindowMs ?? Bootstrap.DEFAULT_DEDUP_WINDOW_MS,
+                    windowSize: config.dedupWindowSize ?? Bootstrap.DEFAULT_DEDUP_WINDOW_SIZE
+                },
+                sessionTimeoutMs: config.sessionTimeoutMs ?? Bootstrap.DEFAULT_SESSION_TIMEOUT_MS
             };
 
             console.log(`[Bootstrap] Parsed config - Broker: ${result.brokerId}, Topics: ${result.topics.length}, Reboot: ${result.reboot}`);
@@ -99,9 +206,9 @@ export class Bootstrap {
         // Fall back to populating from config if TPC.log doesn't exist
         console.log("[Bootstrap] No TPC.log found, populating from config...");
         for (const topic of config.topics) {
-            const partitionMap = new Map<number, string>();
+            const partitionMap = new Map<number, Map<string, string>>();
             for (let i = 0; i < topic.partitions; i++) {
-                partitionMap.set(i, ""); // Empty consumer ID initially
+                partitionMap.set(i, new Map()); // No consumer group assigned initially
             }
             internalTPCMap.set(topic.id, partitionMap);
         }
@@ -126,7 +233,7 @@ export class Bootstrap {
 
         // Create ingress log and metadata files
         this.initializeFile(path.join(dataDir, 'ingress.log'));
-        this.initializeFile(path.join(dataDir, 'ingress_metadata.log'), 'ingress|0|0\n');
+        this.initializeStateFile(path.join(dataDir, 'ingress_metadata.log'), 'ingress|0|0\n');
 
         // Create config log file
         this.initializeConfigLog(dataDir, config);
@@ -207,6 +314,14 @@ export class Bootstrap {
         }
     }
 
+    // Offset metadata is written atomically (see atomic-file.ts), so seed it in that format
+    private static initializeStateFile(filePath: string, defaultContent: string = ''): void {
+        if (!atomicFileExists(filePath)) {
+            writeAtomicFile(filePath, defaultContent);
+            console.log(`[Bootstrap] Created file: ${filePath}`);
+        }
+    }
+
     private static initializeConfigLog(dataDir: string, config: BrokerConfig): void {
         const configPath = path.join(dataDir, 'config.log');
         const lines: string[] = [];
@@ -226,13 +341,16 @@ export class Bootstrap {
             fs.mkdirSync(topicDir, { recursive: true });
         }
 
-        // Create partition log files
+        // Create partition segment directories
         for (let i = 0; i < topic.partitions; i++) {
-            this.initializeFile(path.join(topicDir, `partition_${i}.log`));
+            const partitionDir = path.join(topicDir, `partition_${i}`);
+            if (!fs.existsSync(partitionDir)) {
+                fs.mkdirSync(partitionDir, { recursive: true });
+            }
         }
 
         // Create topic-specific partition metadata file
-        this.initializeFile(path.join(topicDir, `${topic.id}_partition_metadata.log`));
+        this.initializeStateFile(path.join(topicDir, `${topic.id}_partition_metadata.log`));
 
         console.log(`[Bootstrap] Initialized topic ${topic.id} with ${topic.partitions} partition(s)`);
     }
@@ -266,17 +384,18 @@ export class Bootstrap {
             throw new Error(`Topic directory missing: topic_${topic.id}`);
         }
 
-        // Validate partition log files
+        // Validate partition segment directories (a legacy single-file log is migrated on load)
         for (let i = 0; i < topic.partitions; i++) {
-            const partitionFile = path.join(topicDir, `partition_${i}.log`);
-            if (!fs.existsSync(partitionFile)) {
-                throw new Error(`Partition file missing: topic_${topic.id}/partition_${i}.log`);
+            const partitionDir = path.join(topicDir, `partition_${i}`);
+            const legacyPartitionFile = path.join(topicDir, `partition_${i}.log`);
+            if (!fs.existsSync(partitionDir) && !fs.existsSync(legacyPartitionFile)) {
+                throw new Error(`Partition log missing: topic_${topic.id}/partition_${i}/`);
             }
         }
 
         // Validate metadata file
         const metadataFile = path.join(topicDir, `${topic.id}_partition_metadata.log`);
-        if (!fs.existsSync(metadataFile)) {
+        if (!atomicFileExists(metadataFile)) {
             throw new Error(`Partition metadata file missing: topic_${topic.id}/${topic.id}_partition_metadata.log`);
         }
     }
@@ -1,27 +1,48 @@
 import IngressBuffer from "./ingress-buffer.js";
-import ERROR_CODES from "./shared/error-codes.js";
-import { TopicId, BrokerId, Response, ConsumerId, PartitionId, Message } from "./shared/types.js";
+import { TopicId, BrokerId, Response, Message, TopicConfig, DedupConfig, OffsetCommit, Acks } from "./shared/types.js";
 import Topic from "./topic.js";
+import LogCleaner from "./log-cleaner.js";
+import Scheduler from "./scheduler.js";
+import GroupCoordinator from "./group-coordinator.js";
 import { internalTPCMap } from "./main.js";
-import { writeTPCLog } from "./shared/tpc-helper.js";
+import ERROR_CODES from "./shared/error-codes.js";
 
 /**
  * Broker Class
  * 
  * The job of the broker is to extract/receive messages from the ingress buffer and
  * sort them based on the topics.
+ * 
+ * Delayed messages wait in the `Scheduler`; each cycle, the ones that are due are released
+ * into the ingress buffer before it is read.
+ * 
+ * Offset commits of consume-transform-produce transactions arrive as control records in the
+ * ingress buffer. They aren't routed; each is applied to its partition once everything before
+ * it has been routed, and before the ingress readOffset moves past it.
+ * 
+ * Consumer groups and their partition assignments are managed by the `GroupCoordinator`;
+ * each cycle, it drops consumers whose session has timed out and rebalances their groups.
  */
 class Broker {
     private readonly brokerId: BrokerId;
     private topics: Map<TopicId, Topic>;
+    private readonly topicConfigs: TopicConfig[];
     readonly ingressBuffer: IngressBuffer;
+    readonly scheduler: Scheduler;
+    private readonly logCleaner: LogCleaner;
+    readonly groupCoordinator: GroupCoordinator;
 
-    constructor(brokerId: BrokerId) {
+    constructor(brokerId: BrokerId, topicConfigs: TopicConfig[], dedupConfig: DedupConfig, sessionTimeoutMs: number) {
         console.log(`[Broker] Initializing Broker: ${brokerId}`);
         this.brokerId = brokerId;
-        this.ingressBuffer = new IngressBuffer();
+        this.topicConfigs = topicConfigs;
+        this.ingressBuffer = new IngressBuffer(new Map(topicConfigs.map(topic => [topic.id, topic.compression])), dedupConfig);
+        this.scheduler = new Scheduler(this.ingressBuffer);
         this.topics = new Map<TopicId, Topic>();
         this.setupTopics();
+        this.reconcileIngress();
+        this.logCleaner = new LogCleaner(this.topics, this.ingressBuffer, this.scheduler);
+        this.groupCoordinator = new GroupCoordinator(this.topics, sessionTimeoutMs);
         console.log(`[Broker] Broker ${brokerId} initialized successfully with ${this.topics.size} topics`);
     }
 
@@ -32,18 +53,57 @@ class Broker {
         // Use internalTPCMap instead of config file
         for (const [topicId, partitionMap] of internalTPCMap) {
             const noOfPartitions = partitionMap.size;
+            const topicConfig = this.topicConfigs.find(topic => topic.id === topicId);
+            if (!topicConfig) {
+                throw new Error(`Topic ${topicId} found in TPC Map but missing from configuration`);
+            }
             console.log(`[Broker] Creating topic: ${topicId} with ${noOfPartitions} partition(s)`);
-            this.topics.set(topicId, new Topic(topicId, noOfPartitions));
+            this.topics.set(topicId, new Topic(topicId, noOfPartitions, topicConfig));
+        }
+
+        // Dead-letter topics are ordinary topics (added to the config by Bootstrap)
+        for (const topicConfig of this.topicConfigs) {
+            if (topicConfig.deadLetterTopic === undefined) {
+                continue;
+            }
+            const deadLetterTopic = this.topics.get(topicConfig.deadLetterTopic);
+            if (!deadLetterTopic) {
+                throw new Error(`Dead-letter topic ${topicConfig.deadLetterTopic} of topic ${topicConfig.id} not found in TPC Map`);
+            }
+            this.topics.get(topicConfig.id)?.setDeadLetterTopic(deadLetterTopic);
+        }
+    }
+
+    // Routing is idempotent per partition (see `Partition.push`), so after a crash the
+    // ingress buffer simply re-routes everything past its readOffset. The only thing to fix
+    // up is an ingress log that ends before offsets the partitions have already seen.
+    private reconcileIngress(): void {
+        let lastSourceOffset = 0;
+        for (const [, topic] of this.topics) {
+            lastSourceOffset = Math.max(lastSourceOffset, topic.getLastSourceOffset());
+        }
+        const result = this.ingressBuffer.fastForward(lastSourceOffset);
+        if (!result.success) {
+            throw result.error;
         }
     }
 
     // Public methods
     async start(): Promise<Response<void>> {
         console.log(`[Broker] Broker ${this.brokerId} started. Entering main processing loop...`);
+        this.logCleaner.start();
         let cycleCount = 0;
         while (true) {
             cycleCount++;
-            // fetch a batch of messages from the ingress buffer
+            this.groupCoordinator.expireSessions(Date.now());
+
+            const releaseResult = await this.scheduler.releaseDue();
+            if (!releaseResult.success) {
+                console.error(`[Broker] Failed to release scheduled messages:`, releaseResult.errorCode, releaseResult.error);
+            }
+
+            // fetch a batch of messages from the ingress buffer (they stay in the buffer until committed).
+            // A committed transaction is never split across batches, so all of it is routed in this cycle.
             const batchResponse = this.ingressBuffer.batchExtract(5000);
             if (!batchResponse.success) {
                 // Buffer is empty, just continue to next cycle
@@ -51,115 +111,145 @@ class Broker {
                 continue;
             }
 
-            if (batchResponse.data.length > 0) {
-                console.log(`[BROKER] Cycle ${cycleCount}: Extracted ${batchResponse.data.length} message(s) from ingress buffer`);
+            const { messages, startOffset } = batchResponse.data;
+            if (messages.length > 0) {
+                console.log(`[BROKER] Cycle ${cycleCount}: Extracted ${messages.length} message(s) from ingress buffer`);
             }
 
-            // segregate messages according to topics
-            for (const message of batchResponse.data) {
-                const topicIdOfMessage = message.topicId;
-                const topic = this.topics.get(topicIdOfMessage);
+            // Group messages by topic, tagging each with its ingress offset and its position among
+            // the topic's routed messages, so every partition gets its share of the batch as a
+            // single (possibly compressed) write
+            const entriesByTopic = new Map<Topic, { message: Message; sourceOffset: number; position: number }[]>();
+            const offsetCommits: { topic: Topic; sourceOffset: number; offsetCommit: OffsetCommit }[] = [];
+            messages.forEach((message, i) => {
+                const sourceOffset = startOffset + i + 1;
+                const topic = this.topics.get(message.topicId);
                 if (!topic) {
-                    console.log(`[Broker] Topic ${topicIdOfMessage} not found for message ${message.messageId}`);
-                    continue;
+                    console.log(`[Broker] Topic ${message.topicId} not found for message ${message.messageId}`);
+                    return;
                 }
-                await topic.push(message);
-            }
-
-            // // Group messages by topicId
-            // const messagesByTopic = new Map<string, Message[]>();
-            // for (const message of batchResponse.data) {
-            //     const topicId = message.topicId;
-            //     if (!messagesByTopic.has(topicId)) {
-            //         messagesByTopic.set(topicId, []);
-            //     }
-            //     messagesByTopic.get(topicId)!.push(message);
-            // }
-
-            // // Push each topic's batch at once
-            // for (const [topicId, messages] of messagesByTopic) {
-            //     const topic = this.topics.get(topicId);
-            //     if (!topic) {
-            //         console.log(`[Broker] Topic ${topicId} not found for ${messages.length} message(s)`);
-            //         continue;
-            //     }
-            //     await topic.batchPush(messages);
-            // }
-
-            // yield back to the event loop (avoid thread blocking)
-            await new Promise((resolve) => setTimeout(resolve, 100));
-        }
-    }
+                if (message.offsetCommit) {
+                    offsetCommits.push({ topic, sourceOffset, offsetCommit: message.offsetCommit });
+                    return;
+                }
+                if (!entriesByTopic.has(topic)) {
+                    entriesByTopic.set(topic, []);
+                }
+                const entries = entriesByTopic.get(topic)!;
+                entries.push({ message, sourceOffset, position: this.ingressBuffer.getRoutedCount(message.topicId) + entries.length });
+            });
 
-    async registerConsumer(topicId: TopicId, consumerId: ConsumerId): Promise<Response<{ partitionId: PartitionId }>> {
-        try {
-            const partitionMap = internalTPCMap.get(topicId);
-            if (!partitionMap) {
-                return {
-                    success: false,
-                    errorCode: ERROR_CODES.TOPIC_NOT_FOUND,
-                    error: new Error(`Topic ${topicId} not found in TPC Map`)
-                };
+            // A failed topic holds the commit back to just before its first message, so it is
+            // retried next cycle; partitions drop whatever they already took from the retry
+            let routedOffset = startOffset + messages.length;
+            const touchedTopics = new Set<Topic>();
+            for (const [topic, entries] of entriesByTopic) {
+                const pushResult = await topic.batchPush(entries);
+                touchedTopics.add(topic);
+                if (!pushResult.success) {
+                    console.error(`[Broker] Failed to route ${entries.length} message(s) from ingress offset ${entries[0].sourceOffset}:`, pushResult.errorCode, pushResult.error);
+                    routedOffset = Math.min(routedOffset, entries[0].sourceOffset - 1);
+                }
             }
 
-            // Find an unassigned partition or the partition with this consumer
-            let assignedPartitionId: PartitionId | null = null;
+            // One fsync per partition per cycle for topics configured with `acks: fsync`
+            let synced = true;
+            for (const topic of touchedTopics) {
+                const syncResult = await topic.sync();
+                if (!syncResult.success) {
+                    console.error(`[Broker] Failed to sync partitions:`, syncResult.errorCode, syncResult.error);
+                    synced = false;
+                }
+            }
 
-            // First, check if consumer is already assigned to a partition
-            for (const [partitionId, existingConsumerId] of partitionMap) {
-                if (existingConsumerId === consumerId) {
-                    console.log("Consumer Already Registered With Partition:", partitionId)
-                    assignedPartitionId = partitionId;
+            // A transaction's input offsets are committed once its output is in the partitions.
+            // After a crash (or a failed commit) they are applied again, which is a no-op for a
+            // commit that landed.
+            for (const { topic, sourceOffset, offsetCommit } of offsetCommits) {
+                if (!synced || sourceOffset > routedOffset) {
+                    break;
+                }
+                // Leases were checked and the offsets fenced when the transaction committed (see
+                // `commitTransaction`); a commit that fails is retried, never dropped
+                const { partitionId, offset, consumerId, groupId } = offsetCommit;
+                const commitResult = await topic.commitOffset(partitionId, offset, groupId, consumerId, false);
+                if (!commitResult.success) {
+                    console.error(`[Broker] Failed to apply offset commit ${offset} of consumer ${consumerId} (group ${groupId}) to partition ${partitionId} from ingress offset ${sourceOffset}:`, commitResult.errorCode, commitResult.error);
+                    routedOffset = Math.min(routedOffset, sourceOffset - 1);
                     break;
                 }
             }
 
-            // If not already assigned, find an empty partition
-            if (assignedPartitionId === null) {
-                for (const [partitionId, existingConsumerId] of partitionMap) {
-                    if (existingConsumerId === "") {
-                        assignedPartitionId = partitionId;
-                        partitionMap.set(partitionId, consumerId);
+            // Only now advance the ingress readOffset: a crash before this point re-routes the
+            // batch on boot, and the partitions drop what they already hold
+            if (synced && routedOffset > startOffset) {
+                // A topic's messages past `routedOffset` are routed again, from the same positions
+                const routedCounts = new Map<TopicId, number>();
+                for (const [, entries] of entriesByTopic) {
+                    const routed = entries.filter(({ sourceOffset }) => sourceOffset <= routedOffset).length;
+                    routedCounts.set(entries[0].message.topicId, this.ingressBuffer.getRoutedCount(entries[0].message.topicId) + routed);
+                }
+                const commitResult = this.ingressBuffer.commitOffset(routedOffset, routedCounts);
+                if (!commitResult.success) {
+                    console.error(`[Broker] Failed to commit ingress offset ${routedOffset}:`, commitResult.errorCode, commitResult.error);
+                }
+            }
 
-                        // Persist TPC Map to TPC.log
-                        writeTPCLog(internalTPCMap);
+            // yield back to the event loop (avoid thread blocking)
+            await new Promise((resolve) => setTimeout(resolve, 100));
+        }
+    }
 
-                        console.log(`[Broker] Consumer ${consumerId} assigned to partition ${partitionId} for topic ${topicId}`);
-                        break;
-                    }
-                }
+    /**
+     * Commit a transaction. The input offsets it commits are checked against the leases of the
+     * other consumers of their groups first, and fenced so no consumer is handed them before
+     * the broker loop applies them with the transaction's output. A lease conflict refuses the
+     * commit and leaves the transaction open.
+     */
+    async commitTransaction(transactionId: string, acks: Acks): Promise<Response<{ startOffset: number; endOffset: number; offsetCommits: number; acks: Acks }>> {
+        const fenced: { topic: Topic; offsetCommit: OffsetCommit }[] = [];
+        const releaseFences = () => {
+            for (const { topic, offsetCommit } of fenced) {
+                topic.unfenceOffset(offsetCommit.partitionId, offsetCommit.offset, offsetCommit.groupId);
             }
+        };
 
-            if (assignedPartitionId === null) {
+        for (const { topicId, offsetCommit } of this.ingressBuffer.getTransactionOffsetCommits(transactionId)) {
+            const topic = this.topics.get(topicId);
+            if (!topic) {
+                releaseFences();
                 return {
                     success: false,
-                    errorCode: ERROR_CODES.NO_PARTITION_AVAILABLE,
-                    error: new Error(`No available partition for topic ${topicId}`)
+                    errorCode: ERROR_CODES.TOPIC_NOT_FOUND,
+                    error: new Error(`Topic ${topicId} not found`)
                 };
             }
+            const { partitionId, offset, groupId, consumerId } = offsetCommit;
+            const fenceResult = topic.fenceOffset(partitionId, offset, groupId, consumerId);
+            if (!fenceResult.success) {
+                releaseFences();
+                return fenceResult;
+            }
+            fenced.push({ topic, offsetCommit });
+        }
 
-            return {
-                success: true,
-                data: { partitionId: assignedPartitionId }
-            };
-        } catch (error) {
-            return {
-                success: false,
-                errorCode: ERROR_CODES.UNKNOWN_ERROR,
-                error: error
-            };
+        const commitResult = await this.ingressBuffer.commitTransaction(transactionId, acks);
+        if (!commitResult.success) {
+            releaseFences();
         }
+        return commitResult;
     }
 
     getTopic(topicId: TopicId): Topic | undefined {
         return this.topics.get(topicId);
     }
 
-    getStats(): { brokerId: BrokerId; topicCount: number; topics: any[]; ingressBuffer: any } {
+    getStats(): { brokerId: BrokerId; topicCount: number; topics: any[]; ingressBuffer: any; scheduler: any; sessions: any } {
         const topicStats: any[] = [];
         for (const [topicId, topic] of this.topics) {
             topicStats.push(topic.getStats());
         }
+        const nextDeliverAt = this.scheduler.getNextDeliverAt();
         return {
             brokerId: this.brokerId,
             topicCount: this.topics.size,
@@ -167,8 +257,16 @@ class Broker {
             ingressBuffer: {
                 bufferSize: this.ingressBuffer.getBufferSize(),
                 logEndOffset: this.ingressBuffer.getLogEndOffset(),
-                readOffset: this.ingressBuffer.getReadOffset()
-            }
+                readOffset: this.ingressBuffer.getReadOffset(),
+                dedupEntries: this.ingressBuffer.getDedupSize(),
+                openTransactions: this.ingressBuffer.getOpenTransactionCount()
+            },
+            scheduler: {
+                pendingMessages: this.scheduler.getPendingCount(),
+                pendingByTopic: this.scheduler.getPendingCountByTopic(),
+                nextDeliverAt: nextDeliverAt === null ? null : new Date(nextDeliverAt).toISOString()
+            },
+            sessions: this.groupCoordinator.getStats()
         };
     }
 }
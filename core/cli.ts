@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+import dotenv from "dotenv";
+import Fsck from "./fsck.js";
+import getEnv from "./shared/env-config.js";
+dotenv.config();
+
+/**
+ * Panda-Q command line tools
+ *
+ * Usage:
+ *   pandaq fsck [--repair] [--data-dir <dir>]
+ *
+ * `fsck` verifies a data directory offline (stop the broker first). It exits with 0 when no
+ * errors remain, and 1 otherwise.
+ */
+
+const USAGE = `Usage:
+  pandaq fsck [--repair] [--data-dir <dir>]
+
+Commands:
+  fsck    Verify the data directory (defaults to DATA_STORAGE_VOLUME or ./pandaq-data).
+          Run it while the broker is stopped.
+
+Options:
+  --repair          Fix what can be fixed automatically (truncate torn tails, recompute offsets, ...)
+  --data-dir <dir>  Data directory to check`;
+
+function runFsck(args: string[]): number {
+    let repair = false;
+    let dataDir: string = getEnv().DATA_STORAGE_VOLUME || "pandaq-data";
+
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === "--repair") {
+            repair = true;
+        } else if (args[i] === "--data-dir" && args[i + 1]) {
+            dataDir = args[++i];
+        } else {
+            console.error(`Unknown option: ${args[i]}\n\n${USAGE}`);
+            return 1;
+        }
+    }
+
+    const fsck = new Fsck(dataDir, repair);
+    fsck.run();
+    fsck.printReport();
+    return fsck.getUnresolvedErrors().length > 0 ? 1 : 0;
+}
+
+const [command, ...args] = process.argv.slice(2);
+switch (command) {
+    case "fsck":
+        process.exit(runFsck(args));
+    default:
+        console.error(USAGE);
+        process.exit(command ? 1 : 0);
+}
@@ -0,0 +1,602 @@
+import fs from "fs";
+import path from "path";
+import SegmentedLog from "./shared/segmented-log.js";
+import OffsetIndex from "./shared/offset-index.js";
+import LogFileHandler from "./shared/log-file-handler.js";
+import { findIncompleteTransaction, findNextRecord, isLegacyTextLog, LogRecord, RecordScanResult, scanRecords } from "./shared/record-codec.js";
+import { atomicFileExists, readAtomicFile, writeAtomicFile } from "./shared/atomic-file.js";
+import { deserializeTPCMap, serializeTPCMap } from "./shared/tpc-helper.js";
+import { ConsumerId, FsckIssue, FsckSeverity, GroupId, PartitionId, TopicId } from "./shared/types.js";
+
+type OffsetPair = {
+    logEndOffset: number;
+    readOffset: number;
+};
+
+type PartitionLogSummary = {
+    logStartOffset: number;
+    lastOffset: number;
+    lastSourceOffset: number;
+};
+
+/**
+ * Fsck
+ *
+ * Offline verifier for a Panda-Q data directory. Run it while the broker is stopped.
+ *
+ * It checks that:
+ * - `config.log`, `TPC.log` and the metadata files exist and pass their checksums
+ * - `TPC.log` has exactly the topics and partitions listed in `config.log`
+ * - every record of `ingress.log` and of each partition segment passes its CRC, and offsets are contiguous
+ * - `ingress.log` doesn't end in the middle of a transaction
+ * - every record of `scheduled.log` (delayed messages, optional) passes its CRC
+ * - the record counts match `logEndOffset`, and `readOffset <= logEndOffset`
+ * - each segment's offset index points at real record boundaries
+ *
+ * With `repair` enabled, issues that can be fixed without guessing are fixed:
+ * - torn or corrupt log tails (with no readable record after them) are truncated
+ * - offsets are recomputed from the logs
+ * - bad indexes are deleted (they are rebuilt on the next start)
+ * - `TPC.log` is realigned with `config.log`
+ * - missing state files are recreated
+ *
+ * Corruption in the middle of a log is only reported.
+ */
+class Fsck {
+    private readonly dataDir: string;
+    private readonly repair: boolean;
+    private readonly issues: FsckIssue[] = [];
+
+    constructor(dataDir: string, repair: boolean = false) {
+        this.dataDir = dataDir;
+        this.repair = repair;
+    }
+
+    // Private methods
+    private location(filePath: string): string {
+        return path.relative(this.dataDir, filePath) || ".";
+    }
+
+    // Record an issue; in repair mode `fix` is applied and returns a description of what it did
+    private report(severity: FsckSeverity, filePath: string, message: string, fix?: () => string): void {
+        const issue: FsckIssue = { severity, location: this.location(filePath), message };
+        if (this.repair && fix) {
+            try {
+                issue.repair = fix();
+            } catch (error) {
+                issue.message += ` (repair failed: ${error})`;
+            }
+        }
+        this.issues.push(issue);
+    }
+
+    // Read a state file, reporting a fallback to its previous copy. Returns null if it can't be read.
+    private readStateFile(filePath: string): string | null {
+        try {
+            const stored = readAtomicFile(filePath);
+            if (!stored) {
+                return null;
+            }
+            if (stored.source !== filePath) {
+                this.report("warning", filePath, `Newest copy failed validation, last good copy is ${path.basename(stored.source)}`, () => {
+                    writeAtomicFile(filePath, stored.content);
+                    return "rewrote the last good copy";
+                });
+            }
+            return stored.content;
+        } catch (error) {
+            this.report("error", filePath, `No valid copy: ${error}`);
+            return null;
+        }
+    }
+
+    private readConfigLog(): Map<TopicId, number> | null {
+        const configPath = path.join(this.dataDir, "config.log");
+        if (!fs.existsSync(configPath)) {
+            this.report("error", configPath, "config.log not found; topics can't be checked (it's recreated from pandaq-config.json on boot)");
+            return null;
+        }
+
+        const topics = new Map<TopicId, number>();
+        for (const line of fs.readFileSync(configPath, "utf-8").split("\n").filter(line => line.trim())) {
+            const [kind, topicId, partitions] = line.split("|");
+            if (kind !== "topic_config" || !topicId || !Number.isInteger(Number(partitions)) || Number(partitions) <= 0) {
+                this.report("error", configPath, `Malformed line: ${line}`);
+                continue;
+            }
+            topics.set(topicId, Number(partitions));
+        }
+        return topics;
+    }
+
+    private checkTPCLog(topics: Map<TopicId, number>): void {
+        const tpcPath = path.join(this.dataDir, "TPC.log");
+        const content = this.readStateFile(tpcPath);
+        const stored = content !== null ? deserializeTPCMap(content) : new Map<TopicId, Map<PartitionId, Map<GroupId, ConsumerId>>>();
+
+        // The map TPC.log should hold: every configured partition, keeping known consumer assignments
+        const expected = new Map<TopicId, Map<PartitionId, Map<GroupId, ConsumerId>>>();
+        for (const [topicId, partitions] of topics) {
+            const partitionMap = new Map<PartitionId, Map<GroupId, ConsumerId>>();
+            for (let i = 0; i < partitions; i++) {
+                partitionMap.set(i, stored.get(topicId)?.get(i) ?? new Map());
+            }
+            expected.set(topicId, partitionMap);
+        }
+
+        const problems: string[] = [];
+        if (content === null && !atomicFileExists(tpcPath)) {
+            problems.push("TPC.log not found");
+        }
+        for (const [topicId, partitions] of topics) {
+            const partitionMap = stored.get(topicId);
+            if (!partitionMap) {
+                if (content !== null) {
+                    problems.push(`topic ${topicId} is missing`);
+                }
+                continue;
+            }
+            for (let i = 0; i < partitions; i++) {
+                if (!partitionMap.has(i)) {
+                    problems.push(`partition ${topicId}/${i} is missing`);
+                }
+            }
+            for (const partitionId of partitionMap.keys()) {
+                if (!Number.isInteger(partitionId) || partitionId < 0 || partitionId >= partitions) {
+                    problems.push(`partition ${topicId}/${partitionId} is not in config.log`);
+                }
+            }
+        }
+        for (const topicId of stored.keys()) {
+            if (!topics.has(topicId)) {
+                problems.push(`topic ${topicId} is not in config.log`);
+            }
+        }
+
+        if (problems.length > 0) {
+            this.report("error", tpcPath, `Doesn't match config.log: ${problems.join("; ")}`);
+        }
+        if (problems.length > 0 || content === null) {
+            this.rewriteStateFile(tpcPath, serializeTPCMap(expected), "rewrote TPC.log from config.log, keeping existing consumer assignments");
+        }
+    }
+
+    private parseOffsetLine(line: string | undefined, key: string): OffsetPair | null {
+        if (!line) {
+            return null;
+        }
+        const parts = line.split("|");
+        if (parts.length !== 3 || parts[0] !== key) {
+            return null;
+        }
+        const [, logEndOffset, readOffset] = parts.map(Number);
+        if (!Number.isInteger(logEndOffset) || !Number.isInteger(readOffset) || logEndOffset < 0 || readOffset < 0) {
+            return null;
+        }
+        return { logEndOffset, readOffset };
+    }
+
+    /**
+     * Check `ingress.log` against `ingress_metadata.log`.
+     * Returns the ingress logEndOffset (null if it couldn't be determined).
+     */
+    private checkIngress(): number | null {
+        const logPath = path.join(this.dataDir, "ingress.log");
+        const metadataPath = path.join(this.dataDir, "ingress_metadata.log");
+
+        const metadataContent = this.readStateFile(metadataPath);
+        const parsed = this.parseOffsetLine(metadataContent?.split("\n").find(line => line.trim()), "ingress");
+        if (!parsed && (metadataContent !== null || !atomicFileExists(metadataPath))) {
+            this.report("error", metadataPath, metadataContent === null ? "ingress_metadata.log not found" : "Missing or malformed ingress entry");
+        }
+        const offsets = parsed ?? { logEndOffset: 0, readOffset: 0 };
+        let changed = !parsed;
+
+        if (!fs.existsSync(logPath)) {
+            this.report("error", logPath, "ingress.log not found", () => {
+                fs.writeFileSync(logPath, "");
+                return "created an empty ingress.log";
+            });
+        } else {
+            const content = fs.readFileSync(logPath);
+            if (isLegacyTextLog(content)) {
+                this.report("warning", logPath, "Pre-binary text log, it is migrated on the next start");
+                return parsed ? offsets.logEndOffset : null;
+            }
+
+            const scan = scanRecords(content);
+            if (scan.status !== "ok") {
+                this.reportDamagedRecord(logPath, content, scan);
+            }
+
+            let decoded = scan.records;
+            const incompleteFrom = findIncompleteTransaction(decoded);
+            if (incompleteFrom !== -1) {
+                const position = decoded[incompleteFrom].position;
+                this.report("error", logPath, `Transaction ${decoded[incompleteFrom].record.tags.transactionId} has no end record (${decoded.length - incompleteFrom} record(s) from byte ${position})`, () => {
+                    fs.truncateSync(logPath, position);
+                    return `truncated the incomplete transaction`;
+                });
+                // Dropped on the next start anyway, so the offsets below are checked without it
+                decoded = decoded.slice(0, incompleteFrom);
+            }
+
+            const records = decoded.map(({ record }) => record);
+            this.checkContiguous(logPath, records, records[0]?.offset);
+
+            // The committed head may have been trimmed, so only the tail is compared
+            if (records.length > 0) {
+                const first = records[0].offset;
+                const last = records[records.length - 1].offset;
+                if (offsets.readOffset < first - 1) {
+                    this.report("error", logPath, `Offsets ${offsets.readOffset + 1}..${first - 1} were never routed but are no longer in the log`);
+                }
+                if (offsets.logEndOffset !== last) {
+                    if (parsed) {
+                        this.report("error", metadataPath, `logEndOffset is ${offsets.logEndOffset} but the log ends at offset ${last}`);
+                    }
+                    offsets.logEndOffset = last;
+                    changed = true;
+                }
+            }
+        }
+
+        if (offsets.readOffset > offsets.logEndOffset) {
+            this.report("error", metadataPath, `readOffset ${offsets.readOffset} is past logEndOffset ${offsets.logEndOffset}`);
+            offsets.readOffset = offsets.logEndOffset;
+            changed = true;
+        }
+
+        if (changed) {
+            // The topics' routed counts (see `IngressBuffer`) are kept as they are
+            const topicEntries = (metadataContent ?? "").split("\n").filter(line => line.startsWith("topic|")).map(line => `${line}\n`);
+            this.rewriteStateFile(metadataPath, `ingress|${offsets.logEndOffset}|${offsets.readOffset}\n${topicEntries.join("")}`, "rewrote it with offsets recomputed from the log");
+        }
+        return offsets.logEndOffset;
+    }
+
+    // Entries are keyed by schedule id rather than contiguous offsets, so only the records are checked
+    private checkScheduled(): void {
+        const logPath = path.join(this.dataDir, "scheduled.log");
+        if (!fs.existsSync(logPath)) {
+            return;
+        }
+        const content = fs.readFileSync(logPath);
+        const scan = scanRecords(content);
+        if (scan.status !== "ok") {
+            this.reportDamagedRecord(logPath, content, scan);
+        }
+    }
+
+    // In repair mode, replace a state file and mark the issues reported against it as repaired
+    private rewriteStateFile(filePath: string, content: string, description: string): void {
+        if (!this.repair) {
+            return;
+        }
+        writeAtomicFile(filePath, content);
+        for (const issue of this.issues) {
+            if (issue.location === this.location(filePath) && !issue.repair) {
+                issue.repair = description;
+            }
+        }
+    }
+
+    /**
+     * Report the record `scan` stopped at. A damaged tail is truncated in repair mode (unless
+     * `truncatable` is false, as for a sealed segment). Damage with readable records after it
+     * is only reported: truncating there would drop acknowledged messages.
+     */
+    private reportDamagedRecord(filePath: string, content: Buffer, scan: RecordScanResult, truncatable: boolean = true): void {
+        const message = `${scan.status} record at byte ${scan.validBytes}, ${content.length - scan.validBytes} byte(s) unreadable`;
+        const nextRecord = findNextRecord(content, scan.validBytes + 1);
+        if (nextRecord !== -1) {
+            this.report("error", filePath, `${message}; records from byte ${nextRecord} are readable, so the log isn't truncated`);
+        } else if (!truncatable) {
+            this.report("error", filePath, `${message}; this is a sealed segment, so messages after it can't be recovered automatically`);
+        } else {
+            this.report("error", filePath, message, () => {
+                const recovery = LogFileHandler.recover(filePath);
+                if (!recovery.success) {
+                    throw recovery.error;
+                }
+                return `truncated ${recovery.data.truncatedBytes} byte(s)`;
+            });
+        }
+    }
+
+    // Report gaps or reordering in a run of records that should start at `expectedFirst`
+    private checkContiguous(filePath: string, records: LogRecord[], expectedFirst: number | undefined): void {
+        let expected = expectedFirst;
+        for (const record of records) {
+            if (expected !== undefined && record.offset !== expected) {
+                this.report("error", filePath, `Expected offset ${expected}, found ${record.offset}`);
+                return;
+            }
+            expected = record.offset + 1;
+        }
+    }
+
+    // Every index entry must point at the start of a record with that offset
+    // `recordOffsets` maps each record position to the offsets stored there (a range for a compressed batch)
+    private checkIndex(segmentPath: string, baseOffset: number, recordOffsets: Map<number, { first: number; last: number }>): void {
+        const indexPath = OffsetIndex.indexPathFor(segmentPath);
+        if (!fs.existsSync(indexPath)) {
+            return;
+        }
+
+        const content = fs.readFileSync(indexPath);
+        let problem: string | null = null;
+        if (content.length % OffsetIndex.ENTRY_BYTES !== 0) {
+            problem = `size ${content.length} is not a multiple of ${OffsetIndex.ENTRY_BYTES}`;
+        }
+        for (let pos = 0; !problem && pos + OffsetIndex.ENTRY_BYTES <= content.length; pos += OffsetIndex.ENTRY_BYTES) {
+            const offset = baseOffset + content.readUInt32BE(pos);
+            const position = content.readUInt32BE(pos + 4);
+            const range = recordOffsets.get(position);
+            if (!range || offset < range.first || offset > range.last) {
+                problem = `entry ${pos / OffsetIndex.ENTRY_BYTES} points offset ${offset} at byte ${position}, which doesn't hold it`;
+            }
+        }
+
+        if (problem) {
+            this.report("error", indexPath, `Index is inconsistent with its segment: ${problem}`, () => {
+                fs.rmSync(indexPath, { force: true });
+                return "deleted the index (it is rebuilt on the next start)";
+            });
+        }
+    }
+
+    // Returns null when the partition has no verifiable log (missing or not yet migrated)
+    private checkPartitionLog(topicDir: string, partitionId: number): PartitionLogSummary | null {
+        const partitionDir = path.join(topicDir, `partition_${partitionId}`);
+        const legacyFile = path.join(topicDir, `partition_${partitionId}.log`);
+
+        if (!fs.existsSync(partitionDir)) {
+            if (fs.existsSync(legacyFile)) {
+                this.report("warning", legacyFile, "Pre-segmentation log, it is migrated on the next start");
+                return null;
+            }
+            this.report("error", partitionDir, "Partition log directory not found", () => {
+                fs.mkdirSync(partitionDir, { recursive: true });
+                return "created an empty partition directory";
+            });
+            return null;
+        }
+
+        const segments = SegmentedLog.listSegments(partitionDir);
+        const segmentFiles = new Set(segments.map(segment => path.basename(segment.filePath, ".log")));
+        for (const name of fs.readdirSync(partitionDir)) {
+            if (name.endsWith(OffsetIndex.FILE_EXTENSION) && !segmentFiles.has(path.basename(name, OffsetIndex.FILE_EXTENSION))) {
+                const orphanPath = path.join(partitionDir, name);
+                this.report("warning", orphanPath, "Index without a segment", () => {
+                    fs.rmSync(orphanPath, { force: true });
+                    return "deleted the index";
+                });
+            }
+        }
+        if (segments.length === 0) {
+            return null;
+        }
+
+        let expected: number | undefined;
+        let lastRecord: LogRecord | null = null;
+        let recordCount = 0;
+        for (let i = 0; i < segments.length; i++) {
+            const segment = segments[i];
+            const isActive = i === segments.length - 1;
+            const content = fs.readFileSync(segment.filePath);
+            if (isLegacyTextLog(content)) {
+                this.report("warning", segment.filePath, "Pre-binary text segment, it is migrated on the next start");
+                return null;
+            }
+
+            const scan = scanRecords(content);
+            if (scan.status !== "ok") {
+                this.reportDamagedRecord(segment.filePath, content, scan, isActive);
+            }
+
+            const records = scan.records.map(({ record }) => record);
+            if (records.length > 0 && records[0].offset !== segment.baseOffset) {
+                this.report("error", segment.filePath, `First record has offset ${records[0].offset}, expected the segment's base offset ${segment.baseOffset}`);
+            }
+            if (expected !== undefined && segment.baseOffset !== expected) {
+                this.report("error", segment.filePath, `Segment starts at offset ${segment.baseOffset}, but the previous one ends at ${expected - 1}`);
+            }
+            this.checkContiguous(segment.filePath, records, segment.baseOffset);
+            const recordOffsets = new Map<number, { first: number; last: number }>();
+            for (const { record, position } of scan.records) {
+                const range = recordOffsets.get(position);
+                recordOffsets.set(position, { first: range?.first ?? record.offset, last: record.offset });
+            }
+            this.checkIndex(segment.filePath, segment.baseOffset, recordOffsets);
+
+            recordCount += records.length;
+            if (records.length > 0) {
+                lastRecord = records[records.length - 1];
+                expected = lastRecord.offset + 1;
+            } else {
+                expected = segment.baseOffset;
+            }
+        }
+
+        const logStartOffset = segments[0].baseOffset;
+        const lastOffset = lastRecord ? lastRecord.offset : segments[segments.length - 1].baseOffset - 1;
+        if (recordCount !== lastOffset - logStartOffset + 1) {
+            this.report("error", partitionDir, `Holds ${recordCount} record(s), but offsets ${logStartOffset}..${lastOffset} span ${lastOffset - logStartOffset + 1}`);
+        }
+
+        return {
+            logStartOffset,
+            lastOffset,
+            lastSourceOffset: lastRecord?.tags.sourceOffset ?? 0
+        };
+    }
+
+    // Returns the newest ingress offset routed into the topic
+    private checkTopic(topicId: TopicId, partitions: number): number {
+        const topicDir = path.join(this.dataDir, "topics", `topic_${topicId}`);
+        const metadataPath = path.join(topicDir, `${topicId}_partition_metadata.log`);
+
+        if (!fs.existsSync(topicDir)) {
+            this.report("error", topicDir, "Topic directory not found", () => {
+                fs.mkdirSync(topicDir, { recursive: true });
+                return "created the topic directory";
+            });
+        }
+
+        const metadataContent = this.readStateFile(metadataPath);
+        if (metadataContent === null && !atomicFileExists(metadataPath)) {
+            this.report("error", metadataPath, "Partition metadata file not found");
+        }
+        const lines = (metadataContent ?? "").split("\n").filter(line => line.trim());
+
+        let lastSourceOffset = 0;
+        let changed = metadataContent === null;
+        const repairedLines: string[] = [];
+        const logEndOffsets: number[] = [];
+        for (let i = 0; i < partitions; i++) {
+            const key = `${topicId}_partition_${i}`;
+            const line = lines.find(line => line.startsWith(`${key}|`));
+            const parsed = this.parseOffsetLine(line, key);
+            if (!parsed) {
+                if (metadataContent !== null) {
+                    this.report("error", metadataPath, line ? `Malformed entry: ${line}` : `No entry for partition ${i}`);
+                }
+                changed = true;
+            }
+            const offsets = parsed ?? { logEndOffset: 0, readOffset: 0 };
+
+            const summary = this.checkPartitionLog(topicDir, i);
+            if (summary) {
+                lastSourceOffset = Math.max(lastSourceOffset, summary.lastSourceOffset);
+                if (offsets.logEndOffset !== summary.lastOffset) {
+                    if (parsed) {
+                        this.report("error", metadataPath, `Partition ${i}: logEndOffset is ${offsets.logEndOffset} but the log ends at offset ${summary.lastOffset}`);
+                    }
+                    offsets.logEndOffset = summary.lastOffset;
+                    changed = true;
+                }
+                if (offsets.readOffset < summary.logStartOffset - 1) {
+                    this.report("error", metadataPath, `Partition ${i}: offsets ${offsets.readOffset + 1}..${summary.logStartOffset - 1} were never committed but are no longer in the log`);
+                }
+            }
+            if (offsets.readOffset > offsets.logEndOffset) {
+                this.report("error", metadataPath, `Partition ${i}: readOffset ${offsets.readOffset} is past logEndOffset ${offsets.logEndOffset}`);
+                offsets.readOffset = offsets.logEndOffset;
+                changed = true;
+            }
+            repairedLines.push(`${key}|${offsets.logEndOffset}|${offsets.readOffset}`);
+            logEndOffsets.push(offsets.logEndOffset);
+        }
+
+        const extraLines = lines.filter(line => !repairedLines.some(repaired => repaired.split("|")[0] === line.split("|")[0]));
+        if (extraLines.length > 0) {
+            this.report("warning", metadataPath, `Entries for partitions not in config.log: ${extraLines.join(", ")}`);
+            changed = true;
+        }
+
+        if (changed) {
+            this.rewriteStateFile(metadataPath, repairedLines.join("\n") + "\n", "rewrote it with offsets recomputed from the logs");
+        }
+
+        this.checkConsumerOffsets(topicDir, topicId, logEndOffsets);
+
+        return lastSourceOffset;
+    }
+
+    /**
+     * Check the committed offsets of the topic's consumer groups against `logEndOffsets`
+     * (indexed by partition). The file only exists once a group has consumed the topic.
+     */
+    private checkConsumerOffsets(topicDir: string, topicId: TopicId, logEndOffsets: number[]): void {
+        const offsetsPath = path.join(topicDir, `${topicId}_consumer_offsets.log`);
+        const content = this.readStateFile(offsetsPath);
+        if (content === null) {
+            return;
+        }
+
+        let changed = false;
+        const repairedLines: string[] = [];
+        for (const line of content.split("\n").filter(line => line.trim())) {
+            const [key, groupId, readOffset, ackedRanges = ""] = line.split("|");
+            const partitionId = logEndOffsets.findIndex((_, i) => key === `${topicId}_partition_${i}`);
+            if (partitionId === -1) {
+                this.report("warning", offsetsPath, `Entry for a partition not in config.log: ${line}`);
+                changed = true;
+                continue;
+            }
+            if (!groupId || !/^\d+$/.test(readOffset) || !/^(\d+(-\d+)?(,\d+(-\d+)?)*)?$/.test(ackedRanges)) {
+                this.report("error", offsetsPath, `Malformed entry: ${line}`);
+                changed = true;
+                continue;
+            }
+            if (Number(readOffset) > logEndOffsets[partitionId]) {
+                this.report("error", offsetsPath, `Partition ${partitionId}: readOffset ${readOffset} of consumer group ${groupId} is past logEndOffset ${logEndOffsets[partitionId]}`);
+                // Acknowledged offsets are all past readOffset, so none of them exist either
+                repairedLines.push(`${key}|${groupId}|${logEndOffsets[partitionId]}|`);
+                changed = true;
+                continue;
+            }
+            repairedLines.push(line);
+        }
+
+        if (changed) {
+            this.rewriteStateFile(offsetsPath, repairedLines.join("\n") + "\n", "rewrote it without invalid entries, clamping offsets to the logs");
+        }
+    }
+
+    // Public methods
+
+    /**
+     * Check the whole data directory (repairing where possible if enabled) and return the issues found.
+     */
+    run(): FsckIssue[] {
+        if (!fs.existsSync(this.dataDir)) {
+            this.report("error", this.dataDir, "Data directory not found");
+            return this.issues;
+        }
+
+        const topics = this.readConfigLog();
+        const ingressEndOffset = this.checkIngress();
+        this.checkScheduled();
+        if (!topics) {
+            return this.issues;
+        }
+
+        this.checkTPCLog(topics);
+
+        let lastSourceOffset = 0;
+        for (const [topicId, partitions] of topics) {
+            lastSourceOffset = Math.max(lastSourceOffset, this.checkTopic(topicId, partitions));
+        }
+
+        if (ingressEndOffset !== null && lastSourceOffset > ingressEndOffset) {
+            this.report("warning", path.join(this.dataDir, "ingress.log"), `Partitions hold ingress offsets up to ${lastSourceOffset}, past the end of the ingress log (${ingressEndOffset}); the broker fast-forwards on the next start`);
+        }
+
+        return this.issues;
+    }
+
+    // Issues that are still errors after repair
+    getUnresolvedErrors(): FsckIssue[] {
+        return this.issues.filter(issue => issue.severity === "error" && !issue.repair);
+    }
+
+    printReport(): void {
+        console.log(`[Fsck] Checked ${path.resolve(this.dataDir)}${this.repair ? " (repair mode)" : ""}`);
+        for (const issue of this.issues) {
+            const repair = issue.repair ? ` -> repaired: ${issue.repair}` : "";
+            console.log(`[${issue.severity.toUpperCase()}] ${issue.location}: ${issue.message}${repair}`);
+        }
+
+        const errors = this.issues.filter(issue => issue.severity === "error").length;
+        const warnings = this.issues.length - errors;
+        const repaired = this.issues.filter(issue => issue.repair).length;
+        console.log(`[Fsck] ${errors} error(s), ${warnings} warning(s), ${repaired} repaired, ${this.getUnresolvedErrors().length} unresolved`);
+        if (!this.repair && this.issues.some(issue => issue.severity === "error")) {
+            console.log("[Fsck] Run with --repair to fix what can be fixed automatically");
+        }
+    }
+}
+
+export default Fsck;
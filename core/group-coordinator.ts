@@ -0,0 +1,375 @@
+import ERROR_CODES from "./shared/error-codes.js";
+import { ConsumerAssignment, ConsumerId, GroupId, PartitionId, Response, TopicId } from "./shared/types.js";
+import Topic from "./topic.js";
+import { internalTPCMap } from "./main.js";
+import { writeTPCLog } from "./shared/tpc-helper.js";
+
+// A consumer group of one topic
+type Group = {
+    topicId: TopicId;
+    groupId: GroupId;
+    generation: number;
+    // When each member was last heard from
+    members: Map<ConsumerId, number>;
+    // Owner of each partition once the latest rebalance has completed
+    target: Map<PartitionId, ConsumerId>;
+    // Until when members may hold on to partitions the latest rebalance moved away from them
+    revokeDeadline: number;
+};
+
+/**
+ * GroupCoordinator
+ *
+ * Tracks the members of each consumer group and divides the topic's partitions among them
+ * with the topic's assignment strategy (see `Assignor`). The current owner of each partition
+ * is kept in the TPC map and `TPC.log`.
+ *
+ * A consumer joins a group with `join` and stays a member while it checks in (`heartbeat`)
+ * at least every `sessionTimeoutMs`, or until it leaves (`leave`). Every consumer that joins
+ * or leaves, and every member whose session runs out, starts a rebalance: a new generation with a new target assignment. Partitions
+ * without a live owner move to their new owner right away. A member keeps a partition that
+ * moved away from it until it releases it (heartbeats tell it which ones it is losing, so it
+ * can commit first), or for at most `sessionTimeoutMs`. So no two consumers of a group ever
+ * own the same partition.
+ */
+class GroupCoordinator {
+    private readonly topics: Map<TopicId, Topic>;
+    private readonly sessionTimeoutMs: number;
+    private readonly groups: Map<string, Group>;
+
+    constructor(topics: Map<TopicId, Topic>, sessionTimeoutMs: number, now: number = Date.now()) {
+        this.topics = topics;
+        this.sessionTimeoutMs = sessionTimeoutMs;
+        this.groups = new Map<string, Group>();
+        this.restoreGroups(now);
+    }
+
+    // Private methods
+    private static groupKey(topicId: TopicId, groupId: GroupId): string {
+        return `${topicId}|${groupId}`;
+    }
+
+    // Owners restored from TPC.log are members with a full session to check in
+    private restoreGroups(now: number): void {
+        for (const [topicId, partitionMap] of internalTPCMap) {
+            for (const [, groupMap] of partitionMap) {
+                for (const [groupId, consumerId] of groupMap) {
+                    this.getOrAddGroup(topicId, groupId).members.set(consumerId, now);
+                }
+            }
+        }
+        let changed = false;
+        for (const [, group] of this.groups) {
+            changed = this.rebalance(group, now) || changed;
+        }
+        if (changed) {
+            writeTPCLog(internalTPCMap);
+        }
+    }
+
+    private getOrAddGroup(topicId: TopicId, groupId: GroupId): Group {
+        const key = GroupCoordinator.groupKey(topicId, groupId);
+        let group = this.groups.get(key);
+        if (!group) {
+            group = { topicId, groupId, generation: 0, members: new Map(), target: new Map(), revokeDeadline: 0 };
+            this.groups.set(key, group);
+        }
+        return group;
+    }
+
+    private getOwners(group: Group): Map<PartitionId, ConsumerId> {
+        const owners = new Map<PartitionId, ConsumerId>();
+        for (const [partitionId, groupMap] of internalTPCMap.get(group.topicId) ?? []) {
+            const owner = groupMap.get(group.groupId);
+            if (owner) {
+                owners.set(partitionId, owner);
+            }
+        }
+        return owners;
+    }
+
+    private setOwner(group: Group, partitionId: PartitionId, consumerId: ConsumerId | undefined): void {
+        const groupMap = internalTPCMap.get(group.topicId)?.get(partitionId);
+        if (consumerId === undefined) {
+            groupMap?.delete(group.groupId);
+        } else {
+            groupMap?.set(group.groupId, consumerId);
+        }
+    }
+
+    // Start a new generation. Returns whether any partition changed owner.
+    private rebalance(group: Group, now: number): boolean {
+        const topic = this.topics.get(group.topicId);
+        if (!topic) {
+            return false;
+        }
+        group.generation++;
+        group.target = topic.balancePartitions([...group.members.keys()], this.getOwners(group));
+        group.revokeDeadline = now + this.sessionTimeoutMs;
+
+        const summary = [...group.members.keys()].sort()
+            .map(consumerId => `${consumerId}: [${[...group.target].filter(([, owner]) => owner === consumerId).map(([partitionId]) => partitionId).join(",")}]`)
+            .join(", ");
+        console.log(`[GroupCoordinator] Group ${group.groupId} of topic ${group.topicId} rebalanced (generation ${group.generation}) - ${summary || "no members"}`);
+
+        return this.moveFreePartitions(group, now);
+    }
+
+    /**
+     * Hand every partition to its target owner, except those a member still owns and hasn't
+     * released while the revoke deadline hasn't passed. Returns whether any owner changed.
+     */
+    private moveFreePartitions(group: Group, now: number): boolean {
+        let changed = false;
+        for (const [partitionId, groupMap] of internalTPCMap.get(group.topicId) ?? []) {
+            const owner = groupMap.get(group.groupId);
+            const target = group.target.get(partitionId);
+            if (owner === target) {
+                continue;
+            }
+            if (owner !== undefined && group.members.has(owner)) {
+                if (now < group.revokeDeadline) {
+                    continue;
+                }
+                console.log(`[GroupCoordinator] Consumer ${owner} didn't release partition ${partitionId} of topic ${group.topicId} in time (group ${group.groupId})`);
+            }
+            this.setOwner(group, partitionId, target);
+            changed = true;
+        }
+        return changed;
+    }
+
+    private getAssignment(group: Group, consumerId: ConsumerId): ConsumerAssignment {
+        const partitionIds = [...this.getOwners(group)]
+            .filter(([, owner]) => owner === consumerId)
+            .map(([partitionId]) => partitionId)
+            .sort((a, b) => a - b);
+        return {
+            generation: group.generation,
+            partitionIds,
+            revokingPartitionIds: partitionIds.filter(partitionId => group.target.get(partitionId) !== consumerId)
+        };
+    }
+
+    // Public methods
+
+    /**
+     * Add `consumerId` to `groupId` (a no-op apart from the heartbeat for a member), which
+     * rebalances the group. The returned assignment holds the partitions the consumer owns
+     * right away; the ones other members still have to release follow in later heartbeats.
+     */
+    join(topicId: TopicId, groupId: GroupId, consumerId: ConsumerId, now: number = Date.now()): Response<ConsumerAssignment> {
+        const topic = this.topics.get(topicId);
+        if (!topic || !internalTPCMap.has(topicId)) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.TOPIC_NOT_FOUND,
+                error: new Error(`Topic ${topicId} not found in TPC Map`)
+            };
+        }
+
+        // A new group starts reading from the oldest retained message
+        topic.registerGroup(groupId);
+
+        const group = this.getOrAddGroup(topicId, groupId);
+        const isNewMember = !group.members.has(consumerId);
+        group.members.set(consumerId, now);
+        if (isNewMember) {
+            console.log(`[GroupCoordinator] Consumer ${consumerId} joined group ${groupId} of topic ${topicId}`);
+        }
+
+        const changed = isNewMember ? this.rebalance(group, now) : this.moveFreePartitions(group, now);
+        if (changed) {
+            // Persist TPC Map to TPC.log
+            writeTPCLog(internalTPCMap);
+        }
+
+        return {
+            success: true,
+            data: this.getAssignment(group, consumerId)
+        };
+    }
+
+    /**
+     * Keep the session of `consumerId` alive for another `sessionTimeoutMs` and hand the
+     * partitions it lists in `releasedPartitionIds` (ones it was told it is losing) to their
+     * new owners. Fails with `CONSUMER_NOT_REGISTERED` once the consumer is no longer a member:
+     * it has to join again.
+     */
+    heartbeat(topicId: TopicId, groupId: GroupId, consumerId: ConsumerId, releasedPartitionIds: PartitionId[] = [], now: number = Date.now()): Response<ConsumerAssignment & { expiresAt: number }> {
+        if (!internalTPCMap.has(topicId)) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.TOPIC_NOT_FOUND,
+                error: new Error(`Topic ${topicId} not found in TPC Map`)
+            };
+        }
+        const group = this.groups.get(GroupCoordinator.groupKey(topicId, groupId));
+        if (!group || !group.members.has(consumerId)) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.CONSUMER_NOT_REGISTERED,
+                error: new Error(`Consumer ${consumerId} is not a member of group ${groupId} of topic ${topicId}`)
+            };
+        }
+        group.members.set(consumerId, now);
+        // A group whose consumers are alive is kept, even while there is nothing to consume
+        this.topics.get(topicId)?.registerGroup(groupId);
+
+        let changed = false;
+        const owners = this.getOwners(group);
+        for (const partitionId of releasedPartitionIds) {
+            const target = group.target.get(partitionId);
+            if (owners.get(partitionId) === consumerId && target !== consumerId) {
+                this.setOwner(group, partitionId, target);
+                changed = true;
+                console.log(`[GroupCoordinator] Consumer ${consumerId} released partition ${partitionId} of topic ${topicId} (group ${groupId})`);
+            }
+        }
+        if (changed) {
+            // Persist TPC Map to TPC.log
+            writeTPCLog(internalTPCMap);
+        }
+
+        return {
+            success: true,
+            data: {
+                ...this.getAssignment(group, consumerId),
+                expiresAt: now + this.sessionTimeoutMs
+            }
+        };
+    }
+
+    /**
+     * Remove `consumerId` from `groupId` right away, instead of waiting for its session to time
+     * out. Its partitions are released (their entries in the TPC map cleared) and the group is
+     * rebalanced, so they move to the remaining members. Returns the released partitions.
+     */
+    leave(topicId: TopicId, groupId: GroupId, consumerId: ConsumerId, now: number = Date.now()): Response<{ releasedPartitionIds: PartitionId[] }> {
+        if (!internalTPCMap.has(topicId)) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.TOPIC_NOT_FOUND,
+                error: new Error(`Topic ${topicId} not found in TPC Map`)
+            };
+        }
+        const group = this.groups.get(GroupCoordinator.groupKey(topicId, groupId));
+        if (!group || !group.members.has(consumerId)) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.CONSUMER_NOT_REGISTERED,
+                error: new Error(`Consumer ${consumerId} is not a member of group ${groupId} of topic ${topicId}`)
+            };
+        }
+
+        group.members.delete(consumerId);
+        const releasedPartitionIds = this.getAssignment(group, consumerId).partitionIds;
+        for (const partitionId of releasedPartitionIds) {
+            this.setOwner(group, partitionId, undefined);
+        }
+        console.log(`[GroupCoordinator] Consumer ${consumerId} left group ${groupId} of topic ${topicId}, releasing partitions [${releasedPartitionIds.join(",")}]`);
+
+        const changed = this.rebalance(group, now);
+        if (changed || releasedPartitionIds.length > 0) {
+            // Persist TPC Map to TPC.log
+            writeTPCLog(internalTPCMap);
+        }
+
+        return {
+            success: true,
+            data: { releasedPartitionIds }
+        };
+    }
+
+    /**
+     * Remove members that haven't been heard from for `sessionTimeoutMs`, rebalancing their
+     * groups, and take partitions away from members that didn't release them in time.
+     * Called every broker cycle.
+     */
+    expireSessions(now: number): void {
+        let changed = false;
+        for (const [, group] of this.groups) {
+            let expired = false;
+            for (const [consumerId, lastHeartbeat] of group.members) {
+                if (now - lastHeartbeat > this.sessionTimeoutMs) {
+                    group.members.delete(consumerId);
+                    expired = true;
+                    console.log(`[GroupCoordinator] Session of consumer ${consumerId} (group ${group.groupId} of topic ${group.topicId}) timed out`);
+                }
+            }
+            if (expired) {
+                changed = this.rebalance(group, now) || changed;
+            } else if (now >= group.revokeDeadline) {
+                changed = this.moveFreePartitions(group, now) || changed;
+            }
+        }
+        if (changed) {
+            // Persist TPC Map to TPC.log
+            writeTPCLog(internalTPCMap);
+        }
+    }
+
+    /**
+     * Check that `consumerId` may consume `partitionId` for `groupId`. A partition with an owner
+     * in the group is that consumer's alone, and a partition moved away from it only until the
+     * revoke deadline. A group no consumer registered with owns nothing, so anyone may consume
+     * for it.
+     */
+    checkOwnership(topicId: TopicId, groupId: GroupId, consumerId: ConsumerId, partitionId: PartitionId, now: number = Date.now()): Response<void> {
+        const owner = internalTPCMap.get(topicId)?.get(partitionId)?.get(groupId);
+        if (owner === undefined) {
+            return { success: true, data: undefined };
+        }
+        if (owner !== consumerId) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.PARTITION_NOT_OWNED,
+                error: new Error(`Partition ${partitionId} of topic ${topicId} is owned by consumer ${owner} of group ${groupId}`)
+            };
+        }
+        const group = this.groups.get(GroupCoordinator.groupKey(topicId, groupId));
+        if (group && group.target.get(partitionId) !== consumerId && now >= group.revokeDeadline) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.PARTITION_NOT_OWNED,
+                error: new Error(`Consumer ${consumerId} had to release partition ${partitionId} of topic ${topicId} (group ${groupId}) by ${new Date(group.revokeDeadline).toISOString()}`)
+            };
+        }
+        return { success: true, data: undefined };
+    }
+
+    // Partitions of the topic `consumerId` currently owns in `groupId` (none for a non-member)
+    getOwnedPartitionIds(topicId: TopicId, groupId: GroupId, consumerId: ConsumerId): PartitionId[] {
+        const group = this.groups.get(GroupCoordinator.groupKey(topicId, groupId));
+        if (!group || !group.members.has(consumerId)) {
+            return [];
+        }
+        return this.getAssignment(group, consumerId).partitionIds;
+    }
+
+    getSessionTimeoutMs(): number {
+        return this.sessionTimeoutMs;
+    }
+
+    getStats(): { sessionTimeoutMs: number; consumers: any[] } {
+        const consumers: any[] = [];
+        for (const [, group] of this.groups) {
+            for (const [consumerId, lastHeartbeat] of group.members) {
+                consumers.push({
+                    topicId: group.topicId,
+                    groupId: group.groupId,
+                    consumerId,
+                    ...this.getAssignment(group, consumerId),
+                    lastHeartbeat: new Date(lastHeartbeat).toISOString(),
+                    expiresAt: new Date(lastHeartbeat + this.sessionTimeoutMs).toISOString()
+                });
+            }
+        }
+        return {
+            sessionTimeoutMs: this.sessionTimeoutMs,
+            consumers
+        };
+    }
+}
+
+export default GroupCoordinator;
@@ -2,13 +2,23 @@ import Queue from "./shared/queue.js";
 import ERROR_CODES from "./shared/error-codes.js";
 import LogFileHandler from "./shared/log-file-handler.js";
 import { ensureFileExists } from "./shared/utils.js";
-import { Message, FilePath, TopicId, LOG_FILE_TYPE, Response } from "./shared/types.js";
+import { findIncompleteTransaction, RecordTags, recordToMessage, scanRecords } from "./shared/record-codec.js";
+import DedupWindow from "./shared/dedup-window.js";
+import { readAtomicFile, writeAtomicFile } from "./shared/atomic-file.js";
+import { Message, FilePath, TopicId, LOG_FILE_TYPE, Response, Acks, Compression, DedupConfig, OffsetCommit } from "./shared/types.js";
 import fs from "fs";
+import { randomUUID } from "node:crypto";
 import dotenv from "dotenv"
 import getEnv from "./shared/env-config.js";
-import { promises as fsPromises } from "fs";
 dotenv.config();
 
+type OpenTransaction = {
+    messages: Message[];
+    // Control records of the input offsets to commit, one per topic partition
+    offsetCommits: Map<string, Message>;
+    lastActivity: number;
+};
+
 /**
  * Ingress Buffer
  * 
@@ -25,6 +35,38 @@ dotenv.config();
  * 
  * **NOTE**: `logEndOffset < readOffset` is an invalid state.
  * 
+ * Writes are staged and flushed in batches. `push` resolves according to the requested
+ * `acks` level: immediately (`none`), once its batch is appended to `ingress.log` (`leader`),
+ * or once its batch is appended and fsync'd (`fsync`). A batch is fsync'd once if any of
+ * its messages asked for it (group commit). A batch is flushed on the next tick once a
+ * producer waits for it, and after FLUSH_INTERVAL_MS otherwise. Staged writes get their
+ * offsets right away, but only reach the in-memory buffer (and the broker loop) once their
+ * batch is in the log. A failed append fails the batch and every write staged behind it,
+ * and their offsets are handed out again.
+ * 
+ * Idempotent producers tag each message with a `producerId`. A message whose
+ * `(producerId, messageId)` is still in the dedup window is not appended again; it is
+ * acknowledged with the original offset once the original reached the requested `acks`
+ * level. The producer id is stored with each ingress record, and the ingress log keeps
+ * every record the window still remembers, so the window is rebuilt from the log on boot.
+ * 
+ * Transactions are staged in memory until they are committed, so messages of open or
+ * aborted transactions never reach `ingress.log` (and never reach a partition). A commit
+ * appends all of the transaction's messages together, tagged with the transaction id, with
+ * the last one marked as its end. On boot, a transaction whose end record is missing (a
+ * crash tore the append) is truncated from the log. `batchExtract` never splits a committed
+ * transaction, so the broker routes all of it in the same cycle.
+ * 
+ * A transaction can also commit input offsets (consume-transform-produce). Each one is
+ * appended with the transaction's messages as a control record (tag `offsetCommit`), and the
+ * broker applies it to its partition once the messages before it are routed. Output and
+ * input commit are in the log together or not at all, and applying a commit again after a
+ * crash is a no-op, so each input message produces its output exactly once.
+ * 
+ * Delayed messages are held by the `Scheduler` and pushed here once due, tagged with their
+ * schedule id. The ids found in the log on boot tell the scheduler which releases landed
+ * before a crash.
+ * 
  */
 class IngressBuffer {
     public buffer: Queue<Message>;
@@ -34,16 +76,38 @@ class IngressBuffer {
     logEndOffset: number = 0;
     readOffset: number = 0;
     private readonly logHandler: LogFileHandler;
+    // Codec of each topic; a flushed batch is compressed per run of same-codec messages
+    private readonly compressionByTopic: Map<TopicId, Compression>;
+    private readonly dedupWindow: DedupWindow;
+
+    // Transactions
+    private static readonly TRANSACTION_TIMEOUT_MS: number = 60_000;
+    private static readonly MAX_TRANSACTION_MESSAGES: number = 10_000;
+    private readonly openTransactions: Map<string, OpenTransaction> = new Map();
+    // Offset ranges of committed transactions not yet fully routed, in offset order
+    private committedTransactions: { firstOffset: number; lastOffset: number }[] = [];
+    // Schedule ids of the released delayed messages found in the log on boot
+    private readonly recoveredScheduleIds: Set<number> = new Set();
+    // Messages routed to each topic up to `readOffset`: the position of the topic's next
+    // message for its partitioner. Stored with `readOffset`, so a re-routed batch is placed
+    // exactly as it was before a crash.
+    private routedCounts: Map<TopicId, number> = new Map();
 
     // Batched write staging
     private static readonly BATCH_SIZE: number = 1000;
     private static readonly FLUSH_INTERVAL_MS: number = 200;
-    private pendingWrites: { message: Message; offset: number }[] = [];
+    private pendingWrites: { message: Message; offset: number; acks: Acks; tags: RecordTags; onFlushed: (result: Response<boolean>) => void }[] = [];
+    // Offset of the last staged (not necessarily flushed) message
+    private stagedEndOffset: number = 0;
     private flushTimer: ReturnType<typeof setTimeout> | null = null;
+    // Whether the pending flush runs on the next tick (a producer is waiting for it)
+    private flushIsUrgent: boolean = false;
     private isFlushing: boolean = false;
 
-    constructor() {
+    constructor(compressionByTopic: Map<TopicId, Compression>, dedupConfig: DedupConfig) {
         console.log("[IngressBuffer] Initializing IngressBuffer...");
+        this.compressionByTopic = compressionByTopic;
+        this.dedupWindow = new DedupWindow(dedupConfig);
         const logFileValidation = ensureFileExists(IngressBuffer.logFilePath);
         if (!logFileValidation.isValid) {
             console.error("Failed to initialize log file:", logFileValidation.error);
@@ -65,9 +129,10 @@ class IngressBuffer {
             process.exit(1);
         }
 
-        const { logEndOffset, readOffset } = valuesFromMetadata.data;
+        const { logEndOffset, readOffset, routedCounts } = valuesFromMetadata.data;
         this.logEndOffset = logEndOffset;
         this.readOffset = readOffset;
+        this.routedCounts = routedCounts;
         console.log(`[IngressBuffer] Ingress metadata loaded - logEndOffset: ${logEndOffset}, readOffset: ${readOffset}`);
         if (this.logEndOffset < this.readOffset) {
             console.error("Invalid offset state detected. Log end offset is less than read offset.");
@@ -76,6 +141,12 @@ class IngressBuffer {
 
         this.buffer = new Queue<Message>();
 
+        const migrationResult = LogFileHandler.migrateLegacyTextLog(IngressBuffer.logFilePath, LOG_FILE_TYPE.INGRESS_BUFFER);
+        if (!migrationResult.success) {
+            console.error("Failed to migrate ingress log:", migrationResult.errorCode, migrationResult.error);
+            process.exit(1);
+        }
+
         this.logHandler = new LogFileHandler({
             label: LOG_FILE_TYPE.INGRESS_BUFFER,
             filePath: IngressBuffer.logFilePath
@@ -87,23 +158,61 @@ class IngressBuffer {
             console.error("Error building ingress buffer from log file:", buildResult.errorCode, buildResult.error);
             process.exit(1);
         }
-        console.log(`[IngressBuffer] IngressBuffer initialized successfully with ${this.buffer.size()} message(s)`);
+        this.stagedEndOffset = this.logEndOffset;
+        console.log(`[IngressBuffer] IngressBuffer initialized successfully with ${this.buffer.size()} message(s), ${this.dedupWindow.size()} producer write(s) in the dedup window`);
     }
 
     // Private methods
     private buildBufferFromLogFile(): Response<boolean> {
         try {
             console.log("Building ingress buffer from log file...");
-            const logFileContent = fs.readFileSync(IngressBuffer.logFilePath, 'utf-8');
-            const logs = logFileContent.split("\n").slice(this.readOffset).filter(log => !!log);
-
-            for (const log of logs) {
-                const [brokerId, offset, topicId, messageId, content] = log.split("|");
-                this.buffer.enqueue({
-                    topicId,
-                    messageId,
-                    content
-                });
+
+            // Validates every record and truncates a torn/corrupt tail left by a crash
+            const recoveryResult = LogFileHandler.recover(IngressBuffer.logFilePath);
+            if (!recoveryResult.success) {
+                return recoveryResult;
+            }
+            let { records } = recoveryResult.data;
+
+            // A transaction without its end record was torn by a crash and never acknowledged
+            const incompleteFrom = findIncompleteTransaction(records);
+            if (incompleteFrom !== -1) {
+                console.log(`[IngressBuffer] Truncating incomplete transaction ${records[incompleteFrom].record.tags.transactionId} (${records.length - incompleteFrom} record(s)) from ingress log`);
+                fs.truncateSync(IngressBuffer.logFilePath, records[incompleteFrom].position);
+                records = records.slice(0, incompleteFrom);
+            }
+
+            // The log is the source of truth for the end offset (a crash can land between the
+            // append and the metadata update)
+            if (records.length > 0) {
+                const lastOffset = records[records.length - 1].record.offset;
+                if (lastOffset !== this.logEndOffset) {
+                    console.log(`[IngressBuffer] logEndOffset reconciled from ${this.logEndOffset} to ${lastOffset}`);
+                    this.updateLogEndOffset(lastOffset);
+                }
+            }
+
+            // Select by the offset recorded in each entry rather than by position,
+            // since the committed head of the file may have been trimmed by retention
+            let transactionStart: number | null = null;
+            for (const { record } of records) {
+                if (record.tags.scheduleId !== undefined) {
+                    this.recoveredScheduleIds.add(record.tags.scheduleId);
+                }
+                if (record.tags.producerId !== undefined) {
+                    this.dedupWindow.record(record.tags.producerId, record.messageId, { offset: record.offset, timestamp: record.timestamp });
+                }
+                if (record.offset <= this.readOffset) {
+                    continue;
+                }
+                this.buffer.enqueue(recordToMessage(record));
+                if (record.tags.transactionId !== undefined) {
+                    transactionStart ??= record.offset;
+                    if (record.tags.transactionEnd) {
+                        this.committedTransactions.push({ firstOffset: transactionStart, lastOffset: record.offset });
+                        transactionStart = null;
+                    }
+                }
             }
 
             return {
@@ -119,18 +228,20 @@ class IngressBuffer {
         }
     }
 
-    private extractDataFromMetadata(): Response<{ logEndOffset: number; readOffset: number }> {
+    // The ingress entry comes first, followed by a `topic|topicId|routedCount` entry per topic
+    private extractDataFromMetadata(): Response<{ logEndOffset: number; readOffset: number; routedCounts: Map<TopicId, number> }> {
         try {
-            const metadataContent = fs.readFileSync(IngressBuffer.metadataFilePath, 'utf-8');
+            const metadataContent = readAtomicFile(IngressBuffer.metadataFilePath)?.content ?? "";
             const lines = metadataContent.split("\n").filter(line => !!line.trim());
 
             if (lines.length === 0) {
-                fs.appendFileSync(IngressBuffer.metadataFilePath, "ingress|0|0\n");
+                this.writeMetadata();
                 return {
                     success: true,
                     data: {
                         logEndOffset: 0,
-                        readOffset: 0
+                        readOffset: 0,
+                        routedCounts: new Map()
                     }
                 };
             }
@@ -152,12 +263,26 @@ class IngressBuffer {
                 };
             }
 
+            const routedCounts = new Map<TopicId, number>();
+            for (const line of lines.slice(1)) {
+                const [key, topicId, routedCount] = line.split("|");
+                if (key !== "topic" || !topicId || !Number.isInteger(Number(routedCount))) {
+                    return {
+                        success: false,
+                        errorCode: ERROR_CODES.INVALID_FILE_PATH,
+                        error: new Error(`Malformed metadata file: invalid topic entry '${line}'`)
+                    };
+                }
+                routedCounts.set(topicId, Number(routedCount));
+            }
+
             const [_, logEndOffset, readOffset] = firstLine.split("|");
             return {
                 success: true,
                 data: {
                     logEndOffset: Number(logEndOffset),
-                    readOffset: Number(readOffset)
+                    readOffset: Number(readOffset),
+                    routedCounts
                 }
             };
         } catch (error) {
@@ -169,6 +294,11 @@ class IngressBuffer {
         }
     }
 
+    private writeMetadata(): void {
+        const topicEntries = [...this.routedCounts].map(([topicId, routedCount]) => `topic|${topicId}|${routedCount}\n`);
+        writeAtomicFile(IngressBuffer.metadataFilePath, `ingress|${this.logEndOffset}|${this.readOffset}\n${topicEntries.join("")}`);
+    }
+
     private updateReadOffset(finalOffset?: number): Response<boolean> {
         try {
             if (finalOffset !== undefined) {
@@ -176,7 +306,7 @@ class IngressBuffer {
             } else {
                 this.readOffset += 1;
             }
-            fs.writeFileSync(IngressBuffer.metadataFilePath, `ingress|${this.logEndOffset}|${this.readOffset}\n`);
+            this.writeMetadata();
             return {
                 success: true,
                 data: true
@@ -197,7 +327,7 @@ class IngressBuffer {
             } else {
                 this.logEndOffset += 1;
             }
-            fs.writeFileSync(IngressBuffer.metadataFilePath, `ingress|${this.logEndOffset}|${this.readOffset}\n`);
+            this.writeMetadata();
             return {
                 success: true,
                 data: true
@@ -226,55 +356,163 @@ class IngressBuffer {
         if (this.flushTimer) {
             clearTimeout(this.flushTimer);
             this.flushTimer = null;
+            this.flushIsUrgent = false;
         }
 
         // Grab the current batch and reset
         const batch = this.pendingWrites;
         this.pendingWrites = [];
 
+        let result: Response<boolean>;
+        let appended = false;
         try {
-            // Build a single string for all log entries
-            let logData = '';
-            for (const entry of batch) {
-                const stringifiedContent = typeof entry.message.content === 'string'
-                    ? entry.message.content
-                    : JSON.stringify(entry.message.content);
-                logData += [getEnv().BROKER_ID, entry.offset, entry.message.topicId, entry.message.messageId, stringifiedContent].join('|') + '\n';
+            // Single disk write (and at most one fsync) for the entire batch
+            const sync = batch.some(entry => entry.acks === "fsync");
+            const appendResult = await this.logHandler.appendEntries(batch, sync, message => this.compressionByTopic.get(message.topicId) ?? "none");
+            if (!appendResult.success) {
+                result = appendResult;
+            } else {
+                appended = true;
+                // Only messages that are in the log are handed to the broker loop
+                for (const entry of batch) {
+                    this.buffer.enqueue(entry.message);
+                }
+                // Single metadata update for the final offset
+                const finalOffset = batch[batch.length - 1].offset;
+                this.logEndOffset = finalOffset;
+                this.writeMetadata();
+                result = { success: true, data: true };
             }
+        } catch (error) {
+            result = {
+                success: false,
+                errorCode: ERROR_CODES.LOG_FILE_APPEND_FAILED,
+                error: error
+            };
+        }
 
-            // Single disk write for the entire batch
-            await fsPromises.appendFile(IngressBuffer.logFilePath, logData, 'utf-8');
+        this.isFlushing = false;
+        if (!appended) {
+            // The writes staged meanwhile were given the offsets after the batch's, so they
+            // fail with it and every offset past the log is handed out again
+            const failed = [...batch, ...this.pendingWrites];
+            this.pendingWrites = [];
+            this.releaseStagedOffsets(failed);
+            console.error(`[IngressBuffer] Failed to append ${failed.length} staged message(s), offsets from ${this.logEndOffset + 1} are released:`, result.success ? undefined : result.errorCode);
+            for (const entry of failed) {
+                entry.onFlushed(result);
+            }
+            return result;
+        }
+        for (const entry of batch) {
+            entry.onFlushed(result);
+        }
 
-            // Single metadata update for the final offset
-            const finalOffset = batch[batch.length - 1].offset;
-            this.logEndOffset = finalOffset;
-            fs.writeFileSync(IngressBuffer.metadataFilePath, `ingress|${this.logEndOffset}|${this.readOffset}\n`);
+        // Writes staged while this batch was in flight still need a flush
+        if (this.pendingWrites.length > 0) {
+            this.scheduleFlush(this.pendingWrites.some(entry => entry.acks !== "none"));
+        }
+        return result;
+    }
 
-            this.isFlushing = false;
-            return { success: true, data: true };
-        } catch (error) {
-            this.isFlushing = false;
+    // Forget the writes of a failed flush: staging restarts at the end of the log
+    private releaseStagedOffsets(failed: { message: Message; tags: RecordTags }[]): void {
+        this.stagedEndOffset = this.logEndOffset;
+        this.committedTransactions = this.committedTransactions.filter(({ lastOffset }) => lastOffset <= this.logEndOffset);
+        for (const { message, tags } of failed) {
+            if (tags.producerId !== undefined) {
+                this.dedupWindow.forget(tags.producerId, message.messageId);
+            }
+        }
+    }
+
+    // A retry is acknowledged once the original write reached the requested level
+    private async acknowledgeDuplicate(
+        message: Message,
+        producerId: string,
+        original: { offset: number; flushed?: Promise<Response<boolean>> },
+        acks: Acks
+    ): Promise<Response<{ offset: number; acks: Acks; duplicate: boolean }>> {
+        console.log(`[IngressBuffer] Duplicate message ${message.messageId} from producer ${producerId}, acknowledging original offset ${original.offset}`);
+        if (acks !== "none") {
+            const flushResult = await original.flushed;
+            if (flushResult && !flushResult.success) {
+                return flushResult;
+            }
+            // The original may have been written with a weaker acks level
+            if (acks === "fsync") {
+                const syncResult = await this.logHandler.sync();
+                if (!syncResult.success) {
+                    return syncResult;
+                }
+            }
+        }
+        return {
+            success: true,
+            data: { offset: original.offset, acks, duplicate: true }
+        };
+    }
+
+    // Abort transactions that haven't been touched within TRANSACTION_TIMEOUT_MS
+    private expireTransactions(now: number = Date.now()): void {
+        for (const [transactionId, transaction] of this.openTransactions) {
+            if (now - transaction.lastActivity > IngressBuffer.TRANSACTION_TIMEOUT_MS) {
+                console.log(`[IngressBuffer] Transaction ${transactionId} timed out, aborting ${transaction.messages.length} message(s)`);
+                this.openTransactions.delete(transactionId);
+            }
+        }
+    }
+
+    private getOpenTransaction(transactionId: string): Response<OpenTransaction> {
+        this.expireTransactions();
+        const transaction = this.openTransactions.get(transactionId);
+        if (!transaction) {
             return {
                 success: false,
-                errorCode: ERROR_CODES.LOG_FILE_APPEND_FAILED,
-                error: error
+                errorCode: ERROR_CODES.TRANSACTION_NOT_FOUND,
+                error: new Error(`Transaction ${transactionId} not found (it may have been committed, aborted or timed out)`)
             };
         }
+        transaction.lastActivity = Date.now();
+        return {
+            success: true,
+            data: transaction
+        };
     }
 
-    // Schedule a flush after FLUSH_INTERVAL_MS if one isn't already pending.
-    private scheduleFlush(): void {
-        if (!this.flushTimer) {
-            this.flushTimer = setTimeout(() => {
-                this.flushTimer = null;
-                this.flushPendingWrites();
-            }, IngressBuffer.FLUSH_INTERVAL_MS);
+    // Schedule a flush if one isn't already pending: after FLUSH_INTERVAL_MS, or on the next
+    // tick when `urgent` (a producer is waiting for its acknowledgement). Writes staged in the
+    // same tick still share the flush.
+    private scheduleFlush(urgent: boolean = false): void {
+        if (this.flushTimer && (this.flushIsUrgent || !urgent)) {
+            return;
+        }
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
         }
+        this.flushIsUrgent = urgent;
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            this.flushIsUrgent = false;
+            this.flushPendingWrites();
+        }, urgent ? 0 : IngressBuffer.FLUSH_INTERVAL_MS);
     }
 
-    async push(message: Message): Promise<Response<boolean>> {
+    // `producerId` enables deduplication of retries (see the class comment).
+    // `scheduleId` is set by the `Scheduler` when it releases a delayed message.
+    async push(message: Message, acks: Acks, producerId?: string, scheduleId?: number): Promise<Response<{ offset: number; acks: Acks; duplicate: boolean }>> {
         try {
-            if (this.buffer.size() >= this.maxLength) {
+            // The acceptance time is kept with the message all the way to its partition (for TTLs)
+            message = message.timestamp === undefined ? { ...message, timestamp: Date.now() } : message;
+
+            if (producerId !== undefined) {
+                const original = this.dedupWindow.lookup(producerId, message.messageId);
+                if (original) {
+                    return this.acknowledgeDuplicate(message, producerId, original, acks);
+                }
+            }
+
+            if (this.buffer.size() + this.pendingWrites.length >= this.maxLength) {
                 console.log(`[IngressBuffer] Ingress buffer full (${this.buffer.size()}/${this.maxLength})`);
                 return {
                     success: false,
@@ -284,25 +522,38 @@ class IngressBuffer {
             }
 
             // Stage the write — compute the offset eagerly so ordering is preserved
-            const newLogEndOffset = this.logEndOffset + this.pendingWrites.length + 1;
-            this.pendingWrites.push({ message, offset: newLogEndOffset });
+            const offset = ++this.stagedEndOffset;
+            const flushed = new Promise<Response<boolean>>((resolve) => {
+                this.pendingWrites.push({ message, offset, acks, tags: { producerId, scheduleId }, onFlushed: resolve });
+            });
+            if (producerId !== undefined) {
+                this.dedupWindow.record(producerId, message.messageId, { offset, timestamp: Date.now(), flushed });
+            }
 
-            // Enqueue into the in-memory buffer immediately (available for broker loop)
-            this.buffer.enqueue(message);
+            // The message reaches the in-memory buffer (and the broker loop) once it is flushed
 
-            // Flush when batch threshold is reached, otherwise schedule a timer flush
+            // Flush when batch threshold is reached, otherwise schedule a flush (right away if
+            // the acknowledgement waits for it)
             if (this.pendingWrites.length >= IngressBuffer.BATCH_SIZE) {
                 const flushResult = await this.flushPendingWrites();
                 if (!flushResult.success) {
                     return flushResult;
                 }
             } else {
-                this.scheduleFlush();
+                this.scheduleFlush(acks !== "none");
+            }
+
+            // Hold the acknowledgement until the batch holding this message reached the requested level
+            if (acks !== "none") {
+                const flushResult = await flushed;
+                if (!flushResult.success) {
+                    return flushResult;
+                }
             }
 
             return {
                 success: true,
-                data: true
+                data: { offset, acks, duplicate: false }
             };
         } catch (error) {
             return {
@@ -313,9 +564,166 @@ class IngressBuffer {
         }
     }
 
-    batchExtract(batchSize: number): Response<Message[]> {
+    beginTransaction(): Response<string> {
+        this.expireTransactions();
+        const transactionId = randomUUID();
+        this.openTransactions.set(transactionId, { messages: [], offsetCommits: new Map(), lastActivity: Date.now() });
+        console.log(`[IngressBuffer] Transaction ${transactionId} started`);
+        return {
+            success: true,
+            data: transactionId
+        };
+    }
+
+    // Stage a message in an open transaction; returns the number of messages staged so far
+    addToTransaction(transactionId: string, message: Message): Response<number> {
+        const transactionResult = this.getOpenTransaction(transactionId);
+        if (!transactionResult.success) {
+            return transactionResult;
+        }
+        const { messages } = transactionResult.data;
+        if (messages.length >= IngressBuffer.MAX_TRANSACTION_MESSAGES) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.TRANSACTION_TOO_LARGE,
+                error: new Error(`Transaction ${transactionId} already holds the maximum of ${IngressBuffer.MAX_TRANSACTION_MESSAGES} messages`)
+            };
+        }
+        messages.push(message);
+        return {
+            success: true,
+            data: messages.length
+        };
+    }
+
+    /**
+     * Stage the commit of a partition of `topicId` up to `offsetCommit.offset` for a consumer
+     * group in an open transaction; a later one for the same partition and group replaces it.
+     * Returns the number of offset commits the transaction holds.
+     */
+    addOffsetCommitToTransaction(transactionId: string, topicId: TopicId, offsetCommit: OffsetCommit): Response<number> {
+        const transactionResult = this.getOpenTransaction(transactionId);
+        if (!transactionResult.success) {
+            return transactionResult;
+        }
+        const { offsetCommits } = transactionResult.data;
+        offsetCommits.set(`${topicId}|${offsetCommit.partitionId}|${offsetCommit.groupId}`, {
+            topicId,
+            messageId: offsetCommit.consumerId,
+            content: "",
+            offsetCommit
+        });
+        return {
+            success: true,
+            data: offsetCommits.size
+        };
+    }
+
+    /**
+     * Append every message of the transaction, followed by its offset commits, to the log as
+     * one unit and resolve according to `acks`, like `push`. `startOffset`/`endOffset` bracket
+     * the offsets the records received (both equal for an empty transaction).
+     */
+    async commitTransaction(transactionId: string, acks: Acks): Promise<Response<{ startOffset: number; endOffset: number; offsetCommits: number; acks: Acks }>> {
         try {
-            if (this.buffer.isEmpty()) {
+            const transactionResult = this.getOpenTransaction(transactionId);
+            if (!transactionResult.success) {
+                return transactionResult;
+            }
+            const messages = [...transactionResult.data.messages, ...transactionResult.data.offsetCommits.values()];
+            const offsetCommits = transactionResult.data.offsetCommits.size;
+            this.openTransactions.delete(transactionId);
+
+            const startOffset = this.stagedEndOffset;
+            if (messages.length === 0) {
+                return {
+                    success: true,
+                    data: { startOffset, endOffset: startOffset, offsetCommits, acks }
+                };
+            }
+
+            if (this.buffer.size() + this.pendingWrites.length + messages.length > this.maxLength) {
+                return {
+                    success: false,
+                    errorCode: ERROR_CODES.BUFFER_FULL,
+                    error: new Error("Ingress buffer has reached maximum capacity")
+                };
+            }
+
+            // Staged in one go, so every message lands in the same flush
+            let flushed!: Promise<Response<boolean>>;
+            const timestamp = Date.now();
+            messages.map(message => ({ ...message, timestamp })).forEach((message, i) => {
+                const offset = ++this.stagedEndOffset;
+                const tags: RecordTags = { transactionId, transactionEnd: i === messages.length - 1 };
+                flushed = new Promise<Response<boolean>>((resolve) => {
+                    this.pendingWrites.push({ message, offset, acks, tags, onFlushed: resolve });
+                });
+            });
+            const endOffset = this.stagedEndOffset;
+            this.committedTransactions.push({ firstOffset: startOffset + 1, lastOffset: endOffset });
+            console.log(`[IngressBuffer] Transaction ${transactionId} committed with ${messages.length - offsetCommits} message(s) and ${offsetCommits} offset commit(s) at offsets ${startOffset + 1}..${endOffset}`);
+
+            if (this.pendingWrites.length >= IngressBuffer.BATCH_SIZE) {
+                const flushResult = await this.flushPendingWrites();
+                if (!flushResult.success) {
+                    return flushResult;
+                }
+            } else {
+                this.scheduleFlush(acks !== "none");
+            }
+
+            if (acks !== "none") {
+                const flushResult = await flushed;
+                if (!flushResult.success) {
+                    return flushResult;
+                }
+            }
+
+            return {
+                success: true,
+                data: { startOffset, endOffset, offsetCommits, acks }
+            };
+        } catch (error) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.BUFFER_BUILD_FAILED,
+                error: error
+            };
+        }
+    }
+
+    // Discard an open transaction; returns the number of messages dropped
+    abortTransaction(transactionId: string): Response<number> {
+        const transactionResult = this.getOpenTransaction(transactionId);
+        if (!transactionResult.success) {
+            return transactionResult;
+        }
+        this.openTransactions.delete(transactionId);
+        console.log(`[IngressBuffer] Transaction ${transactionId} aborted, discarded ${transactionResult.data.messages.length} message(s)`);
+        return {
+            success: true,
+            data: transactionResult.data.messages.length
+        };
+    }
+
+    /**
+     * Peek up to `batchSize` messages from the head of the buffer without removing them.
+     * Only messages already appended to `ingress.log` are returned, so nothing is routed to a
+     * partition that a crash could still take out of the ingress log. The message at index `i`
+     * has ingress offset `startOffset + i + 1`. Call `commitOffset(endOffset)` once the batch
+     * has been routed. A batch ending inside a committed transaction is extended to its end.
+     */
+    batchExtract(batchSize: number): Response<{ messages: Message[]; startOffset: number; endOffset: number }> {
+        try {
+            let available = Math.min(batchSize, this.logEndOffset - this.readOffset, this.buffer.size());
+            const batchEnd = this.readOffset + available;
+            const splitTransaction = this.committedTransactions.find(({ firstOffset, lastOffset }) => firstOffset <= batchEnd && batchEnd < lastOffset);
+            if (splitTransaction) {
+                // The whole transaction was flushed together, so its end is already available
+                available = Math.min(splitTransaction.lastOffset - this.readOffset, this.logEndOffset - this.readOffset, this.buffer.size());
+            }
+            if (available <= 0) {
                 // Buffer is empty, this is normal during idle periods
                 return {
                     success: false,
@@ -324,30 +732,121 @@ class IngressBuffer {
                 };
             }
 
-            const batch: Message[] = [];
-            const n = Math.min(batchSize, this.buffer.size());
-
-            for (let i = 0; i < n; i++) {
-                const message = this.buffer.dequeue();
-                if (message) {
-                    batch.push(message);
+            const messages = this.buffer.peekBatch(available);
+            return {
+                success: true,
+                data: {
+                    messages,
+                    startOffset: this.readOffset,
+                    endOffset: this.readOffset + messages.length
                 }
+            };
+        } catch (error) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.BUFFER_BUILD_FAILED,
+                error: error
+            };
+        }
+    }
+
+    // Messages routed to `topicId` so far, i.e. the position of its next message (see `Partitioner`)
+    getRoutedCount(topicId: TopicId): number {
+        return this.routedCounts.get(topicId) ?? 0;
+    }
+
+    /**
+     * Remove every message up to `offset` from the buffer once it has been routed to its
+     * partition. `routedCounts` are the topics' routed counts as of `offset`, stored with it.
+     */
+    commitOffset(offset: number, routedCounts: Map<TopicId, number> = new Map()): Response<boolean> {
+        if (offset > this.logEndOffset) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.INVALID_OFFSET,
+                error: new Error(`Invalid offset: ${offset} exceeds logEndOffset: ${this.logEndOffset}`)
+            };
+        }
+        if (offset <= this.readOffset) {
+            return { success: true, data: true };
+        }
+
+        const n = offset - this.readOffset;
+        this.buffer.dequeueBatch(n);
+        for (const [topicId, routedCount] of routedCounts) {
+            this.routedCounts.set(topicId, routedCount);
+        }
+        this.committedTransactions = this.committedTransactions.filter(({ lastOffset }) => lastOffset > offset);
+        const updateResult = this.updateReadOffset(offset);
+        if (!updateResult.success) {
+            return updateResult;
+        }
+
+        console.log(`[IngressBuffer] Committed ${n} routed message(s) (readOffset: ${this.readOffset}, remaining: ${this.buffer.size()})`);
+        return {
+            success: true,
+            data: true
+        };
+    }
+
+    /**
+     * Move every offset forward to `offset` if the partitions have already seen ingress
+     * offsets past the end of this log (i.e. the ingress log lost data they were routed from).
+     * Without this, new messages would reuse those offsets and be dropped as duplicates.
+     * Only called on boot, before any write is staged.
+     */
+    fastForward(offset: number): Response<boolean> {
+        if (offset <= this.logEndOffset) {
+            return { success: true, data: true };
+        }
+
+        console.log(`[IngressBuffer] Partitions hold ingress offsets up to ${offset} but the ingress log ends at ${this.logEndOffset}, fast-forwarding`);
+        this.buffer.clear();
+        this.committedTransactions = [];
+        this.readOffset = offset;
+        this.stagedEndOffset = offset;
+        return this.updateLogEndOffset(offset);
+    }
+
+    /**
+     * Remove the committed head of `ingress.log` (every entry with an offset `<= readOffset`).
+     * Those entries have already been routed into their partition logs, where topic
+     * retention applies, so they are only dead weight here, except for entries the dedup
+     * window still remembers, which are kept so it can be rebuilt on boot. The surviving tail is written to
+     * a temp file and renamed over the log. Skipped while a batch flush is in flight so the
+     * pending append can't land in the replaced file.
+     */
+    trimCommitted(): Response<number> {
+        try {
+            if (this.isFlushing) {
+                return { success: true, data: 0 };
             }
 
-            const updateResult = this.updateReadOffset(this.readOffset + n);
-            if (!updateResult.success) {
-                return updateResult;
+            const logFileContent = fs.readFileSync(IngressBuffer.logFilePath);
+            const { records, validBytes } = scanRecords(logFileContent);
+            const oldestRemembered = this.dedupWindow.getOldestOffset();
+            const trimThrough = oldestRemembered === null ? this.readOffset : Math.min(this.readOffset, oldestRemembered - 1);
+            const firstRetained = records.findIndex(({ record }) => record.offset > trimThrough);
+            // A compressed batch is kept whole if any of its records is still uncommitted
+            const retainedFrom = firstRetained === -1 ? validBytes : records[firstRetained].position;
+            const trimmed = records.filter(({ position }) => position < retainedFrom).length;
+            if (trimmed === 0) {
+                return { success: true, data: 0 };
             }
 
-            console.log(`[IngressBuffer] Extracted ${n} message(s) from ingress buffer (remaining: ${this.buffer.size()})`);
+            const tempPath = `${IngressBuffer.logFilePath}.tmp`;
+            fs.writeFileSync(tempPath, logFileContent.subarray(retainedFrom));
+            fs.renameSync(tempPath, IngressBuffer.logFilePath);
+
+            console.log(`[IngressBuffer] Trimmed ${trimmed} committed entries from ingress log`);
             return {
                 success: true,
-                data: batch
+                data: trimmed
             };
         } catch (error) {
             return {
                 success: false,
-                errorCode: ERROR_CODES.BUFFER_BUILD_FAILED,
+                errorCode: ERROR_CODES.RETENTION_FAILED,
                 error: error
             };
         }
@@ -364,6 +863,32 @@ class IngressBuffer {
     getReadOffset(): number {
         return this.readOffset;
     }
+
+    getRecoveredScheduleIds(): ReadonlySet<number> {
+        return this.recoveredScheduleIds;
+    }
+
+    getDedupSize(): number {
+        return this.dedupWindow.size();
+    }
+
+    // Topics an open transaction writes to or commits offsets of (empty if it doesn't exist)
+    getTransactionTopics(transactionId: string): TopicId[] {
+        const transaction = this.openTransactions.get(transactionId);
+        const messages = transaction ? [...transaction.messages, ...transaction.offsetCommits.values()] : [];
+        return [...new Set(messages.map(message => message.topicId))];
+    }
+
+    // Input offsets an open transaction commits, by topic (empty if it doesn't exist)
+    getTransactionOffsetCommits(transactionId: string): { topicId: TopicId; offsetCommit: OffsetCommit }[] {
+        const transaction = this.openTransactions.get(transactionId);
+        return transaction ? [...transaction.offsetCommits.values()].map(message => ({ topicId: message.topicId, offsetCommit: message.offsetCommit! })) : [];
+    }
+
+    getOpenTransactionCount(): number {
+        this.expireTransactions();
+        return this.openTransactions.size;
+    }
 }
 
 export default IngressBuffer;
\ No newline at end of file
@@ -0,0 +1,73 @@
+import IngressBuffer from "./ingress-buffer.js";
+import Scheduler from "./scheduler.js";
+import Topic from "./topic.js";
+import { TopicId } from "./shared/types.js";
+
+/**
+ * Log Cleaner
+ * 
+ * Background task that reclaims disk space on a fixed interval:
+ * - drops consumer groups that have been idle for their topic's `groupRetentionMs`
+ * - deletes committed partition segments that are past their topic's `retentionMs` / `retentionBytes`
+ * - trims the committed head of `ingress.log`
+ * - compacts released entries out of `scheduled.log`
+ * 
+ * Only whole, committed data is ever removed, so `logEndOffset` and `readOffset` in the
+ * metadata files remain valid.
+ */
+class LogCleaner {
+    private static readonly CLEANUP_INTERVAL_MS: number = 30_000;
+    private readonly topics: Map<TopicId, Topic>;
+    private readonly ingressBuffer: IngressBuffer;
+    private readonly scheduler: Scheduler;
+    private timer: ReturnType<typeof setInterval> | null = null;
+
+    constructor(topics: Map<TopicId, Topic>, ingressBuffer: IngressBuffer, scheduler: Scheduler) {
+        this.topics = topics;
+        this.ingressBuffer = ingressBuffer;
+        this.scheduler = scheduler;
+    }
+
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+        console.log(`[LogCleaner] Started with interval ${LogCleaner.CLEANUP_INTERVAL_MS}ms`);
+        this.timer = setInterval(() => this.runCleanup(), LogCleaner.CLEANUP_INTERVAL_MS);
+        // Don't keep the process alive just for cleanup
+        this.timer.unref();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    runCleanup(): void {
+        let deletedSegments = 0;
+        for (const [, topic] of this.topics) {
+            const result = topic.enforceRetention();
+            if (result.success) {
+                deletedSegments += result.data;
+            }
+        }
+
+        const trimResult = this.ingressBuffer.trimCommitted();
+        if (!trimResult.success) {
+            console.error("[LogCleaner] Failed to trim ingress log:", trimResult.errorCode, trimResult.error);
+        }
+
+        const compactResult = this.scheduler.compact();
+        if (!compactResult.success) {
+            console.error("[LogCleaner] Failed to compact scheduled.log:", compactResult.errorCode, compactResult.error);
+        }
+
+        if (deletedSegments > 0) {
+            console.log(`[LogCleaner] Deleted ${deletedSegments} segment(s) past retention`);
+        }
+    }
+}
+
+export default LogCleaner;
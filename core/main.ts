@@ -2,7 +2,7 @@ import dotenv from "dotenv";
 import Broker from "./broker.js";
 import { Bootstrap } from "./bootstrap.js";
 import Server from "./server.js";
-import { ConsumerId, PartitionId, TopicId } from "./shared/types.js";
+import { ConsumerId, GroupId, PartitionId, TopicId } from "./shared/types.js";
 import getEnv from "./shared/env-config.js";
 dotenv.config();
 
@@ -10,9 +10,10 @@ dotenv.config();
  * Internal Topic-Partition-Consumer Map
  * 
  * This map is used to maintain the mapping of topics to partitions and consumers.
- * It is used to determine which consumer should consume a message from a partition.
+ * It is used to determine which consumer of each consumer group should consume a message
+ * from a partition.
  */
-export const internalTPCMap = new Map<TopicId, Map<PartitionId, ConsumerId>>();
+export const internalTPCMap = new Map<TopicId, Map<PartitionId, Map<GroupId, ConsumerId>>>();
 
 async function main() {
     try {
@@ -27,7 +28,7 @@ async function main() {
         console.log(`[Main] Topics configured: ${config.topics.length}`);
 
         // Start the broker instance
-        const broker = new Broker(config.brokerId);
+        const broker = new Broker(config.brokerId, config.topics, config.dedup, config.sessionTimeoutMs);
 
         // Start HTTP server to accept producer/consumer connections
         const port = getEnv().PORT ? parseInt(getEnv().PORT) : 3000;
@@ -1,57 +1,150 @@
-import fs from "fs";
-import LogFileHandler from "./shared/log-file-handler.js";
+import { randomUUID } from "node:crypto";
+import SegmentedLog from "./shared/segmented-log.js";
 import Queue from "./shared/queue.js";
 import ERROR_CODES from "./shared/error-codes.js";
-import { FilePath, LOG_FILE_TYPE, Message, PartitionId, Response } from "./shared/types.js";
+import { Acks, Compression, ConsumerId, DEFAULT_GROUP_ID, FilePath, GroupId, Lease, Message, PartitionId, Response, RetentionPolicy } from "./shared/types.js";
 import { ensureFileExists } from "./shared/utils.js";
+import { atomicFileExists, readAtomicFile, removeAtomicFile, writeAtomicFile } from "./shared/atomic-file.js";
+
+// Consumption state of one consumer group, independent of every other group's
+type GroupState = {
+    groupId: GroupId;
+    // Everything at or below it is committed by this group
+    readOffset: number;
+    deliveryCounts: Map<number, number>;
+    nackedOffsets: Set<number>;
+    // Active leases by id, and the lease holding each leased offset
+    leases: Map<string, Lease>;
+    leasedOffsets: Map<number, Lease>;
+    priorityQueues: Map<number, Queue<number>>;
+    ackedOffsets: Set<number>;
+    // Offsets committed by transactions that aren't applied yet (see `fenceOffset`)
+    fencedOffsets: number[];
+    // Last time the group consumed, committed or heartbeated (see `expireIdleGroups`)
+    lastActiveAt: number;
+};
 
 /**
  * Partition
  * 
- * Each partition maintains its own in-memory buffer and a log file for crash recovery.
- * Messages are distributed across partitions based on a hash of their messageId.
+ * Each partition maintains its own in-memory buffer and a segmented log for crash recovery.
+ * Messages are distributed across partitions by the topic's partitioner (see `Partitioner`).
+ * 
+ * The log lives in `partition_{id}/` as a series of segment files that roll over once they
+ * reach the topic's `segmentBytes` or `segmentMessages` limit (see `SegmentedLog`). A sparse
+ * offset index per segment lets recovery and `readRange` seek straight to an offset.
  * 
  * `logEndOffset`: 
  * The index of the last message that has been inserted into the partition buffer.
  * This is used to determine the starting point when the partition buffer is built from the log file.
  * 
  * `readOffset`: 
- * The index of the last message that has been extracted from the partition buffer.
+ * The index up to which every consumer group has committed (and messages are removed from the
+ * partition buffer). The slowest group holds it back; no single group's commit trims the buffer.
+ * Without any group nothing is kept: the buffer is trimmed right after every append.
  * 
  * **NOTE**: `logEndOffset < readOffset` is an invalid state.
  * 
+ * `groups`:
+ * Each consumer group consumes the partition independently: it has its own committed offset
+ * and everything below describes the state of one group. Group offsets (and acknowledged
+ * offsets, see `ackedOffsets`) are kept in `{topicId}_consumer_offsets.log`, shared by the
+ * partitions of the topic. A group starts at the oldest retained message (`logStartOffset`)
+ * when it first registers or consumes: the messages below `readOffset` are read back from the
+ * log into the buffer (see `rewindBuffer`). A group that has been idle (no consume, commit or
+ * heartbeat) for the topic's `groupRetentionMs` and holds no lease is dropped with its
+ * offsets when retention runs, so an abandoned group doesn't pin the buffer and the log.
+ * 
+ * `lastSourceOffset`:
+ * The ingress offset of the newest message routed into this partition. Every routed record
+ * stores its ingress offset, so on boot this is read back from the last record. A message
+ * re-routed after a crash (ingress `readOffset` is only advanced once routing completes) has
+ * a source offset at or below it and is dropped, so each ingress message lands exactly once.
+ * 
+ * `deliveryCounts`:
+ * How many times each uncommitted message has been handed out by `batchExtract`. A consumer
+ * can `nack` individual offsets of a batch; once the batch is committed past them, nacked
+ * messages are re-appended to the end of the partition (or dead-lettered, see `Topic`) with
+ * their delivery count stored in the record, so the count survives a restart. The record
+ * also names the group (`redeliveredFor`), and every other group skips it.
+ * 
+ * `leases`:
+ * Each batch `batchExtract` hands out is leased to the calling consumer (and its group) for the topic's
+ * `visibilityTimeoutMs`. Leased offsets are skipped by later extractions until the lease is
+ * committed past or expires, so a batch taken by a consumer that crashed is offered again
+ * once its lease runs out. Leases are in memory only: after a restart every uncommitted
+ * message is available again.
+ * 
+ * `fencedOffsets`:
+ * A committed transaction fences the input offsets it commits until the broker applies the
+ * commit along with the transaction's output; nothing at or below a fence is handed out.
+ * 
+ * `expiredOffsets`:
+ * Messages past their TTL (`ttlMs`, from the message or the topic, counted from the message
+ * timestamp stored in its record) are skipped by `batchExtract` instead of being delivered
+ * late. Like nacked messages, they are settled (dropped or dead-lettered, see `Topic`) once
+ * a commit covers them, by each group that commits past them.
+ * 
+ * `priorityQueues`:
+ * The uncommitted offsets of each priority (`Message.priority`, stored in its record), in
+ * offset order. `batchExtract` serves the highest priority first and keeps FIFO order within
+ * a priority, so batches can be consumed out of offset order.
+ * 
+ * `ackedOffsets`:
+ * Committing a batch by its lease (`commitLease`) acknowledges exactly its offsets, which may
+ * lie past older messages of a lower priority. The group's `readOffset` only moves over them
+ * once every message before them is committed too; until then they are kept with the group's
+ * offset so they aren't delivered again after a restart. Committing up to an offset
+ * (`commitOffset`) still commits everything at or below it.
+ * 
  */
 class Partition {
     private readonly partitionId: PartitionId;
     private readonly topicId: string;
     private logEndOffset: number;
     private readOffset: number;
-    private readonly buffer: Queue<Message>;
+    private lastSourceOffset: number = 0;
+    private readonly groups: Map<GroupId, GroupState> = new Map();
+    // Redelivered messages, by the group that nacked them
+    private readonly redeliveredFor: Map<number, GroupId> = new Map();
+    private readonly visibilityTimeoutMs: number;
+    private readonly ttlMs?: number;
+    private readonly groupRetentionMs: number;
+    private readonly expiredOffsets: Set<number> = new Set();
+    // Messages found expired since startup
+    private expiredCount: number = 0;
+    private buffer: Queue<Message>;
     private readonly maxBufferSize: number = 100_000_000;
-    private readonly logFilePath: FilePath;
+    private readonly logDirectory: FilePath;
     private readonly metadataFilePath: FilePath;
-    private readonly logHandler: LogFileHandler;
+    private readonly groupOffsetsFilePath: FilePath;
+    // Acknowledged offsets of a partition from before consumer groups, moved to the default group
+    private readonly legacyAckedFilePath: FilePath;
+    private readonly log: SegmentedLog;
+    private readonly acks: Acks;
+    // Long-polling consume requests waiting for messages (see `waitForMessages`)
+    private readonly waiters: Set<() => void> = new Set();
 
 
-    constructor(partitionId: PartitionId, topicId: string) {
+    constructor(partitionId: PartitionId, topicId: string, logConfig: { segmentBytes: number; segmentMessages: number; indexInterval: number; acks: Acks; compression: Compression; visibilityTimeoutMs: number; ttlMs?: number; groupRetentionMs: number; migrateLegacyOffsets: boolean }) {
         console.log(`[Partition] Initializing Partition ${partitionId} for topic ${topicId}`);
         this.partitionId = partitionId;
         this.topicId = topicId;
+        this.acks = logConfig.acks;
+        this.visibilityTimeoutMs = logConfig.visibilityTimeoutMs;
+        this.ttlMs = logConfig.ttlMs;
+        this.groupRetentionMs = logConfig.groupRetentionMs;
 
-        // Build dynamic file path for this partition
+        // Build dynamic segment directory path for this partition
         const dataStorageVolume = process.env.DATA_STORAGE_VOLUME as FilePath;
-        this.logFilePath = `${dataStorageVolume}/topics/topic_${topicId}/partition_${partitionId}.log` as FilePath;
-        console.log(`[Partition] Partition log file path: ${this.logFilePath}`);
-
-        const logFileValidation = ensureFileExists(this.logFilePath);
-        if (!logFileValidation.isValid) {
-            console.error("Failed to initialize log file:", logFileValidation.error);
-            process.exit(1);
-        }
+        this.logDirectory = `${dataStorageVolume}/topics/topic_${topicId}/partition_${partitionId}` as FilePath;
+        console.log(`[Partition] Partition log directory: ${this.logDirectory}`);
 
         // Build dynamic metadata file path for this topic
         this.metadataFilePath = `${dataStorageVolume}/topics/topic_${topicId}/${topicId}_partition_metadata.log` as FilePath;
         console.log(`[Partition] Partition metadata file path: ${this.metadataFilePath}`);
+        this.groupOffsetsFilePath = Partition.getGroupOffsetsFilePath(topicId);
+        this.legacyAckedFilePath = `${dataStorageVolume}/topics/topic_${topicId}/${topicId}_partition_${partitionId}_acked.log` as FilePath;
 
         const metadataFileValidation = ensureFileExists(this.metadataFilePath);
         if (!metadataFileValidation.isValid) {
@@ -76,39 +169,93 @@ class Partition {
 
         this.buffer = new Queue<Message>();
 
-        this.logHandler = new LogFileHandler({
-            label: LOG_FILE_TYPE.PARTITION_BUFFER,
-            filePath: this.logFilePath,
-            topicId: this.topicId,
-            partitionId: this.partitionId
-        });
+        try {
+            this.log = new SegmentedLog({
+                directory: this.logDirectory,
+                topicId: this.topicId,
+                partitionId: this.partitionId,
+                segmentBytes: logConfig.segmentBytes,
+                segmentMessages: logConfig.segmentMessages,
+                indexInterval: logConfig.indexInterval,
+                compression: logConfig.compression,
+                nextOffset: this.logEndOffset + 1,
+                legacyFilePath: `${dataStorageVolume}/topics/topic_${topicId}/partition_${partitionId}.log` as FilePath
+            });
+        } catch (error) {
+            console.error("Failed to initialize partition log:", error);
+            process.exit(1);
+        }
 
-        // Build the partition buffer from the offset and the log file
+        // The log is the source of truth for the end offset: a crash can land between the
+        // append and the metadata update, and recovery may have truncated a torn tail
+        const lastOffset = this.log.getLastOffset();
+        if (lastOffset !== this.logEndOffset) {
+            console.log(`[Partition] Partition ${partitionId} logEndOffset reconciled from ${this.logEndOffset} to ${lastOffset}`);
+            this.logEndOffset = lastOffset;
+            this.readOffset = Math.min(this.readOffset, lastOffset);
+            this.updateMetadataFile();
+        }
+
+        try {
+            this.lastSourceOffset = this.log.getLastRecord()?.tags.sourceOffset ?? 0;
+        } catch (error) {
+            console.error("Failed to read the last record of the partition log:", error);
+            process.exit(1);
+        }
+        console.log(`[Partition] Partition ${partitionId} lastSourceOffset: ${this.lastSourceOffset}`);
+
+        const groupsResult = this.extractGroupOffsets(logConfig.migrateLegacyOffsets);
+        if (!groupsResult.success) {
+            console.error("Failed to read consumer group offsets:", groupsResult.errorCode, groupsResult.error);
+            process.exit(1);
+        }
+
+        // Build the partition buffer from the offset and the segmented log
         const buildResult = this.buildBufferFromLogFile();
         if (!buildResult.success) {
             console.error("Error building partition buffer from log file:", buildResult.errorCode, buildResult.error);
             process.exit(1);
         }
+
+        // A crash can land between acknowledging the offsets after a group's readOffset and
+        // moving it, or between moving a group's readOffset and the partition's
+        for (const [, group] of this.groups) {
+            const catchUpResult = this.advanceGroupOffset(group, this.getSettledRunEnd(group, group.readOffset));
+            if (!catchUpResult.success) {
+                console.error(`Failed to move readOffset of group ${group.groupId} past acknowledged offsets:`, catchUpResult.errorCode, catchUpResult.error);
+                process.exit(1);
+            }
+        }
+        const trimResult = this.trimBuffer();
+        if (!trimResult.success) {
+            console.error("Failed to move readOffset to the slowest consumer group:", trimResult.errorCode, trimResult.error);
+            process.exit(1);
+        }
         console.log(`[Partition] Partition ${partitionId} for topic ${topicId} initialized with ${this.buffer.size()} message(s)`);
     }
 
     // Private methods
     private buildBufferFromLogFile(): Response<boolean> {
         try {
-            console.log(`Building partition ${this.partitionId} buffer from log file...`);
-            const logFileContent = fs.readFileSync(this.logFilePath, 'utf-8');
-            const logs = logFileContent.split("\n").slice(this.readOffset).filter(log => !!log);
-
-            for (const log of logs) {
-                // New format: topicId|partitionId|offset|messageId|content
-                const [topicId, partitionId, offset, messageId, content] = log.split("|");
+            console.log(`Building partition ${this.partitionId} buffer from log segments...`);
 
-                // Only load messages for this specific partition
-                this.buffer.enqueue({
-                    topicId,
-                    messageId: messageId, // messageId is now a string
-                    content
-                });
+            // Only segments holding messages past readOffset are opened
+            const replayResult = this.log.replay(this.readOffset, (message, offset, tags) => {
+                if (tags.groupId !== undefined) {
+                    this.redeliveredFor.set(offset, tags.groupId);
+                }
+                this.enqueue(message, offset);
+                if (tags.deliveryCount) {
+                    // Redeliveries from before consumer groups were for the only group there was
+                    for (const [, group] of this.groups) {
+                        if (this.isVisibleTo(group, offset)) {
+                            group.deliveryCounts.set(offset, tags.deliveryCount);
+                        }
+                    }
+                }
+            });
+            if (!replayResult.success) {
+                return replayResult;
             }
 
             console.log(`[Partition] Partition ${this.partitionId} buffer built with ${this.buffer.size()} message(s)`);
@@ -127,7 +274,7 @@ class Partition {
 
     private extractDataFromMetadata(): Response<{ logEndOffset: number; readOffset: number }> {
         try {
-            const metadataContent = fs.readFileSync(this.metadataFilePath, 'utf-8');
+            const metadataContent = readAtomicFile(this.metadataFilePath)?.content ?? "";
             const lines = metadataContent.split("\n").filter(line => !!line.trim());
 
             // Find the line for this specific partition with new format: {topicId}_partition_{partitionId}
@@ -136,8 +283,7 @@ class Partition {
 
             if (!partitionLine) {
                 // Initialize metadata for this partition if it doesn't exist
-                const newEntry = `${metadataKey}|0|0\n`;
-                fs.appendFileSync(this.metadataFilePath, newEntry);
+                writeAtomicFile(this.metadataFilePath, [...lines, `${metadataKey}|0|0`].join("\n") + "\n");
                 return {
                     success: true,
                     data: {
@@ -173,6 +319,153 @@ class Partition {
         }
     }
 
+    // Offsets stored as comma-separated ranges (`12-15,18`)
+    private static parseRanges(content: string): Response<number[]> {
+        const offsets: number[] = [];
+        for (const range of content.trim().split(",").filter(range => !!range)) {
+            const [first, last = first] = range.split("-").map(Number);
+            if (!Number.isInteger(first) || !Number.isInteger(last)) {
+                return {
+                    success: false,
+                    errorCode: ERROR_CODES.INVALID_FILE_PATH,
+                    error: new Error(`Malformed offset ranges: invalid range ${range}`)
+                };
+            }
+            for (let offset = first; offset <= last; offset++) {
+                offsets.push(offset);
+            }
+        }
+        return {
+            success: true,
+            data: offsets
+        };
+    }
+
+    private static formatRanges(offsets: Set<number>): string {
+        const ranges: string[] = [];
+        const sorted = [...offsets].sort((a, b) => a - b);
+        for (let i = 0; i < sorted.length; i++) {
+            const first = sorted[i];
+            while (sorted[i + 1] === sorted[i] + 1) {
+                i++;
+            }
+            ranges.push(first === sorted[i] ? `${first}` : `${first}-${sorted[i]}`);
+        }
+        return ranges.join(",");
+    }
+
+    /**
+     * Load this partition's consumer groups from the offsets file, one line per group:
+     * `{topicId}_partition_{id}|{groupId}|{readOffset}|{acknowledged offset ranges}`.
+     * A partition consumed before consumer groups existed (its topic had no offsets file yet,
+     * see `migrateLegacyOffsets`) gets a default group with its readOffset and acknowledged
+     * offsets. Either way the offsets file exists afterwards, so a partition that is trimmed
+     * without groups isn't taken for a legacy one on the next boot.
+     */
+    private extractGroupOffsets(migrateLegacyOffsets: boolean): Response<number> {
+        try {
+            const content = readAtomicFile(this.groupOffsetsFilePath)?.content ?? "";
+            const metadataKey = `${this.topicId}_partition_${this.partitionId}`;
+            for (const line of content.split("\n").filter(line => line.startsWith(`${metadataKey}|`))) {
+                const [, groupId, readOffset, ackedRanges = ""] = line.split("|");
+                const ackedResult = Partition.parseRanges(ackedRanges);
+                if (!groupId || !Number.isInteger(Number(readOffset)) || !ackedResult.success) {
+                    return {
+                        success: false,
+                        errorCode: ERROR_CODES.INVALID_FILE_PATH,
+                        error: new Error(`Malformed consumer offsets file: invalid entry ${line}`)
+                    };
+                }
+                this.addGroup(groupId, Number(readOffset), ackedResult.data);
+            }
+
+            if (migrateLegacyOffsets && this.groups.size === 0 && (this.readOffset > 0 || atomicFileExists(this.legacyAckedFilePath))) {
+                const ackedResult = Partition.parseRanges(readAtomicFile(this.legacyAckedFilePath)?.content ?? "");
+                if (!ackedResult.success) {
+                    return ackedResult;
+                }
+                this.addGroup(DEFAULT_GROUP_ID, this.readOffset, ackedResult.data);
+                this.updateGroupOffsetsFile();
+                removeAtomicFile(this.legacyAckedFilePath);
+                console.log(`[Partition] Partition ${this.partitionId} offsets moved to consumer group ${DEFAULT_GROUP_ID}`);
+            } else if (!atomicFileExists(this.groupOffsetsFilePath)) {
+                this.updateGroupOffsetsFile();
+            }
+
+            return {
+                success: true,
+                data: this.groups.size
+            };
+        } catch (error) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.FILE_NOT_FOUND,
+                error: error
+            };
+        }
+    }
+
+    // The offsets file is shared by every partition of the topic, so re-read it before replacing it
+    private updateGroupOffsetsFile(): void {
+        const content = readAtomicFile(this.groupOffsetsFilePath)?.content ?? "";
+        const metadataKey = `${this.topicId}_partition_${this.partitionId}`;
+        const lines = content.split("\n").filter(line => !!line.trim() && !line.startsWith(`${metadataKey}|`));
+        for (const [groupId, group] of this.groups) {
+            lines.push(`${metadataKey}|${groupId}|${group.readOffset}|${Partition.formatRanges(group.ackedOffsets)}`);
+        }
+        writeAtomicFile(this.groupOffsetsFilePath, lines.join("\n") + "\n");
+    }
+
+    /**
+     * Start tracking a group at `readOffset` (clamped to the buffered messages), queueing every
+     * buffered message past it. The caller persists the group.
+     */
+    private addGroup(groupId: GroupId, readOffset: number, ackedOffsets: number[] = []): GroupState {
+        const groupReadOffset = Math.min(Math.max(readOffset, this.readOffset), this.logEndOffset);
+        const group: GroupState = {
+            groupId,
+            readOffset: groupReadOffset,
+            deliveryCounts: new Map(),
+            nackedOffsets: new Set(),
+            leases: new Map(),
+            leasedOffsets: new Map(),
+            priorityQueues: new Map(),
+            ackedOffsets: new Set(ackedOffsets.filter(offset => offset > groupReadOffset && offset <= this.logEndOffset)),
+            fencedOffsets: [],
+            lastActiveAt: Date.now()
+        };
+        this.groups.set(groupId, group);
+        for (let index = 0; index < this.buffer.size(); index++) {
+            const offset = this.readOffset + index + 1;
+            if (offset > groupReadOffset && this.isVisibleTo(group, offset)) {
+                this.enqueueFor(group, offset, this.buffer.peekAt(index)!.priority ?? 0);
+            }
+        }
+        return group;
+    }
+
+    /**
+     * The group's state, created (and persisted) at the oldest retained message if the group is
+     * new to this partition. Either way the group counts as active now.
+     */
+    private getOrAddGroup(groupId: GroupId, now: number = Date.now()): GroupState {
+        const existing = this.groups.get(groupId);
+        if (existing) {
+            existing.lastActiveAt = now;
+            return existing;
+        }
+        const rewindResult = this.rewindBuffer();
+        if (!rewindResult.success) {
+            // The group still joins, at the oldest message the buffer holds
+            console.error(`[Partition] Failed to read retained messages of partition ${this.partitionId} back into the buffer:`, rewindResult.errorCode, rewindResult.error);
+        }
+        const group = this.addGroup(groupId, this.readOffset);
+        group.lastActiveAt = now;
+        this.updateGroupOffsetsFile();
+        console.log(`[Partition] Consumer group ${groupId} joined partition ${this.partitionId} of topic ${this.topicId} at offset ${group.readOffset}`);
+        return group;
+    }
+
     private updateReadOffset(finalOffset?: number): Response<boolean> {
         try {
             if (finalOffset !== undefined) {
@@ -221,8 +514,9 @@ class Partition {
         }
     }
 
+    // The metadata file is shared by every partition of the topic, so re-read it before replacing it
     private updateMetadataFile(): void {
-        const metadataContent = fs.readFileSync(this.metadataFilePath, 'utf-8');
+        const metadataContent = readAtomicFile(this.metadataFilePath)?.content ?? "";
         const lines = metadataContent.split("\n").filter(line => !!line.trim());
 
         const metadataKey = `${this.topicId}_partition_${this.partitionId}`;
@@ -240,13 +534,284 @@ class Partition {
             updatedLines.push(`${metadataKey}|${this.logEndOffset}|${this.readOffset}`);
         }
 
-        fs.writeFileSync(this.metadataFilePath, updatedLines.join("\n") + "\n");
+        writeAtomicFile(this.metadataFilePath, updatedLines.join("\n") + "\n");
+    }
+
+    private enqueue(message: Message, offset: number): void {
+        this.buffer.enqueue(message);
+        for (const [, group] of this.groups) {
+            if (this.isVisibleTo(group, offset)) {
+                this.enqueueFor(group, offset, message.priority ?? 0);
+            }
+        }
+    }
+
+    private enqueueFor(group: GroupState, offset: number, priority: number): void {
+        if (!group.priorityQueues.has(priority)) {
+            group.priorityQueues.set(priority, new Queue<number>());
+        }
+        group.priorityQueues.get(priority)!.enqueue(offset);
+    }
+
+    // Everything but messages redelivered for another group
+    private isVisibleTo(group: GroupState, offset: number): boolean {
+        return (this.redeliveredFor.get(offset) ?? group.groupId) === group.groupId;
+    }
+
+    // Whether the group is done with an offset past its readOffset: it acknowledged it, or will never see it
+    private isSettled(group: GroupState, offset: number): boolean {
+        return group.ackedOffsets.has(offset) || !this.isVisibleTo(group, offset);
+    }
+
+    // Last offset of the run of settled offsets right after `offset` (`offset` if there is none)
+    private getSettledRunEnd(group: GroupState, offset: number): number {
+        while (offset < this.logEndOffset && this.isSettled(group, offset + 1)) {
+            offset++;
+        }
+        return offset;
+    }
+
+    /**
+     * Commit everything up to `offset` for a group: forget its per-offset state, cut it out of
+     * the leases holding it and persist the group's new readOffset. The buffer is only trimmed
+     * once every group is past a message (see `trimBuffer`).
+     */
+    private advanceGroupOffset(group: GroupState, offset: number): Response<boolean> {
+        if (offset <= group.readOffset) {
+            return { success: true, data: true };
+        }
+
+        const trimmedLeases = new Set<Lease>();
+        for (let committed = group.readOffset + 1; committed <= offset; committed++) {
+            group.deliveryCounts.delete(committed);
+            group.nackedOffsets.delete(committed);
+            group.ackedOffsets.delete(committed);
+            const lease = group.leasedOffsets.get(committed);
+            if (lease) {
+                group.leasedOffsets.delete(committed);
+                trimmedLeases.add(lease);
+            }
+        }
+        // Leases end with the commit; one that reaches past it keeps its uncommitted part
+        for (const lease of trimmedLeases) {
+            lease.offsets = lease.offsets.filter(leased => leased > offset);
+            if (lease.offsets.length === 0) {
+                group.leases.delete(lease.leaseId);
+            } else {
+                lease.startOffset = lease.offsets[0] - 1;
+            }
+        }
+        // Priority queues drop committed offsets lazily, in batchExtract
+
+        try {
+            group.readOffset = offset;
+            this.updateGroupOffsetsFile();
+        } catch (error) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.LOG_FILE_APPEND_FAILED,
+                error: error
+            };
+        }
+        return this.trimBuffer();
+    }
+
+    // Move readOffset up to the slowest group (or the end, without groups), dropping what every group has committed from the buffer
+    private trimBuffer(): Response<boolean> {
+        const lowestReadOffset = this.groups.size > 0
+            ? Math.min(...[...this.groups.values()].map(group => group.readOffset))
+            : this.logEndOffset;
+        if (lowestReadOffset <= this.readOffset) {
+            return { success: true, data: true };
+        }
+
+        this.buffer.dequeueBatch(lowestReadOffset - this.readOffset);
+        for (let committed = this.readOffset + 1; committed <= lowestReadOffset; committed++) {
+            this.expiredOffsets.delete(committed);
+            this.redeliveredFor.delete(committed);
+        }
+        return this.updateReadOffset(lowestReadOffset);
+    }
+
+    /**
+     * Read the retained messages below `readOffset` back from the log into the front of the
+     * buffer and move `readOffset` down to just before the oldest of them, so a group joining
+     * now starts there. Existing groups are past these messages and don't see them.
+     */
+    private rewindBuffer(): Response<boolean> {
+        const logStartOffset = this.log.getLogStartOffset();
+        if (logStartOffset > this.readOffset) {
+            return { success: true, data: true };
+        }
+
+        const rewound = new Queue<Message>();
+        const replayResult = this.log.replay(logStartOffset - 1, (message, offset, tags) => {
+            if (tags.groupId !== undefined) {
+                this.redeliveredFor.set(offset, tags.groupId);
+            }
+            rewound.enqueue(message);
+        }, this.readOffset);
+        if (!replayResult.success) {
+            return replayResult;
+        }
+        for (let index = 0; index < this.buffer.size(); index++) {
+            rewound.enqueue(this.buffer.peekAt(index)!);
+        }
+        this.buffer = rewound;
+        console.log(`[Partition] Partition ${this.partitionId} of topic ${this.topicId} read ${replayResult.data} retained message(s) back into the buffer from offset ${logStartOffset}`);
+        return this.updateReadOffset(logStartOffset - 1);
+    }
+
+    // Drop the groups that have been idle for `groupRetentionMs` and hold no lease, with their offsets
+    private expireIdleGroups(now: number): Response<number> {
+        const expired: GroupId[] = [];
+        for (const [groupId, group] of this.groups) {
+            this.expireLeases(group, now);
+            if (group.leases.size === 0 && now - group.lastActiveAt >= this.groupRetentionMs) {
+                expired.push(groupId);
+            }
+        }
+        if (expired.length === 0) {
+            return { success: true, data: 0 };
+        }
+
+        for (const groupId of expired) {
+            this.groups.delete(groupId);
+            console.log(`[Partition] Consumer group ${groupId} expired on partition ${this.partitionId} of topic ${this.topicId} after ${this.groupRetentionMs}ms without activity`);
+        }
+        try {
+            this.updateGroupOffsetsFile();
+        } catch (error) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.LOG_FILE_APPEND_FAILED,
+                error: error
+            };
+        }
+        const trimResult = this.trimBuffer();
+        if (!trimResult.success) {
+            return trimResult;
+        }
+        return { success: true, data: expired.length };
+    }
+
+    private releaseLease(group: GroupState, lease: Lease): void {
+        group.leases.delete(lease.leaseId);
+        for (const offset of lease.offsets) {
+            if (group.leasedOffsets.get(offset)?.leaseId === lease.leaseId) {
+                group.leasedOffsets.delete(offset);
+            }
+        }
+    }
+
+    private expireLeases(group: GroupState, now: number): void {
+        for (const [, lease] of group.leases) {
+            if (lease.expiresAt > now) {
+                continue;
+            }
+            console.log(`[Partition] Lease ${lease.leaseId} of consumer ${lease.consumerId} (group ${group.groupId}) on partition ${this.partitionId} expired, ${lease.offsets.length} message(s) between offsets ${lease.startOffset + 1} and ${lease.endOffset} are available again`);
+            this.releaseLease(group, lease);
+        }
+    }
+
+    // Checks (and remembers) whether the message at `offset` is past its TTL
+    private isExpired(offset: number, message: Message, now: number): boolean {
+        if (this.expiredOffsets.has(offset)) {
+            return true;
+        }
+        const ttlMs = message.ttlMs ?? this.ttlMs;
+        if (ttlMs === undefined || message.timestamp === undefined || message.timestamp + ttlMs > now) {
+            return false;
+        }
+        this.expiredOffsets.add(offset);
+        this.expiredCount++;
+        return true;
+    }
+
+    /**
+     * The next `batchSize` messages the group can be given: highest priority first, in offset
+     * order within a priority, skipping unavailable (leased or expired) messages in front of
+     * the batch and ending it at the next one. Leases nothing.
+     */
+    private collectBatch(group: GroupState, batchSize: number, now: number): { offset: number; message: Message }[] {
+        this.expireLeases(group, now);
+        group.fencedOffsets = group.fencedOffsets.filter(offset => offset > group.readOffset);
+        const fencedOffset = Math.max(0, ...group.fencedOffsets);
+
+        // Use peekAt to read messages WITHOUT removing them from buffer
+        // Messages will only be removed once every group has committed them
+        const batch: { offset: number; message: Message }[] = [];
+        const priorities = [...group.priorityQueues.keys()].sort((a, b) => b - a);
+        scan: for (const priority of priorities) {
+            const queue = group.priorityQueues.get(priority)!;
+            while (!queue.isEmpty() && (queue.peek()! <= group.readOffset || this.isSettled(group, queue.peek()!))) {
+                queue.dequeue();
+            }
+            if (queue.isEmpty()) {
+                group.priorityQueues.delete(priority);
+                continue;
+            }
+
+            for (let skip = 0; skip < queue.size(); skip++) {
+                const offset = queue.peekAt(skip)!;
+                if (this.isSettled(group, offset)) {
+                    continue;
+                }
+                const message = this.buffer.peekAt(offset - this.readOffset - 1)!;
+                if (offset <= fencedOffset || group.leasedOffsets.has(offset) || this.isExpired(offset, message, now)) {
+                    if (batch.length > 0) {
+                        break scan;
+                    }
+                    continue;
+                }
+                batch.push({ offset, message });
+                if (batch.length === batchSize) {
+                    break scan;
+                }
+            }
+        }
+        return batch;
+    }
+
+    private wakeWaiters(): void {
+        for (const wake of [...this.waiters]) {
+            wake();
+        }
     }
 
     // Public methods
-    async push(message: Message): Promise<Response<void>> {
+    // Consumer group offsets of every partition of a topic
+    static getGroupOffsetsFilePath(topicId: string): FilePath {
+        return `${process.env.DATA_STORAGE_VOLUME}/topics/topic_${topicId}/${topicId}_consumer_offsets.log` as FilePath;
+    }
+
+    async push(message: Message, sourceOffset?: number): Promise<Response<void>> {
+        return this.batchPush([{ message, sourceOffset }]);
+    }
+
+    /**
+     * Append messages to the log with a single write (one compressed batch for compressed topics).
+     * `sourceOffset` is a message's ingress offset; a message at or below the last one routed
+     * here is a re-delivery after a crash and is skipped. A redelivered (nacked) message is
+     * only for `groupId`, and `deliveryCount` carries its deliveries over to its new offset.
+     */
+    async batchPush(entries: { message: Message; sourceOffset?: number; deliveryCount?: number; groupId?: GroupId }[]): Promise<Response<void>> {
         try {
-            if (this.buffer.size() >= this.maxBufferSize) {
+            const freshEntries = entries.filter(({ message, sourceOffset }) => {
+                if (sourceOffset !== undefined && sourceOffset <= this.lastSourceOffset) {
+                    console.log(`[Partition] Skipping message ${message.messageId} from ingress offset ${sourceOffset}: already routed to partition ${this.partitionId} (lastSourceOffset: ${this.lastSourceOffset})`);
+                    return false;
+                }
+                return true;
+            });
+            if (freshEntries.length === 0) {
+                return {
+                    success: true,
+                    data: undefined
+                };
+            }
+
+            if (this.buffer.size() + freshEntries.length > this.maxBufferSize) {
                 return {
                     success: false,
                     errorCode: ERROR_CODES.BUFFER_FULL,
@@ -254,19 +819,45 @@ class Partition {
                 };
             }
 
-            const newLogEndOffset = this.logEndOffset + 1;
-            const appendResult = await this.logHandler.append(message, newLogEndOffset);
-
+            // Messages that weren't routed from ingress (redeliveries, dead letters) repeat the
+            // newest source offset, so the last record always holds it for recovery
+            let carriedSourceOffset = this.lastSourceOffset;
+            const appendResult = await this.log.appendBatch(freshEntries.map(({ message, sourceOffset, deliveryCount, groupId }, i) => {
+                carriedSourceOffset = sourceOffset ?? carriedSourceOffset;
+                return {
+                    message,
+                    offset: this.logEndOffset + i + 1,
+                    tags: { sourceOffset: carriedSourceOffset || undefined, deliveryCount, groupId }
+                };
+            }));
             if (!appendResult.success) {
                 return appendResult;
             }
 
-            this.buffer.enqueue(message);
+            freshEntries.forEach(({ message, deliveryCount, groupId }, i) => {
+                const offset = this.logEndOffset + i + 1;
+                if (groupId !== undefined) {
+                    this.redeliveredFor.set(offset, groupId);
+                }
+                this.enqueue(message, offset);
+                const group = groupId !== undefined ? this.groups.get(groupId) : undefined;
+                if (group && deliveryCount) {
+                    group.deliveryCounts.set(offset, deliveryCount);
+                }
+            });
+            this.lastSourceOffset = carriedSourceOffset;
 
-            const updateResult = this.updateLogEndOffset(newLogEndOffset);
+            const updateResult = this.updateLogEndOffset(this.logEndOffset + freshEntries.length);
             if (!updateResult.success) {
                 return updateResult;
             }
+            if (this.groups.size === 0) {
+                const trimResult = this.trimBuffer();
+                if (!trimResult.success) {
+                    return trimResult;
+                }
+            }
+            this.wakeWaiters();
 
             return {
                 success: true,
@@ -281,8 +872,26 @@ class Partition {
         }
     }
 
-    batchExtract(batchSize: number): Response<{ messages: Message[]; startOffset: number; endOffset: number }> {
+    // Start tracking a consumer group, so the buffer is kept for it (for a known one, only mark it active)
+    registerGroup(groupId: GroupId, now: number = Date.now()): void {
+        this.getOrAddGroup(groupId, now);
+    }
+
+    // The offset up to which `groupId` has committed, or undefined if it never consumed this partition
+    getCommittedOffset(groupId: GroupId): number | undefined {
+        return this.groups.get(groupId)?.readOffset;
+    }
+
+    /**
+     * Lease the next `batchSize` messages `groupId` hasn't committed and no other lease of the
+     * group holds to `consumerId`, highest priority first and in offset order within a
+     * priority. Unavailable (leased or expired) messages in front of the batch are skipped;
+     * once the batch has started, it ends at the next one, so a batch of a single priority is
+     * contiguous.
+     */
+    batchExtract(batchSize: number, groupId: GroupId, consumerId: ConsumerId, now: number = Date.now()): Response<{ messages: Message[]; startOffset: number; endOffset: number; lease: Lease }> {
         try {
+            const group = this.getOrAddGroup(groupId, now);
             if (this.buffer.isEmpty()) {
                 return {
                     success: false,
@@ -291,22 +900,50 @@ class Partition {
                 };
             }
 
-            // Use peekBatch to read messages WITHOUT removing them from buffer
-            // Messages will only be removed when consumer calls /commit
-            const batch = this.buffer.peekBatch(batchSize);
+            const batch = this.collectBatch(group, batchSize, now);
+            if (batch.length === 0) {
+                return {
+                    success: false,
+                    errorCode: ERROR_CODES.BUFFER_EMPTY,
+                    error: new Error(`Every pending message of partition ${this.partitionId} is committed, leased or expired for group ${groupId}`)
+                };
+            }
+
+            // Every extraction counts as a delivery of each message in the batch
+            const delivered = batch.map(({ offset, message }) => {
+                const deliveryCount = (group.deliveryCounts.get(offset) ?? 0) + 1;
+                group.deliveryCounts.set(offset, deliveryCount);
+                return { ...message, offset, deliveryCount };
+            });
 
-            // startOffset: current readOffset (last message that was already committed/extracted)
-            // endOffset: what the consumer should commit after processing these messages
-            //            (this becomes the new readOffset = "last message extracted")
-            const startOffset = this.readOffset;
-            const endOffset = this.readOffset + batch.length;
+            // startOffset: the offset just before the first message of the batch
+            // endOffset: the offset of its last message. For a contiguous batch this is what the
+            //            consumer commits after processing it; otherwise it commits the lease.
+            const offsets = batch.map(({ offset }) => offset).sort((a, b) => a - b);
+            const startOffset = offsets[0] - 1;
+            const endOffset = offsets[offsets.length - 1];
+
+            const lease: Lease = {
+                leaseId: randomUUID(),
+                groupId,
+                consumerId,
+                offsets,
+                startOffset,
+                endOffset,
+                expiresAt: now + this.visibilityTimeoutMs
+            };
+            group.leases.set(lease.leaseId, lease);
+            for (const offset of offsets) {
+                group.leasedOffsets.set(offset, lease);
+            }
 
             return {
                 success: true,
                 data: {
-                    messages: batch,
+                    messages: delivered,
                     startOffset,
-                    endOffset
+                    endOffset,
+                    lease: { ...lease, offsets: [...offsets] }
                 }
             };
         } catch (error) {
@@ -318,7 +955,106 @@ class Partition {
         }
     }
 
-    commitOffset(offset: number): Response<{ logEndOffset: number; newReadOffset: number }> {
+    /**
+     * How many messages a `batchExtract` of up to `batchSize` for `groupId` would return right
+     * now, without leasing them.
+     */
+    countAvailable(batchSize: number, groupId: GroupId, now: number = Date.now()): number {
+        if (this.buffer.isEmpty()) {
+            return 0;
+        }
+        return this.collectBatch(this.getOrAddGroup(groupId, now), batchSize, now).length;
+    }
+
+    /**
+     * Resolves once messages are appended to the partition, after `waitMs`, or when `signal`
+     * aborts, whichever comes first. Long-polling consumers check the buffer again then.
+     */
+    waitForMessages(waitMs: number, signal?: AbortSignal): Promise<void> {
+        return new Promise(resolve => {
+            const wake = () => {
+                clearTimeout(timer);
+                signal?.removeEventListener("abort", wake);
+                this.waiters.delete(wake);
+                resolve();
+            };
+            const timer = setTimeout(wake, waitMs);
+            signal?.addEventListener("abort", wake);
+            this.waiters.add(wake);
+        });
+    }
+
+    /**
+     * Push back the expiry of a lease held by `consumerId` of `groupId` to `extendMs` from now
+     * (default: the topic's visibility timeout), for batches that take long to process.
+     */
+    extendLease(leaseId: string, groupId: GroupId, consumerId: ConsumerId, extendMs: number = this.visibilityTimeoutMs, now: number = Date.now()): Response<Lease> {
+        const leaseResult = this.getLease(leaseId, groupId, consumerId, now);
+        if (!leaseResult.success) {
+            return leaseResult;
+        }
+        const lease = this.groups.get(groupId)!.leases.get(leaseId)!;
+        lease.expiresAt = now + extendMs;
+        return {
+            success: true,
+            data: { ...lease, offsets: [...lease.offsets] }
+        };
+    }
+
+    // An active lease held by `consumerId` of `groupId`
+    getLease(leaseId: string, groupId: GroupId, consumerId: ConsumerId, now: number = Date.now()): Response<Lease> {
+        const group = this.groups.get(groupId);
+        if (group) {
+            this.expireLeases(group, now);
+        }
+        const lease = group?.leases.get(leaseId);
+        if (!lease || lease.consumerId !== consumerId) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.LEASE_NOT_FOUND,
+                error: new Error(`Lease ${leaseId} is not held by consumer ${consumerId} of group ${groupId} on partition ${this.partitionId}`)
+            };
+        }
+        return {
+            success: true,
+            data: { ...lease, offsets: [...lease.offsets] }
+        };
+    }
+
+    // An active lease of another consumer of the group that a commit up to `offset` would cut short
+    getConflictingLease(offset: number, groupId: GroupId, consumerId: ConsumerId, now: number = Date.now()): Lease | undefined {
+        const group = this.groups.get(groupId);
+        if (!group) {
+            return undefined;
+        }
+        this.expireLeases(group, now);
+        for (const [, lease] of group.leases) {
+            if (lease.consumerId !== consumerId && lease.offsets[0] <= offset) {
+                return lease;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Hand nothing at or below `offset` to any consumer of the group until the group commits
+     * past it. A committed transaction fences the input offsets it commits, which are only
+     * applied once its output is routed (see `Broker`).
+     */
+    fenceOffset(offset: number, groupId: GroupId): void {
+        this.getOrAddGroup(groupId).fencedOffsets.push(offset);
+    }
+
+    // Lift a fence of a transaction whose commit failed
+    unfenceOffset(offset: number, groupId: GroupId): void {
+        const group = this.groups.get(groupId);
+        const index = group?.fencedOffsets.indexOf(offset) ?? -1;
+        if (index !== -1) {
+            group!.fencedOffsets.splice(index, 1);
+        }
+    }
+
+    commitOffset(offset: number, groupId: GroupId): Response<{ logEndOffset: number; newReadOffset: number }> {
         try {
             // Validate that logEndOffset >= offset
             if (this.logEndOffset < offset) {
@@ -329,15 +1065,21 @@ class Partition {
                 };
             }
 
-            // Calculate how many messages to remove from buffer
-            const messagesToDequeue = offset - this.readOffset;
-            if (messagesToDequeue > 0) {
-                // Actually remove the committed messages from the buffer
-                this.buffer.dequeueBatch(messagesToDequeue);
+            // Committing at or behind the group's readOffset (e.g. after replaying from an
+            // earlier offset) is a no-op
+            const group = this.getOrAddGroup(groupId);
+            if (offset <= group.readOffset) {
+                return {
+                    success: true,
+                    data: {
+                        logEndOffset: this.logEndOffset,
+                        newReadOffset: group.readOffset
+                    }
+                };
             }
 
-            // Update readOffset
-            const updateResult = this.updateReadOffset(offset);
+            // Offsets acknowledged right after the commit are committed with it
+            const updateResult = this.advanceGroupOffset(group, this.getSettledRunEnd(group, offset));
             if (!updateResult.success) {
                 return updateResult as Response<{ logEndOffset: number; newReadOffset: number }>;
             }
@@ -346,7 +1088,7 @@ class Partition {
                 success: true,
                 data: {
                     logEndOffset: this.logEndOffset,
-                    newReadOffset: this.readOffset
+                    newReadOffset: group.readOffset
                 }
             };
         } catch (error) {
@@ -358,12 +1100,233 @@ class Partition {
         }
     }
 
-    getStats(): { logEndOffset: number; readOffset: number; bufferSize: number; pendingMessages: number } {
+    /**
+     * Acknowledge exactly the offsets of a lease (see `getLease`) and release it. The group's
+     * `readOffset` moves forward over them once no uncommitted message is left before them;
+     * until then they are persisted individually.
+     */
+    commitLease(lease: Lease): Response<{ logEndOffset: number; newReadOffset: number; acknowledged: number }> {
+        try {
+            const group = this.getOrAddGroup(lease.groupId);
+            const acknowledged = lease.offsets.filter(offset => offset > group.readOffset && !group.ackedOffsets.has(offset));
+            for (const offset of acknowledged) {
+                group.ackedOffsets.add(offset);
+                group.deliveryCounts.delete(offset);
+                group.nackedOffsets.delete(offset);
+            }
+            this.releaseLease(group, group.leases.get(lease.leaseId) ?? lease);
+
+            const settledRunEnd = this.getSettledRunEnd(group, group.readOffset);
+            if (settledRunEnd > group.readOffset) {
+                const updateResult = this.advanceGroupOffset(group, settledRunEnd);
+                if (!updateResult.success) {
+                    return updateResult;
+                }
+            } else if (acknowledged.length > 0) {
+                this.updateGroupOffsetsFile();
+            }
+
+            return {
+                success: true,
+                data: {
+                    logEndOffset: this.logEndOffset,
+                    newReadOffset: group.readOffset,
+                    acknowledged: acknowledged.length
+                }
+            };
+        } catch (error) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.UNKNOWN_ERROR,
+                error: error
+            };
+        }
+    }
+
+    /**
+     * Reject individual offsets `groupId` hasn't committed. Only offsets of an active lease of
+     * `consumerId` can be nacked. Nothing happens until the group commits past them: `getNacked`
+     * then hands them to the topic to be redelivered (to this group only) or dead-lettered.
+     * Until then they are delivered again like any other uncommitted message.
+     */
+    nack(offsets: number[], groupId: GroupId, consumerId: ConsumerId, now: number = Date.now()): Response<number> {
+        const group = this.getOrAddGroup(groupId, now);
+        const invalid = offsets.find(offset => !Number.isInteger(offset) || offset <= group.readOffset || offset > this.logEndOffset || this.isSettled(group, offset));
+        if (invalid !== undefined) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.INVALID_OFFSET,
+                error: new Error(`Invalid offset: ${invalid} is not an offset group ${groupId} has yet to commit (${group.readOffset + 1}..${this.logEndOffset})`)
+            };
+        }
+        this.expireLeases(group, now);
+        const unleased = offsets.find(offset => group.leasedOffsets.get(offset)?.consumerId !== consumerId);
+        if (unleased !== undefined) {
+            const holder = group.leasedOffsets.get(unleased)?.consumerId;
+            return {
+                success: false,
+                errorCode: ERROR_CODES.LEASE_CONFLICT,
+                error: new Error(holder === undefined
+                    ? `Offset ${unleased} is not leased to consumer ${consumerId} of group ${groupId}`
+                    : `Offset ${unleased} is leased to consumer ${holder} of group ${groupId}`)
+            };
+        }
+        for (const offset of offsets) {
+            group.nackedOffsets.add(offset);
+        }
         return {
+            success: true,
+            data: group.nackedOffsets.size
+        };
+    }
+
+    // Nacked messages of `groupId` a commit would settle (`isCovered` tells which offsets it
+    // covers), with their delivery counts. Expired ones are left to `getExpired`.
+    getNacked(groupId: GroupId, isCovered: (offset: number) => boolean): { offset: number; message: Message; deliveryCount: number }[] {
+        const group = this.groups.get(groupId);
+        if (!group) {
+            return [];
+        }
+        const nacked = [...group.nackedOffsets].filter(nackedOffset => isCovered(nackedOffset) && !this.expiredOffsets.has(nackedOffset)).sort((a, b) => a - b);
+        if (nacked.length === 0) {
+            return [];
+        }
+        const pending = this.buffer.peekBatch(nacked[nacked.length - 1] - this.readOffset);
+        return nacked.map(nackedOffset => ({
+            offset: nackedOffset,
+            message: pending[nackedOffset - this.readOffset - 1],
+            deliveryCount: group.deliveryCounts.get(nackedOffset) ?? 0
+        }));
+    }
+
+    // Expired messages a commit of `groupId` would settle (`isCovered` tells which offsets it covers)
+    getExpired(groupId: GroupId, isCovered: (offset: number) => boolean): { offset: number; message: Message }[] {
+        const group = this.groups.get(groupId);
+        if (!group) {
+            return [];
+        }
+        const expired = [...this.expiredOffsets]
+            .filter(expiredOffset => expiredOffset > group.readOffset && !this.isSettled(group, expiredOffset) && isCovered(expiredOffset))
+            .sort((a, b) => a - b);
+        if (expired.length === 0) {
+            return [];
+        }
+        const pending = this.buffer.peekBatch(expired[expired.length - 1] - this.readOffset);
+        return expired.map(expiredOffset => ({
+            offset: expiredOffset,
+            message: pending[expiredOffset - this.readOffset - 1]
+        }));
+    }
+
+    // Last offset of the run of expired (or already settled) messages right after the group's
+    // readOffset (its readOffset if there is none). Nobody in the group will ever consume them,
+    // so they can be committed without waiting for a consumer.
+    getExpiredHeadEnd(groupId: GroupId): number {
+        const group = this.groups.get(groupId);
+        if (!group) {
+            return this.readOffset;
+        }
+        let end = group.readOffset;
+        while (end < this.logEndOffset && (this.expiredOffsets.has(end + 1) || this.isSettled(group, end + 1))) {
+            end++;
+        }
+        return end;
+    }
+
+    // Group commit: fsync everything appended since the last sync, for `acks: fsync` topics
+    async sync(): Promise<Response<boolean>> {
+        if (this.acks !== "fsync") {
+            return { success: true, data: true };
+        }
+        return this.log.sync();
+    }
+
+    /**
+     * Read up to `maxMessages` messages from the on-disk log starting at `fromOffset`,
+     * independent of the in-memory buffer. Offsets below the oldest retained segment
+     * start at `logStartOffset` instead. `logEndOffset + 1` (caught up) returns no messages.
+     */
+    readRange(fromOffset: number, maxMessages: number): Response<{ messages: Message[]; startOffset: number; endOffset: number }> {
+        if (fromOffset < 1 || fromOffset > this.logEndOffset + 1) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.INVALID_OFFSET,
+                error: new Error(`Invalid offset: ${fromOffset} is outside 1..${this.logEndOffset + 1}`)
+            };
+        }
+
+        const readResult = this.log.read(fromOffset, maxMessages);
+        if (!readResult.success) {
+            return readResult;
+        }
+
+        const entries = readResult.data;
+        // Same convention as batchExtract: startOffset is the offset just before the first
+        // message, endOffset the offset of the last one
+        const startOffset = entries.length > 0 ? entries[0].offset - 1 : fromOffset - 1;
+        const endOffset = entries.length > 0 ? entries[entries.length - 1].offset : fromOffset - 1;
+        return {
+            success: true,
+            data: {
+                messages: entries.map(entry => ({ ...entry.message, offset: entry.offset })),
+                startOffset,
+                endOffset
+            }
+        };
+    }
+
+    // Expire idle consumer groups, then delete committed segments that are past the topic's retention policy.
+    // Offsets are absolute, so logEndOffset/readOffset in the metadata file stay valid.
+    enforceRetention(policy: RetentionPolicy, now: number = Date.now()): Response<number> {
+        const expireResult = this.expireIdleGroups(now);
+        if (!expireResult.success) {
+            return expireResult;
+        }
+        return this.log.enforceRetention(this.readOffset, policy, now);
+    }
+
+    getLogEndOffset(): number {
+        return this.logEndOffset;
+    }
+
+    getLastSourceOffset(): number {
+        return this.lastSourceOffset;
+    }
+
+    getStats(): { logStartOffset: number; logEndOffset: number; readOffset: number; bufferSize: number; segmentCount: number; expiredMessages: number; groups: { groupId: GroupId; readOffset: number; pendingMessages: number; ackedMessages: number; nackedMessages: number; leasedMessages: number; leases: { leaseId: string; consumerId: ConsumerId; startOffset: number; endOffset: number; messageCount: number; expiresAt: string }[] }[] } {
+        const now = Date.now();
+        return {
+            logStartOffset: this.log.getLogStartOffset(),
             logEndOffset: this.logEndOffset,
             readOffset: this.readOffset,
             bufferSize: this.buffer.size(),
-            pendingMessages: this.logEndOffset - this.readOffset
+            segmentCount: this.log.getSegments().length,
+            expiredMessages: this.expiredCount,
+            groups: [...this.groups.values()].map(group => {
+                const activeLeases = [...group.leases.values()].filter(lease => lease.expiresAt > now);
+                let invisible = 0;
+                for (const [offset, redeliveredGroupId] of this.redeliveredFor) {
+                    if (offset > group.readOffset && redeliveredGroupId !== group.groupId) {
+                        invisible++;
+                    }
+                }
+                return {
+                    groupId: group.groupId,
+                    readOffset: group.readOffset,
+                    pendingMessages: this.logEndOffset - group.readOffset - group.ackedOffsets.size - invisible,
+                    ackedMessages: group.ackedOffsets.size,
+                    nackedMessages: group.nackedOffsets.size,
+                    leasedMessages: activeLeases.reduce((total, lease) => total + lease.offsets.length, 0),
+                    leases: activeLeases.map(({ leaseId, consumerId, startOffset, endOffset, offsets, expiresAt }) => ({
+                        leaseId,
+                        consumerId,
+                        startOffset,
+                        endOffset,
+                        messageCount: offsets.length,
+                        expiresAt: new Date(expiresAt).toISOString()
+                    }))
+                };
+            })
         };
     }
 }
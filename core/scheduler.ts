@@ -0,0 +1,326 @@
+import fs from "fs";
+import IngressBuffer from "./ingress-buffer.js";
+import ERROR_CODES from "./shared/error-codes.js";
+import LogFileHandler from "./shared/log-file-handler.js";
+import { recordToMessage } from "./shared/record-codec.js";
+import getEnv from "./shared/env-config.js";
+import { Acks, FilePath, LOG_FILE_TYPE, Message, Response, TopicId } from "./shared/types.js";
+
+type ScheduledMessage = {
+    scheduleId: number;
+    message: Message;
+    deliverAt: number;
+    producerId?: string;
+};
+
+/**
+ * Scheduler
+ *
+ * Durable timer store for delayed messages. A message produced with `deliverAt` / `delayMs`
+ * is appended to `scheduled.log` (tagged with its due time) instead of the ingress log, and
+ * the broker loop releases it into the `IngressBuffer` once it is due. From there it is
+ * routed like any other message.
+ *
+ * `scheduleId`:
+ * The offset of a message's entry in `scheduled.log`. A released message is pushed to the
+ * ingress buffer tagged with its schedule id, then a tombstone (a record tagged with the same
+ * schedule id) is appended here. On boot, entries with a tombstone, or whose schedule id is
+ * already in `ingress.log` (a crash landed between the two writes), count as released, so
+ * every delayed message reaches the ingress log exactly once.
+ *
+ * Retries from an idempotent producer are deduplicated against the pending entries; once
+ * released, the ingress dedup window takes over.
+ *
+ * Released entries are compacted out of `scheduled.log` by the `LogCleaner`.
+ */
+class Scheduler {
+    private static readonly logFilePath: FilePath = `${getEnv().DATA_STORAGE_VOLUME}/scheduled.log` as FilePath;
+    private static readonly RELEASE_BATCH_SIZE: number = 1000;
+    private readonly maxPending: number = 10_000_000;
+    private readonly ingressBuffer: IngressBuffer;
+    private readonly logHandler: LogFileHandler;
+    private readonly pending: Map<number, ScheduledMessage> = new Map();
+    // Schedule id of each pending message from an idempotent producer, by `producerId|messageId`
+    private readonly pendingByProducerMessage: Map<string, number> = new Map();
+    private lastScheduleId: number = 0;
+    // Earliest due time among pending messages, so idle cycles don't scan them all
+    private nextDeliverAt: number = Infinity;
+    // Tombstones appended since the last compaction
+    private releasedSinceCompaction: number = 0;
+    private inFlightAppends: number = 0;
+    private isReleasing: boolean = false;
+
+    constructor(ingressBuffer: IngressBuffer) {
+        console.log("[Scheduler] Initializing Scheduler...");
+        this.ingressBuffer = ingressBuffer;
+
+        this.logHandler = new LogFileHandler({
+            label: LOG_FILE_TYPE.SCHEDULER,
+            filePath: Scheduler.logFilePath
+        });
+
+        const buildResult = this.buildPendingFromLogFile();
+        if (!buildResult.success) {
+            console.error("Error building scheduler from log file:", buildResult.errorCode, buildResult.error);
+            process.exit(1);
+        }
+        console.log(`[Scheduler] Scheduler initialized with ${this.pending.size} pending message(s)`);
+    }
+
+    // Private methods
+    private buildPendingFromLogFile(): Response<boolean> {
+        try {
+            const recoveryResult = LogFileHandler.recover(Scheduler.logFilePath);
+            if (!recoveryResult.success) {
+                return recoveryResult;
+            }
+
+            for (const { record } of recoveryResult.data.records) {
+                this.lastScheduleId = Math.max(this.lastScheduleId, record.offset);
+                if (record.tags.scheduleId !== undefined) {
+                    this.removePending(record.tags.scheduleId);
+                    this.releasedSinceCompaction++;
+                } else if (record.tags.deliverAt !== undefined) {
+                    this.addPending({
+                        scheduleId: record.offset,
+                        message: recordToMessage(record),
+                        deliverAt: record.tags.deliverAt,
+                        producerId: record.tags.producerId
+                    });
+                }
+            }
+
+            // Released just before a crash, without a tombstone. Ids can also outlive their
+            // entry here (after a compaction), so they count towards the next id as well.
+            for (const scheduleId of this.ingressBuffer.getRecoveredScheduleIds()) {
+                this.lastScheduleId = Math.max(this.lastScheduleId, scheduleId);
+                if (this.removePending(scheduleId)) {
+                    console.log(`[Scheduler] Scheduled message ${scheduleId} was already released to the ingress log`);
+                }
+            }
+
+            this.updateNextDeliverAt();
+            return {
+                success: true,
+                data: true
+            };
+        } catch (error) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.BUFFER_BUILD_FAILED,
+                error: error
+            };
+        }
+    }
+
+    private static producerMessageKey(producerId: string, messageId: string): string {
+        return `${producerId}|${messageId}`;
+    }
+
+    private addPending(scheduled: ScheduledMessage): void {
+        this.pending.set(scheduled.scheduleId, scheduled);
+        if (scheduled.producerId !== undefined) {
+            this.pendingByProducerMessage.set(Scheduler.producerMessageKey(scheduled.producerId, scheduled.message.messageId), scheduled.scheduleId);
+        }
+    }
+
+    // Returns whether the message was pending
+    private removePending(scheduleId: number): boolean {
+        const scheduled = this.pending.get(scheduleId);
+        if (!scheduled) {
+            return false;
+        }
+        this.pending.delete(scheduleId);
+        if (scheduled.producerId !== undefined) {
+            this.pendingByProducerMessage.delete(Scheduler.producerMessageKey(scheduled.producerId, scheduled.message.messageId));
+        }
+        return true;
+    }
+
+    private updateNextDeliverAt(): void {
+        this.nextDeliverAt = Infinity;
+        for (const [, scheduled] of this.pending) {
+            this.nextDeliverAt = Math.min(this.nextDeliverAt, scheduled.deliverAt);
+        }
+    }
+
+    private async append(data: Buffer, sync: boolean): Promise<Response<boolean>> {
+        this.inFlightAppends++;
+        try {
+            return await this.logHandler.appendBuffer(data, sync);
+        } finally {
+            this.inFlightAppends--;
+        }
+    }
+
+    // Public methods
+
+    /**
+     * Store a message until `deliverAt` (ms since epoch). Resolves according to `acks` like
+     * `IngressBuffer.push`; `scheduled.log` is fsync'd per write for `acks: fsync`.
+     * A retry of a still pending `(producerId, messageId)` gets the original schedule back.
+     */
+    async schedule(message: Message, deliverAt: number, acks: Acks, producerId?: string): Promise<Response<{ scheduleId: number; deliverAt: number; acks: Acks; duplicate: boolean }>> {
+        try {
+            const duplicateId = producerId !== undefined ? this.pendingByProducerMessage.get(Scheduler.producerMessageKey(producerId, message.messageId)) : undefined;
+            const duplicate = duplicateId !== undefined ? this.pending.get(duplicateId) : undefined;
+            if (duplicate) {
+                console.log(`[Scheduler] Duplicate scheduled message ${message.messageId} from producer ${producerId}, acknowledging schedule ${duplicate.scheduleId}`);
+                return {
+                    success: true,
+                    data: { scheduleId: duplicate.scheduleId, deliverAt: duplicate.deliverAt, acks, duplicate: true }
+                };
+            }
+
+            if (this.pending.size >= this.maxPending) {
+                return {
+                    success: false,
+                    errorCode: ERROR_CODES.BUFFER_FULL,
+                    error: new Error("Scheduler has reached maximum capacity")
+                };
+            }
+
+            const scheduleId = ++this.lastScheduleId;
+            const entry = this.logHandler.formatLogEntry(message, scheduleId, { deliverAt, producerId });
+            this.addPending({ scheduleId, message, deliverAt, producerId });
+            this.nextDeliverAt = Math.min(this.nextDeliverAt, deliverAt);
+
+            const written = this.append(entry, acks === "fsync");
+            if (acks !== "none") {
+                const appendResult = await written;
+                if (!appendResult.success) {
+                    this.removePending(scheduleId);
+                    this.updateNextDeliverAt();
+                    return appendResult;
+                }
+            } else {
+                written.then(appendResult => {
+                    if (!appendResult.success) {
+                        console.error(`[Scheduler] Failed to store scheduled message ${message.messageId}:`, appendResult.errorCode, appendResult.error);
+                    }
+                });
+            }
+
+            console.log(`[Scheduler] Scheduled message ${message.messageId} for topic ${message.topicId} as ${scheduleId}, due at ${new Date(deliverAt).toISOString()}`);
+            return {
+                success: true,
+                data: { scheduleId, deliverAt, acks, duplicate: false }
+            };
+        } catch (error) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.LOG_FILE_APPEND_FAILED,
+                error: error
+            };
+        }
+    }
+
+    /**
+     * Push every message due by `now` to the ingress buffer, earliest first, and record them
+     * as released. Called by the broker loop each cycle; returns the number released.
+     */
+    async releaseDue(now: number = Date.now()): Promise<Response<number>> {
+        if (this.isReleasing || now < this.nextDeliverAt) {
+            return { success: true, data: 0 };
+        }
+        this.isReleasing = true;
+        try {
+            const due = [...this.pending.values()]
+                .filter(({ deliverAt }) => deliverAt <= now)
+                .sort((a, b) => a.deliverAt - b.deliverAt || a.scheduleId - b.scheduleId)
+                .slice(0, Scheduler.RELEASE_BATCH_SIZE);
+
+            // Pushed together so they share an ingress flush; `leader` so the schedule ids are
+            // in ingress.log before the tombstones are written. A delayed message is timestamped
+            // with its due time, so its TTL starts once it can be delivered.
+            const results = await Promise.all(due.map(scheduled =>
+                this.ingressBuffer.push({ ...scheduled.message, timestamp: scheduled.deliverAt }, "leader", scheduled.producerId, scheduled.scheduleId)
+            ));
+
+            const released = due.filter((scheduled, i) => {
+                const result = results[i];
+                if (!result.success) {
+                    console.error(`[Scheduler] Failed to release scheduled message ${scheduled.scheduleId}:`, result.errorCode, result.error);
+                    return false;
+                }
+                return true;
+            });
+            if (released.length === 0) {
+                return { success: true, data: 0 };
+            }
+
+            const tombstones = Buffer.concat(released.map(({ scheduleId, message }) =>
+                this.logHandler.formatLogEntry({ topicId: message.topicId, messageId: message.messageId, content: "" }, scheduleId, { scheduleId })
+            ));
+            for (const { scheduleId } of released) {
+                this.removePending(scheduleId);
+            }
+            this.updateNextDeliverAt();
+            this.releasedSinceCompaction += released.length;
+
+            console.log(`[Scheduler] Released ${released.length} due message(s) to the ingress buffer (${this.pending.size} pending)`);
+            // A lost tombstone is harmless: the schedule id is in ingress.log by now
+            const appendResult = await this.append(tombstones, false);
+            if (!appendResult.success) {
+                console.error("[Scheduler] Failed to append tombstones:", appendResult.errorCode, appendResult.error);
+            }
+            return {
+                success: true,
+                data: released.length
+            };
+        } finally {
+            this.isReleasing = false;
+        }
+    }
+
+    /**
+     * Rewrite `scheduled.log` with only the pending entries. Skipped while a write or a
+     * release is in flight, so nothing lands in the replaced file.
+     */
+    compact(): Response<number> {
+        try {
+            if (this.inFlightAppends > 0 || this.isReleasing || this.releasedSinceCompaction === 0) {
+                return { success: true, data: 0 };
+            }
+
+            const entries = [...this.pending.values()].map(({ scheduleId, message, deliverAt, producerId }) =>
+                this.logHandler.formatLogEntry(message, scheduleId, { deliverAt, producerId })
+            );
+            const tempPath = `${Scheduler.logFilePath}.tmp`;
+            fs.writeFileSync(tempPath, Buffer.concat(entries));
+            fs.renameSync(tempPath, Scheduler.logFilePath);
+
+            const compacted = this.releasedSinceCompaction;
+            this.releasedSinceCompaction = 0;
+            console.log(`[Scheduler] Compacted ${compacted} released entries out of scheduled.log`);
+            return {
+                success: true,
+                data: compacted
+            };
+        } catch (error) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.RETENTION_FAILED,
+                error: error
+            };
+        }
+    }
+
+    getPendingCount(): number {
+        return this.pending.size;
+    }
+
+    getPendingCountByTopic(): Record<TopicId, number> {
+        const counts: Record<TopicId, number> = {};
+        for (const [, { message }] of this.pending) {
+            counts[message.topicId] = (counts[message.topicId] ?? 0) + 1;
+        }
+        return counts;
+    }
+
+    getNextDeliverAt(): number | null {
+        return this.nextDeliverAt === Infinity ? null : this.nextDeliverAt;
+    }
+}
+
+export default Scheduler;
@@ -1,8 +1,8 @@
 import express, { Request, Response } from 'express';
+import { brotliCompressSync, deflateSync, gzipSync } from 'node:zlib';
 import Broker from './broker.js';
-import { Message, TopicId } from './shared/types.js';
+import { ACKS_LEVELS, Acks, DEFAULT_GROUP_ID, Lease, MAX_PRIORITY, Message, Response as ApiResponse, TopicId } from './shared/types.js';
 import { internalTPCMap } from './main.js';
-import { writeTPCLog } from './shared/tpc-helper.js';
 import ERROR_CODES from './shared/error-codes.js';
 
 /**
@@ -11,6 +11,8 @@ import ERROR_CODES from './shared/error-codes.js';
  * Exposes REST API endpoints for producers and consumers to interact with the broker.
  */
 class Server {
+    // Longest a consume request is held open waiting for messages
+    private static readonly MAX_WAIT_MS = 30 * 1000;
     private readonly app: express.Application;
     private readonly broker: Broker;
     private readonly port: number;
@@ -32,25 +34,106 @@ class Server {
         });
     }
 
+    private transactionErrorStatus(errorCode: string): number {
+        switch (errorCode) {
+            case ERROR_CODES.TRANSACTION_NOT_FOUND:
+            case ERROR_CODES.TOPIC_NOT_FOUND:
+            case ERROR_CODES.PARTITION_NOT_FOUND:
+                return 404;
+            case ERROR_CODES.TRANSACTION_TOO_LARGE:
+            case ERROR_CODES.INVALID_OFFSET:
+                return 400;
+            case ERROR_CODES.LEASE_CONFLICT:
+                return 409;
+            default:
+                return 500;
+        }
+    }
+
+    // Validates a produced message's optional `key` and `headers`; returns the error, if any
+    private validateMessageMetadata(message: { key?: unknown; partitionId?: unknown; headers?: unknown }): string | undefined {
+        if (message.key !== undefined && typeof message.key !== 'string') {
+            return 'Invalid key. Expected a string';
+        }
+        if (message.partitionId !== undefined && (!Number.isInteger(message.partitionId) || (message.partitionId as number) < 0)) {
+            return 'Invalid partitionId. Expected a non-negative integer';
+        }
+        if (message.headers !== undefined && (typeof message.headers !== 'object' || message.headers === null || Array.isArray(message.headers)
+            || Object.values(message.headers).some(value => typeof value !== 'string'))) {
+            return 'Invalid headers. Expected an object of string values';
+        }
+        return undefined;
+    }
+
+    // Validates an optional consumer `groupId` (it names lines of the offsets store); returns the error, if any
+    private validateGroupId(groupId: unknown): string | undefined {
+        if (groupId !== undefined && (typeof groupId !== 'string' || !/^[A-Za-z0-9._-]+$/.test(groupId))) {
+            return 'Invalid groupId. Expected a non-empty string of letters, digits, ".", "_" or "-"';
+        }
+        return undefined;
+    }
+
+    // Smaller bodies aren't worth the CPU of compressing
+    private static readonly MIN_COMPRESS_BYTES = 1024;
+    private static readonly RESPONSE_ENCODERS: Record<string, (body: Buffer) => Buffer> = {
+        br: brotliCompressSync,
+        gzip: gzipSync,
+        deflate: deflateSync
+    };
+
+    // Pick the supported encoding with the highest q-value in the Accept-Encoding header
+    private negotiateEncoding(acceptEncoding: string | undefined): string | null {
+        let best: { encoding: string; q: number } | null = null;
+        for (const part of (acceptEncoding ?? '').split(',')) {
+            const [name, ...params] = part.trim().toLowerCase().split(';');
+            const qParam = params.find(param => param.trim().startsWith('q='));
+            const q = qParam ? Number(qParam.trim().slice(2)) : 1;
+            if (Server.RESPONSE_ENCODERS[name] && q > 0 && (!best || q > best.q)) {
+                best = { encoding: name, q };
+            }
+        }
+        return best?.encoding ?? null;
+    }
+
+    // Send a JSON body, compressed with the client's preferred encoding when it's large enough
+    private sendJson(req: Request, res: Response, status: number, payload: unknown): void {
+        const body = Buffer.from(JSON.stringify(payload));
+        const encoding = this.negotiateEncoding(req.headers['accept-encoding']);
+        res.status(status).type('application/json').vary('Accept-Encoding');
+        if (!encoding || body.length < Server.MIN_COMPRESS_BYTES) {
+            res.send(body);
+            return;
+        }
+        res.setHeader('Content-Encoding', encoding);
+        res.send(Server.RESPONSE_ENCODERS[encoding](body));
+    }
+
     private setupRoutes(): void {
         // Consumer registration: POST /register/:topicId
         this.app.post('/register/:topicId', async (req, res) => {
             try {
                 const { topicId } = req.params;
-                const { brokerId, consumerId } = req.body;
+                const { brokerId, consumerId, groupId = DEFAULT_GROUP_ID } = req.body;
 
                 if (!topicId || !brokerId || !consumerId) {
                     return res.status(400).json({
                         success: false,
-                        error: 'Invalid consumer registration format. Expected { topicId, brokerId, consumerId }'
+                        error: 'Invalid consumer registration format. Expected { topicId, brokerId, consumerId, groupId? }'
+                    });
+                }
+                const groupIdError = this.validateGroupId(groupId);
+                if (groupIdError) {
+                    return res.status(400).json({
+                        success: false,
+                        error: groupIdError
                     });
                 }
 
-                // Register consumer with broker
-                const result = await this.broker.registerConsumer(topicId, consumerId);
+                // Join the consumer group, which rebalances it
+                const result = this.broker.groupCoordinator.join(topicId, groupId, consumerId);
 
                 if (!result.success) {
-                    return res.status(500).json(result);
+                    return res.status(result.errorCode === ERROR_CODES.TOPIC_NOT_FOUND ? 404 : 500).json(result);
                 }
 
                 res.status(200).json({
@@ -59,7 +142,11 @@ class Server {
                         topicId,
                         brokerId,
                         consumerId,
-                        partitionId: result.data.partitionId,
+                        groupId,
+                        generation: result.data.generation,
+                        partitionIds: result.data.partitionIds,                 // owned now; more may follow in heartbeats
+                        revokingPartitionIds: result.data.revokingPartitionIds, // owned, but moved to another consumer
+                        sessionTimeoutMs: this.broker.groupCoordinator.getSessionTimeoutMs(),
                         timestamp: new Date().toISOString()
                     }
                 });
@@ -72,6 +159,134 @@ class Server {
             }
         })
 
+        // Consumer heartbeat: POST /heartbeat/:topicId
+        // Keeps the consumer in its group for another session timeout and returns its current
+        // assignment. Partitions in `revokingPartitionIds` have moved to another consumer: commit
+        // them, then list them in `revokedPartitionIds` of the next heartbeat to hand them over.
+        // Once the session has timed out this fails with 404 CONSUMER_NOT_REGISTERED; register again.
+        this.app.post('/heartbeat/:topicId', async (req, res) => {
+            try {
+                const { topicId } = req.params;
+                const { consumerId, groupId = DEFAULT_GROUP_ID, revokedPartitionIds = [] } = req.body;
+
+                if (!topicId || !consumerId || !Array.isArray(revokedPartitionIds) || !revokedPartitionIds.every(Number.isInteger)) {
+                    return res.status(400).json({
+                        success: false,
+                        error: 'Invalid heartbeat format. Expected { consumerId, groupId?, revokedPartitionIds?: number[] }'
+                    });
+                }
+                const groupIdError = this.validateGroupId(groupId);
+                if (groupIdError) {
+                    return res.status(400).json({
+                        success: false,
+                        error: groupIdError
+                    });
+                }
+
+                const result = this.broker.groupCoordinator.heartbeat(topicId, groupId, consumerId, revokedPartitionIds);
+                if (!result.success) {
+                    return res.status(result.errorCode === ERROR_CODES.CONSUMER_NOT_REGISTERED || result.errorCode === ERROR_CODES.TOPIC_NOT_FOUND ? 404 : 500).json(result);
+                }
+
+                res.status(200).json({
+                    success: true,
+                    data: {
+                        topicId,
+                        groupId,
+                        consumerId,
+                        generation: result.data.generation,
+                        partitionIds: result.data.partitionIds,
+                        revokingPartitionIds: result.data.revokingPartitionIds,
+                        sessionExpiresAt: new Date(result.data.expiresAt).toISOString()
+                    }
+                });
+            } catch (error) {
+                console.error('[SERVER] Error in /heartbeat endpoint:', error);
+                res.status(500).json({
+                    success: false,
+                    error: 'Internal server error'
+                });
+            }
+        })
+
+        // Consumer leave: POST /unregister/:topicId
+        // Takes the consumer out of its group right away (rather than once its session times
+        // out): its partitions are released and the group is rebalanced. A final `offset` of
+        // `partitionId` is committed first; if that fails, the consumer stays in the group.
+        this.app.post('/unregister/:topicId', async (req, res) => {
+            try {
+                const { topicId } = req.params;
+                const { consumerId, groupId = DEFAULT_GROUP_ID, partitionId, offset } = req.body;
+
+                if (!topicId || !consumerId || (offset !== undefined && (!Number.isInteger(offset) || offset < 0 || partitionId === undefined))) {
+                    return res.status(400).json({
+                        success: false,
+                        error: 'Invalid unregister format. Expected { consumerId, groupId?, partitionId?, offset? } (a final offset needs its partitionId)'
+                    });
+                }
+                const groupIdError = this.validateGroupId(groupId);
+                if (groupIdError) {
+                    return res.status(400).json({
+                        success: false,
+                        error: groupIdError
+                    });
+                }
+
+                const topic = this.broker.getTopic(topicId);
+                if (!topic) {
+                    return res.status(404).json({
+                        success: false,
+                        error: `Topic ${topicId} not found`
+                    });
+                }
+
+                let newReadOffset: number | undefined;
+                if (offset !== undefined) {
+                    const partitionIdNum = Number(partitionId);
+                    if (!topic.getPartition(partitionIdNum)) {
+                        return res.status(404).json({
+                            success: false,
+                            error: `Partition ${partitionId} not found in topic ${topicId}`
+                        });
+                    }
+                    const commitResult = await topic.commitOffset(partitionIdNum, offset, groupId, consumerId);
+                    if (!commitResult.success) {
+                        const status = commitResult.errorCode === ERROR_CODES.INVALID_OFFSET ? 400
+                            : commitResult.errorCode === ERROR_CODES.LEASE_CONFLICT ? 409
+                            : 500;
+                        return res.status(status).json(commitResult);
+                    }
+                    newReadOffset = commitResult.data.newReadOffset;
+                }
+
+                const result = this.broker.groupCoordinator.leave(topicId, groupId, consumerId);
+                if (!result.success) {
+                    return res.status(result.errorCode === ERROR_CODES.CONSUMER_NOT_REGISTERED || result.errorCode === ERROR_CODES.TOPIC_NOT_FOUND ? 404 : 500).json(result);
+                }
+
+                console.log(`[SERVER] Consumer unregistered - Topic: ${topicId}, Consumer: ${consumerId}, Group: ${groupId}${offset !== undefined ? `, Final offset: ${offset} (partition ${partitionId})` : ''}`);
+
+                res.status(200).json({
+                    success: true,
+                    data: {
+                        topicId,
+                        groupId,
+                        consumerId,
+                        releasedPartitionIds: result.data.releasedPartitionIds,
+                        offset,
+                        newReadOffset,
+                        timestamp: new Date().toISOString()
+                    }
+                });
+            } catch (error) {
+                console.error('[SERVER] Error in /unregister endpoint:', error);
+                res.status(500).json({
+                    success: false,
+                    error: 'Internal server error'
+                });
+            }
+        });
+
         // Stats endpoint: GET /stats
         this.app.get('/stats', async (req, res) => {
             try {
@@ -96,27 +311,134 @@ class Server {
         this.app.post('/ingress/:topicId', async (req, res) => {
             try {
                 const { topicId } = req.params;
-                const { brokerId, message } = req.body;
+                const { brokerId, message, acks, producerId, deliverAt, delayMs, ttlMs, priority } = req.body;
 
-                // TODO: Validate the brokerId and topicId exists or not
+                // TODO: Validate the brokerId exists or not
 
                 if (!message || !message.messageId || !message.content) {
                     return res.status(400).json({
                         success: false,
-                        error: 'Invalid message format. Expected { messageId, content }'
+                        error: 'Invalid message format. Expected { messageId, content, key?, partitionId?, headers? }'
                     });
                 }
 
+                const metadataError = this.validateMessageMetadata(message);
+                if (metadataError) {
+                    return res.status(400).json({
+                        success: false,
+                        error: metadataError
+                    });
+                }
+
+                if (acks !== undefined && !ACKS_LEVELS.includes(acks)) {
+                    return res.status(400).json({
+                        success: false,
+                        error: `Invalid acks. Expected one of: ${ACKS_LEVELS.join(', ')}`
+                    });
+                }
+
+                if (producerId !== undefined && (typeof producerId !== 'string' || !producerId)) {
+                    return res.status(400).json({
+                        success: false,
+                        error: 'Invalid producerId. Expected a non-empty string'
+                    });
+                }
+
+                if (ttlMs !== undefined && (typeof ttlMs !== 'number' || !Number.isFinite(ttlMs) || ttlMs <= 0)) {
+                    return res.status(400).json({
+                        success: false,
+                        error: 'Invalid ttlMs. Expected a positive number of milliseconds'
+                    });
+                }
+
+                if (priority !== undefined && (!Number.isInteger(priority) || priority < 0 || priority > MAX_PRIORITY)) {
+                    return res.status(400).json({
+                        success: false,
+                        error: `Invalid priority. Expected an integer from 0 to ${MAX_PRIORITY}`
+                    });
+                }
+
+                // A message is delayed by either an absolute time (ms since epoch or ISO 8601) or a delay
+                if (deliverAt !== undefined && delayMs !== undefined) {
+                    return res.status(400).json({
+                        success: false,
+                        error: 'Specify either deliverAt or delayMs, not both'
+                    });
+                }
+                if (delayMs !== undefined && (typeof delayMs !== 'number' || !Number.isFinite(delayMs) || delayMs < 0)) {
+                    return res.status(400).json({
+                        success: false,
+                        error: 'Invalid delayMs. Expected a non-negative number of milliseconds'
+                    });
+                }
+                const dueAt = delayMs !== undefined ? Date.now() + delayMs
+                    : typeof deliverAt === 'number' ? deliverAt
+                    : typeof deliverAt === 'string' ? Date.parse(deliverAt)
+                    : deliverAt === undefined ? undefined : NaN;
+                if (dueAt !== undefined && !Number.isFinite(dueAt)) {
+                    return res.status(400).json({
+                        success: false,
+                        error: 'Invalid deliverAt. Expected milliseconds since epoch or an ISO 8601 date'
+                    });
+                }
+
+                // The topic's configured durability applies unless the request overrides it
+                const topic = this.broker.getTopic(topicId);
+                if (!topic) {
+                    return res.status(404).json({
+                        success: false,
+                        error: `Topic ${topicId} not found`
+                    });
+                }
+                const requestedAcks: Acks = acks ?? topic.getAcks();
+
                 // Create message object matching internal format
                 const internalMessage: Message = {
                     topicId: topicId as TopicId,
                     messageId: String(message.messageId), // Ensure messageId is string
-                    content: message.content
+                    content: message.content,
+                    key: message.key,
+                    partitionId: message.partitionId,
+                    headers: message.headers,
+                    ttlMs, // Overrides the topic's default TTL
+                    priority
                 };
 
+                // Rejected now rather than when the broker fails to route it
+                const placement = topic.validatePlacement(internalMessage);
+                if (!placement.isValid) {
+                    return res.status(400).json({
+                        success: false,
+                        error: placement.error
+                    });
+                }
+
+                // Messages due in the future wait in the scheduler; the rest go straight to ingress
+                if (dueAt !== undefined && dueAt > Date.now()) {
+                    const scheduleResult = await this.broker.scheduler.schedule(internalMessage, dueAt, requestedAcks, producerId);
+                    if (!scheduleResult.success) {
+                        return res.status(500).json(scheduleResult);
+                    }
+
+                    return res.status(200).json({
+                        success: true,
+                        data: {
+                            messageId: message.messageId,
+                            topicId,
+                            offset: null, // Assigned when the message is due and released to ingress
+                            scheduleId: scheduleResult.data.scheduleId,
+                            deliverAt: new Date(scheduleResult.data.deliverAt).toISOString(),
+                            acks: scheduleResult.data.acks,
+                            duplicate: scheduleResult.data.duplicate,
+                            timestamp: new Date().toISOString()
+                        }
+                    });
+                }
+
                 // Push message to ingress buffer
                 console.log("DEBUG | SERVER | pushing into ingress buffer")
-                const result = await this.broker.ingressBuffer.push(internalMessage);
+                // With a producerId, a retry of an already accepted message gets its original offset back
+                const result = await this.broker.ingressBuffer.push(internalMessage, requestedAcks, producerId);
 
                 if (!result.success) {
                     return res.status(500).json(result);
@@ -127,6 +449,9 @@ class Server {
                     data: {
                         messageId: message.messageId,
                         topicId,
+                        offset: result.data.offset,
+                        acks: result.data.acks, // Durability level reached before this response
+                        duplicate: result.data.duplicate,
                         timestamp: new Date().toISOString()
                     }
                 });
@@ -139,15 +464,372 @@ class Server {
             }
         });
 
-        // Consumer endpoint: GET /consume/:brokerId/:topicId/:partitionId
+        // Transactions: POST /transactions, then POST /transactions/:transactionId/{messages,offsets,commit,abort}
+        // Messages are staged on the broker and only reach the log (and consumers) on commit
+        this.app.post('/transactions', async (req, res) => {
+            try {
+                const { brokerId } = req.body;
+                if (!brokerId) {
+                    return res.status(400).json({
+                        success: false,
+                        error: 'Invalid transaction format. Expected { brokerId }'
+                    });
+                }
+
+                const result = this.broker.ingressBuffer.beginTransaction();
+                if (!result.success) {
+                    return res.status(500).json(result);
+                }
+
+                res.status(200).json({
+                    success: true,
+                    data: {
+                        transactionId: result.data,
+                        timestamp: new Date().toISOString()
+                    }
+                });
+            } catch (error) {
+                console.error('[SERVER] Error in /transactions endpoint:', error);
+                res.status(500).json({
+                    success: false,
+                    error: 'Internal server error'
+                });
+            }
+        });
+
+        this.app.post('/transactions/:transactionId/messages', async (req, res) => {
+            try {
+                const { transactionId } = req.params;
+                const { topicId, message } = req.body;
+
+                if (!topicId || !message || !message.messageId || !message.content) {
+                    return res.status(400).json({
+                        success: false,
+                        error: 'Invalid message format. Expected { topicId, message: { messageId, content, key?, partitionId?, headers? } }'
+                    });
+                }
+                const metadataError = this.validateMessageMetadata(message);
+                if (metadataError) {
+                    return res.status(400).json({
+                        success: false,
+                        error: metadataError
+                    });
+                }
+                const topic = this.broker.getTopic(topicId);
+                if (!topic) {
+                    return res.status(404).json({
+                        success: false,
+                        error: `Topic ${topicId} not found`
+                    });
+                }
+
+                const internalMessage: Message = {
+                    topicId: topicId as TopicId,
+                    messageId: String(message.messageId),
+                    content: message.content,
+                    key: message.key,
+                    partitionId: message.partitionId,
+                    headers: message.headers
+                };
+                const placement = topic.validatePlacement(internalMessage);
+                if (!placement.isValid) {
+                    return res.status(400).json({
+                        success: false,
+                        error: placement.error
+                    });
+                }
+
+                const result = this.broker.ingressBuffer.addToTransaction(transactionId, internalMessage);
+                if (!result.success) {
+                    return res.status(this.transactionErrorStatus(result.errorCode)).json(result);
+                }
+
+                res.status(200).json({
+                    success: true,
+                    data: {
+                        transactionId,
+                        messageId: message.messageId,
+                        topicId,
+                        messageCount: result.data
+                    }
+                });
+            } catch (error) {
+                console.error('[SERVER] Error in /transactions/:transactionId/messages endpoint:', error);
+                res.status(500).json({
+                    success: false,
+                    error: 'Internal server error'
+                });
+            }
+        });
+
+        // Consume-transform-produce: commit an input partition up to `offset` together with the
+        // transaction's output messages
+        this.app.post('/transactions/:transactionId/offsets', async (req, res) => {
+            try {
+                const { transactionId } = req.params;
+                const { topicId, partitionId, consumerId, offset, groupId = DEFAULT_GROUP_ID } = req.body;
+
+                if (!topicId || !consumerId || partitionId === undefined || !Number.isInteger(offset) || offset < 0) {
+                    return res.status(400).json({
+                        success: false,
+                        error: 'Invalid offset commit format. Expected { topicId, partitionId, consumerId, offset, groupId? }'
+                    });
+                }
+                const groupIdError = this.validateGroupId(groupId);
+                if (groupIdError) {
+                    return res.status(400).json({
+                        success: false,
+                        error: groupIdError
+                    });
+                }
+
+                const topic = this.broker.getTopic(topicId);
+                if (!topic) {
+                    return res.status(404).json({
+                        success: false,
+                        error: `Topic ${topicId} not found`
+                    });
+                }
+
+                const partitionIdNum = Number(partitionId);
+                const partition = topic.getPartition(partitionIdNum);
+                if (!partition) {
+                    return res.status(404).json({
+                        success: false,
+                        error: `Partition ${partitionId} not found in topic ${topicId}`
+                    });
+                }
+
+                // Checked now, so the transaction doesn't commit output for an input it can't commit
+                const { logEndOffset } = partition.getStats();
+                if (offset > logEndOffset) {
+                    return res.status(400).json({
+                        success: false,
+                        errorCode: ERROR_CODES.INVALID_OFFSET,
+                        error: `Invalid offset: ${offset} exceeds logEndOffset: ${logEndOffset}`
+                    });
+                }
+                const conflictingLease = partition.getConflictingLease(offset, groupId, consumerId);
+                if (conflictingLease) {
+                    return res.status(409).json({
+                        success: false,
+                        errorCode: ERROR_CODES.LEASE_CONFLICT,
+                        error: `Offsets ${conflictingLease.startOffset + 1}..${conflictingLease.endOffset} are leased to consumer ${conflictingLease.consumerId}`
+                    });
+                }
+
+                const result = this.broker.ingressBuffer.addOffsetCommitToTransaction(transactionId, topicId as TopicId, {
+                    partitionId: partitionIdNum,
+                    consumerId,
+                    groupId,
+                    offset
+                });
+                if (!result.success) {
+                    return res.status(this.transactionErrorStatus(result.errorCode)).json(result);
+                }
+
+                res.status(200).json({
+                    success: true,
+                    data: {
+                        transactionId,
+                        topicId,
+                        partitionId: partitionIdNum,
+                        consumerId,
+                        groupId,
+                        offset,
+                        offsetCommitCount: result.data
+                    }
+                });
+            } catch (error) {
+                console.error('[SERVER] Error in /transactions/:transactionId/offsets endpoint:', error);
+                res.status(500).json({
+                    success: false,
+                    error: 'Internal server error'
+                });
+            }
+        });
+
+        this.app.post('/transactions/:transactionId/commit', async (req, res) => {
+            try {
+                const { transactionId } = req.params;
+                const { acks } = req.body;
+
+                if (acks !== undefined && !ACKS_LEVELS.includes(acks)) {
+                    return res.status(400).json({
+                        success: false,
+                        error: `Invalid acks. Expected one of: ${ACKS_LEVELS.join(', ')}`
+                    });
+                }
+
+                // Without an override, a commit is as durable as the strictest topic it writes to
+                const topicAcks = this.broker.ingressBuffer.getTransactionTopics(transactionId)
+                    .map(topicId => this.broker.getTopic(topicId)?.getAcks() ?? "leader");
+                const requestedAcks: Acks = acks ?? topicAcks.reduce<Acks>(
+                    (strictest, level) => ACKS_LEVELS.indexOf(level) > ACKS_LEVELS.indexOf(strictest) ? level : strictest,
+                    "none"
+                );
+
+                const result = await this.broker.commitTransaction(transactionId, requestedAcks);
+                if (!result.success) {
+                    return res.status(this.transactionErrorStatus(result.errorCode)).json(result);
+                }
+
+                res.status(200).json({
+                    success: true,
+                    data: {
+                        transactionId,
+                        messageCount: result.data.endOffset - result.data.startOffset - result.data.offsetCommits,
+                        offsetCommits: result.data.offsetCommits, // input partitions committed with the output
+                        startOffset: result.data.startOffset,
+                        endOffset: result.data.endOffset,
+                        acks: result.data.acks,
+                        timestamp: new Date().toISOString()
+                    }
+                });
+            } catch (error) {
+                console.error('[SERVER] Error in /transactions/:transactionId/commit endpoint:', error);
+                res.status(500).json({
+                    success: false,
+                    error: 'Internal server error'
+                });
+            }
+        });
+
+        this.app.post('/transactions/:transactionId/abort', async (req, res) => {
+            try {
+                const { transactionId } = req.params;
+
+                const result = this.broker.ingressBuffer.abortTransaction(transactionId);
+                if (!result.success) {
+                    return res.status(this.transactionErrorStatus(result.errorCode)).json(result);
+                }
+
+                res.status(200).json({
+                    success: true,
+                    data: {
+                        transactionId,
+                        discardedMessages: result.data,
+                        timestamp: new Date().toISOString()
+                    }
+                });
+            } catch (error) {
+                console.error('[SERVER] Error in /transactions/:transactionId/abort endpoint:', error);
+                res.status(500).json({
+                    success: false,
+                    error: 'Internal server error'
+                });
+            }
+        });
+
+        // Partition offsets: GET /offsets/:topicId/:partitionId?groupId=G
+        // `readOffset` is the lowest committed offset of any consumer group; with `groupId`,
+        // `committedOffset` is that group's (null if it never consumed the partition).
+        this.app.get('/offsets/:topicId/:partitionId', async (req, res) => {
+            try {
+                const { topicId, partitionId } = req.params;
+                const { groupId } = req.query;
+
+                const groupIdError = this.validateGroupId(groupId);
+                if (groupIdError) {
+                    return res.status(400).json({
+                        success: false,
+                        error: groupIdError
+                    });
+                }
+
+                const topic = this.broker.getTopic(topicId);
+                if (!topic) {
+                    return res.status(404).json({
+                        success: false,
+                        error: `Topic ${topicId} not found`
+                    });
+                }
+
+                const partition = topic.getPartition(Number(partitionId));
+                if (!partition) {
+                    return res.status(404).json({
+                        success: false,
+                        error: `Partition ${partitionId} not found in topic ${topicId}`
+                    });
+                }
+
+                const { logStartOffset, logEndOffset, readOffset } = partition.getStats();
+                res.status(200).json({
+                    success: true,
+                    data: {
+                        topicId,
+                        partitionId: Number(partitionId),
+                        logStartOffset,
+                        logEndOffset,
+                        readOffset,
+                        groupId,
+                        committedOffset: groupId !== undefined ? partition.getCommittedOffset(groupId as string) ?? null : undefined
+                    }
+                });
+            } catch (error) {
+                console.error('[SERVER] Error in /offsets endpoint:', error);
+                res.status(500).json({
+                    success: false,
+                    error: 'Internal server error'
+                });
+            }
+        });
+
+        // Consumer endpoint: GET /consume/:brokerId/:topicId/:partitionId?b=t&consumerId=C&groupId=G&fromOffset=N
+        // Without `fromOffset` the next messages `groupId` (default: "default") hasn't committed and
+        // no other consumer of the group has leased are returned, leased to `consumerId` for the
+        // topic's visibility timeout.
+        // `waitMs` long-polls: the request is held open until `minMessages` (default: 1) are
+        // available or `waitMs` has passed, instead of returning an empty result right away.
+        // A group member's request also returns (empty) as soon as another of its partitions
+        // has messages.
+        // With `fromOffset` messages are read from the on-disk log starting at that offset,
+        // so any retained offset can be replayed; `waitMs` waits for messages past the end.
         this.app.get('/consume/:brokerId/:topicId/:partitionId', async (req, res) => {
             try {
                 const { brokerId, topicId, partitionId } = req.params;
-                const { b } = req.query; // batch flag
+                const { b, fromOffset, consumerId, groupId = DEFAULT_GROUP_ID } = req.query; // batch flag, lease holder, its group, optional replay offset
 
                 const isBatch = b === 't' || b === 'true';
 
-                console.log(`[SERVER] Consume request - Broker: ${brokerId}, Topic: ${topicId}, Partition: ${partitionId}, Batch: ${isBatch}`);
+                const waitMs = req.query.waitMs !== undefined ? Number(req.query.waitMs) : 0;
+                if (!Number.isInteger(waitMs) || waitMs < 0 || waitMs > Server.MAX_WAIT_MS) {
+                    return res.status(400).json({
+                        success: false,
+                        error: `Invalid waitMs. Expected an integer from 0 to ${Server.MAX_WAIT_MS}`
+                    });
+                }
+                const minMessages = req.query.minMessages !== undefined ? Number(req.query.minMessages) : 1;
+                if (!Number.isInteger(minMessages) || minMessages < 1) {
+                    return res.status(400).json({
+                        success: false,
+                        error: 'Invalid minMessages. Expected a positive integer'
+                    });
+                }
+
+                const replayOffset = fromOffset !== undefined ? Number(fromOffset) : undefined;
+                if (replayOffset !== undefined && (!Number.isInteger(replayOffset) || replayOffset < 1)) {
+                    return res.status(400).json({
+                        success: false,
+                        error: 'Invalid fromOffset. Expected a positive integer'
+                    });
+                }
+
+                if (replayOffset === undefined && (typeof consumerId !== 'string' || !consumerId)) {
+                    return res.status(400).json({
+                        success: false,
+                        error: 'Missing consumerId. Consumed batches are leased to the consumer that takes them'
+                    });
+                }
+                const groupIdError = this.validateGroupId(groupId);
+                if (groupIdError) {
+                    return res.status(400).json({
+                        success: false,
+                        error: groupIdError
+                    });
+                }
+
+                console.log(`[SERVER] Consume request - Broker: ${brokerId}, Topic: ${topicId}, Partition: ${partitionId}, Consumer: ${consumerId ?? '-'}, Group: ${groupId}, Batch: ${isBatch}, FromOffset: ${replayOffset ?? '-'}, WaitMs: ${waitMs}`);
 
                 // Get topic from broker
                 const topic = this.broker.getTopic(topicId);
@@ -168,40 +850,44 @@ class Server {
                     });
                 }
 
-                // Extract messages from partition buffer
                 const batchSize = isBatch ? 5000 : 1;
 
-                // Accumulate messages until batchSize is reached or buffer is empty
-                const allMessages: any[] = [];
-                let firstStartOffset = 0;
-                let lastEndOffset = 0;
-                let isFirstExtract = true;
-
-                while (allMessages.length < batchSize) {
-                    const remaining = batchSize - allMessages.length;
-                    const extractResult = partition.batchExtract(remaining);
-
-                    if (!extractResult.success) {
-                        // Buffer is empty — break out and return what we have so far
-                        if (extractResult.errorCode === ERROR_CODES.BUFFER_EMPTY) {
-                            break;
-                        }
-                        return res.status(500).json(extractResult);
+                // Consuming counts as a heartbeat (a no-op for a consumer that is not a group member).
+                // Only the consumer that owns the partition in its group may lease from it.
+                if (replayOffset === undefined) {
+                    this.broker.groupCoordinator.heartbeat(topicId, groupId as string, consumerId as string);
+                    const ownershipResult = this.broker.groupCoordinator.checkOwnership(topicId, groupId as string, consumerId as string, partitionIdNum);
+                    if (!ownershipResult.success) {
+                        return res.status(409).json(ownershipResult);
                     }
+                }
 
-                    const { messages, startOffset, endOffset } = extractResult.data;
-                    if (messages.length === 0) break;
+                // Stop waiting for messages once the consumer disconnects, or once its other
+                // partitions have messages (it fetches those next)
+                const disconnected = new AbortController();
+                res.on('close', () => disconnected.abort());
+                const wakeOn = typeof consumerId === 'string' && consumerId
+                    ? this.broker.groupCoordinator.getOwnedPartitionIds(topicId, groupId as string, consumerId)
+                    : [];
 
-                    if (isFirstExtract) {
-                        firstStartOffset = startOffset;
-                        isFirstExtract = false;
+                // batchExtract peeks the buffer past any leased or expired offsets, so a single call
+                // returns everything available up to batchSize
+                const extractResult: ApiResponse<{ messages: Message[]; startOffset: number; endOffset: number; lease?: Lease }> = replayOffset !== undefined
+                    ? await topic.readRange(partitionIdNum, replayOffset, batchSize, { waitMs, minMessages, signal: disconnected.signal, wakeOn })
+                    : await topic.batchExtract(partitionIdNum, batchSize, groupId as string, consumerId as string, { waitMs, minMessages, signal: disconnected.signal, wakeOn });
+
+                if (!extractResult.success) {
+                    if (extractResult.errorCode === ERROR_CODES.INVALID_OFFSET) {
+                        return res.status(400).json(extractResult);
+                    }
+                    // Buffer is empty — fall through to the empty result
+                    if (extractResult.errorCode !== ERROR_CODES.BUFFER_EMPTY) {
+                        return res.status(500).json(extractResult);
                     }
-                    lastEndOffset = endOffset;
-                    allMessages.push(...messages);
                 }
 
                 // If we collected nothing, return empty result
-                if (allMessages.length === 0) {
+                if (!extractResult.success || extractResult.data.messages.length === 0) {
                     return res.status(200).json({
                         success: true,
                         data: {
@@ -213,13 +899,18 @@ class Server {
                     });
                 }
 
-                res.status(200).json({
+                // Messages are decompressed on read; the response is re-encoded per Accept-Encoding
+                const { messages, startOffset, endOffset, lease } = extractResult.data;
+                this.sendJson(req, res, 200, {
                     success: true,
                     data: {
-                        messages: isBatch ? allMessages : (allMessages[0] || null),
-                        count: allMessages.length,
-                        startOffset: firstStartOffset,
-                        endOffset: lastEndOffset  // Consumer should commit this offset after processing
+                        messages: isBatch ? messages : (messages[0] || null),
+                        count: messages.length,
+                        startOffset,
+                        endOffset,  // Consumer should commit this offset after processing (or the lease, if the batch skipped offsets)
+                        contiguous: lease ? lease.offsets.length === endOffset - startOffset : true,
+                        leaseId: lease?.leaseId,
+                        leaseExpiresAt: lease ? new Date(lease.expiresAt).toISOString() : undefined
                     }
                 });
             } catch (error) {
@@ -234,12 +925,20 @@ class Server {
         // Commit offset endpoint: POST /commit
         this.app.post('/commit', async (req, res) => {
             try {
-                const { brokerId, topicId, partitionId, consumerId, offset } = req.body;
+                const { brokerId, topicId, partitionId, consumerId, offset, leaseId, groupId = DEFAULT_GROUP_ID } = req.body;
 
-                if (typeof offset !== 'number' || !topicId || !consumerId || partitionId === undefined) {
+                // Either everything up to `offset`, or exactly the batch leased as `leaseId`
+                if ((typeof offset !== 'number') === (typeof leaseId !== 'string') || (offset !== undefined && (!Number.isInteger(offset) || offset < 0)) || !topicId || !consumerId || partitionId === undefined) {
                     return res.status(400).json({
                         success: false,
-                        error: 'Invalid commit format. Expected { brokerId, topicId, partitionId, consumerId, offset }'
+                        error: 'Invalid commit format. Expected { brokerId, topicId, partitionId, consumerId, offset, groupId? } or { brokerId, topicId, partitionId, consumerId, leaseId, groupId? }'
+                    });
+                }
+                const groupIdError = this.validateGroupId(groupId);
+                if (groupIdError) {
+                    return res.status(400).json({
+                        success: false,
+                        error: groupIdError
                     });
                 }
 
@@ -278,30 +977,40 @@ class Server {
                     });
                 }
 
-                // Commit offset - validates logEndOffset >= offset and updates readOffset
-                const commitResult = partition.commitOffset(offset);
+                // Commit offset - validates logEndOffset >= offset, settles the group's nacked messages and updates its readOffset.
+                // A lease commit acknowledges only the batch's own offsets.
+                const commitResult: ApiResponse<{ logEndOffset: number; newReadOffset: number; acknowledged?: number; redelivered: number; deadLettered: number; expired: number }> = leaseId !== undefined
+                    ? await topic.commitLease(partitionIdNum, leaseId, groupId, consumerId)
+                    : await topic.commitOffset(partitionIdNum, offset, groupId, consumerId);
                 if (!commitResult.success) {
-                    return res.status(400).json(commitResult);
+                    const status = commitResult.errorCode === ERROR_CODES.INVALID_OFFSET ? 400
+                        : commitResult.errorCode === ERROR_CODES.LEASE_NOT_FOUND ? 404
+                        : commitResult.errorCode === ERROR_CODES.LEASE_CONFLICT ? 409
+                        : 500;
+                    return res.status(status).json(commitResult);
                 }
 
-                // Update TPC Map with consumer assignment
-                partitionMap.set(partitionIdNum, consumerId);
+                // Committing counts as a heartbeat; partitions are only assigned by rebalancing
+                this.broker.groupCoordinator.heartbeat(topicId, groupId, consumerId);
 
-                // Persist TPC Map to TPC.log
-                writeTPCLog(internalTPCMap);
-
-                console.log(`[SERVER] Commit offset - Topic: ${topicId}, Partition: ${partitionId}, Consumer: ${consumerId}, Offset: ${offset}`);
+                console.log(`[SERVER] Commit offset - Topic: ${topicId}, Partition: ${partitionId}, Consumer: ${consumerId}, Group: ${groupId}, ${leaseId !== undefined ? `Lease: ${leaseId}` : `Offset: ${offset}`}`);
 
                 res.status(200).json({
                     success: true,
                     data: {
                         committed: true,
                         offset,
+                        leaseId,
                         topicId,
                         partitionId: partitionIdNum,
                         consumerId,
+                        groupId,
                         logEndOffset: commitResult.data.logEndOffset,
                         newReadOffset: commitResult.data.newReadOffset,
+                        acknowledged: commitResult.data.acknowledged, // lease commits: messages of the batch committed
+                        redelivered: commitResult.data.redelivered,   // nacked messages appended again
+                        deadLettered: commitResult.data.deadLettered, // nacked or expired messages moved to the dead-letter topic
+                        expired: commitResult.data.expired,           // expired messages settled (dropped or dead-lettered)
                         timestamp: new Date().toISOString()
                     }
                 });
@@ -313,6 +1022,140 @@ class Server {
                 });
             }
         });
+
+        // Lease extension: POST /leases/:leaseId/extend
+        // Keeps a consumed batch reserved for its consumer for another `extendMs` (default: the
+        // topic's visibility timeout) from now.
+        this.app.post('/leases/:leaseId/extend', async (req, res) => {
+            try {
+                const { leaseId } = req.params;
+                const { topicId, partitionId, consumerId, extendMs, groupId = DEFAULT_GROUP_ID } = req.body;
+
+                if (!topicId || !consumerId || partitionId === undefined || (extendMs !== undefined && (typeof extendMs !== 'number' || extendMs <= 0))) {
+                    return res.status(400).json({
+                        success: false,
+                        error: 'Invalid lease extension format. Expected { topicId, partitionId, consumerId, extendMs?, groupId? }'
+                    });
+                }
+                const groupIdError = this.validateGroupId(groupId);
+                if (groupIdError) {
+                    return res.status(400).json({
+                        success: false,
+                        error: groupIdError
+                    });
+                }
+
+                const topic = this.broker.getTopic(topicId);
+                if (!topic) {
+                    return res.status(404).json({
+                        success: false,
+                        error: `Topic ${topicId} not found`
+                    });
+                }
+
+                const partitionIdNum = Number(partitionId);
+                const partition = topic.getPartition(partitionIdNum);
+                if (!partition) {
+                    return res.status(404).json({
+                        success: false,
+                        error: `Partition ${partitionId} not found in topic ${topicId}`
+                    });
+                }
+
+                // An expired lease can't be extended: its batch may already be leased again
+                const extendResult = partition.extendLease(leaseId, groupId, consumerId, extendMs);
+                if (!extendResult.success) {
+                    return res.status(404).json(extendResult);
+                }
+
+                console.log(`[SERVER] Lease extended - Topic: ${topicId}, Partition: ${partitionId}, Consumer: ${consumerId}, Lease: ${leaseId}`);
+
+                res.status(200).json({
+                    success: true,
+                    data: {
+                        leaseId,
+                        topicId,
+                        partitionId: partitionIdNum,
+                        consumerId,
+                        startOffset: extendResult.data.startOffset,
+                        endOffset: extendResult.data.endOffset,
+                        leaseExpiresAt: new Date(extendResult.data.expiresAt).toISOString()
+                    }
+                });
+            } catch (error) {
+                console.error('[SERVER] Error in /leases/:leaseId/extend endpoint:', error);
+                res.status(500).json({
+                    success: false,
+                    error: 'Internal server error'
+                });
+            }
+        });
+
+        // Negative acknowledgement: POST /nack
+        // Rejects individual offsets of a consumed batch. They are redelivered to the consumer's group
+        // (or dead-lettered after `maxDeliveries`) once it commits past them.
+        this.app.post('/nack', async (req, res) => {
+            try {
+                const { topicId, partitionId, consumerId, offsets, groupId = DEFAULT_GROUP_ID } = req.body;
+
+                if (!Array.isArray(offsets) || offsets.length === 0 || !topicId || !consumerId || partitionId === undefined) {
+                    return res.status(400).json({
+                        success: false,
+                        error: 'Invalid nack format. Expected { brokerId, topicId, partitionId, consumerId, offsets: number[], groupId? }'
+                    });
+                }
+                const groupIdError = this.validateGroupId(groupId);
+                if (groupIdError) {
+                    return res.status(400).json({
+                        success: false,
+                        error: groupIdError
+                    });
+                }
+
+                const topic = this.broker.getTopic(topicId);
+                if (!topic) {
+                    return res.status(404).json({
+                        success: false,
+                        error: `Topic ${topicId} not found`
+                    });
+                }
+
+                const partitionIdNum = Number(partitionId);
+                const partition = topic.getPartition(partitionIdNum);
+                if (!partition) {
+                    return res.status(404).json({
+                        success: false,
+                        error: `Partition ${partitionId} not found in topic ${topicId}`
+                    });
+                }
+
+                const nackResult = partition.nack(offsets, groupId, consumerId);
+                if (!nackResult.success) {
+                    const status = nackResult.errorCode === ERROR_CODES.LEASE_CONFLICT ? 409 : 400;
+                    return res.status(status).json(nackResult);
+                }
+
+                console.log(`[SERVER] Nack - Topic: ${topicId}, Partition: ${partitionId}, Consumer: ${consumerId}, Offsets: ${offsets.join(',')}`);
+
+                res.status(200).json({
+                    success: true,
+                    data: {
+                        topicId,
+                        partitionId: partitionIdNum,
+                        consumerId,
+                        offsets,
+                        pendingNacks: nackResult.data,
+                        timestamp: new Date().toISOString()
+                    }
+                });
+            } catch (error) {
+                console.error('[SERVER] Error in /nack endpoint:', error);
+                res.status(500).json({
+                    success: false,
+                    error: 'Internal server error'
+                });
+            }
+        });
     }
 
     start(): void {
@@ -0,0 +1,107 @@
+import { AssignmentStrategy, ConsumerId, PartitionId } from "./types.js";
+
+/**
+ * Assignor
+ *
+ * Decides which consumer of a group owns which partition of a topic after the group's
+ * membership changes (see `GroupCoordinator`). Every partition goes to exactly one consumer,
+ * and no consumer holds more than one partition more than any other. The strategies differ in
+ * which partitions go together:
+ * - `range`: consecutive partitions per consumer, in consumer id order (the default)
+ * - `round-robin`: partition `i` to the `i % consumers`-th consumer
+ * - `sticky`: consumers keep as many of the partitions they already own as the balance allows,
+ *   so a rebalance moves (and revokes) as few partitions as possible
+ *
+ * Consumers are ordered by id, so every strategy assigns the same way given the same group.
+ */
+export abstract class Assignor {
+    // Private methods
+    protected abstract distribute(consumerIds: ConsumerId[], partitionIds: PartitionId[], current: Map<PartitionId, ConsumerId>): Map<PartitionId, ConsumerId>;
+
+    // Public methods
+
+    /**
+     * Assign `partitionIds` to `consumerIds`. `current` holds each partition's owner before
+     * the rebalance (only the sticky strategy looks at it). Without consumers nothing is assigned.
+     */
+    assign(consumerIds: ConsumerId[], partitionIds: PartitionId[], current: Map<PartitionId, ConsumerId>): Map<PartitionId, ConsumerId> {
+        if (consumerIds.length === 0) {
+            return new Map<PartitionId, ConsumerId>();
+        }
+        const sortedConsumers = [...new Set(consumerIds)].sort();
+        const sortedPartitions = [...partitionIds].sort((a, b) => a - b);
+        return this.distribute(sortedConsumers, sortedPartitions, current);
+    }
+}
+
+export class RangeAssignor extends Assignor {
+    protected distribute(consumerIds: ConsumerId[], partitionIds: PartitionId[]): Map<PartitionId, ConsumerId> {
+        const assignment = new Map<PartitionId, ConsumerId>();
+        const perConsumer = Math.floor(partitionIds.length / consumerIds.length);
+        const extra = partitionIds.length % consumerIds.length;
+        let next = 0;
+        consumerIds.forEach((consumerId, i) => {
+            const count = perConsumer + (i < extra ? 1 : 0);
+            for (const partitionId of partitionIds.slice(next, next + count)) {
+                assignment.set(partitionId, consumerId);
+            }
+            next += count;
+        });
+        return assignment;
+    }
+}
+
+export class RoundRobinAssignor extends Assignor {
+    protected distribute(consumerIds: ConsumerId[], partitionIds: PartitionId[]): Map<PartitionId, ConsumerId> {
+        const assignment = new Map<PartitionId, ConsumerId>();
+        partitionIds.forEach((partitionId, i) => {
+            assignment.set(partitionId, consumerIds[i % consumerIds.length]);
+        });
+        return assignment;
+    }
+}
+
+export class StickyAssignor extends Assignor {
+    protected distribute(consumerIds: ConsumerId[], partitionIds: PartitionId[], current: Map<PartitionId, ConsumerId>): Map<PartitionId, ConsumerId> {
+        const owned = new Map<ConsumerId, PartitionId[]>(consumerIds.map(consumerId => [consumerId, []]));
+        for (const partitionId of partitionIds) {
+            owned.get(current.get(partitionId) ?? "")?.push(partitionId);
+        }
+
+        // The consumers that own the most get the partitions left over by an uneven split
+        // (the sort is stable, so ties stay in id order)
+        const perConsumer = Math.floor(partitionIds.length / consumerIds.length);
+        const extra = partitionIds.length % consumerIds.length;
+        const byOwned = [...consumerIds].sort((a, b) => owned.get(b)!.length - owned.get(a)!.length);
+        const quota = new Map<ConsumerId, number>(byOwned.map((consumerId, i) => [consumerId, perConsumer + (i < extra ? 1 : 0)]));
+
+        const assignment = new Map<PartitionId, ConsumerId>();
+        const room = new Map<ConsumerId, number>();
+        for (const consumerId of byOwned) {
+            const kept = owned.get(consumerId)!.slice(0, quota.get(consumerId));
+            for (const partitionId of kept) {
+                assignment.set(partitionId, consumerId);
+            }
+            room.set(consumerId, quota.get(consumerId)! - kept.length);
+        }
+
+        // Hand out the rest to the consumers with the most room left
+        for (const partitionId of partitionIds.filter(partitionId => !assignment.has(partitionId))) {
+            const consumerId = byOwned.reduce((best, candidate) => room.get(candidate)! > room.get(best)! ? candidate : best);
+            assignment.set(partitionId, consumerId);
+            room.set(consumerId, room.get(consumerId)! - 1);
+        }
+        return assignment;
+    }
+}
+
+export function createAssignor(strategy: AssignmentStrategy): Assignor {
+    switch (strategy) {
+        case "round-robin":
+            return new RoundRobinAssignor();
+        case "sticky":
+            return new StickyAssignor();
+        default:
+            return new RangeAssignor();
+    }
+}
@@ -0,0 +1,143 @@
+import fs from "fs";
+import path from "path";
+import { crc32 } from "node:zlib";
+import { FilePath } from "./types.js";
+
+/**
+ * Crash-safe storage for small state files (offset metadata, TPC map).
+ *
+ * Each copy starts with a header line `#pandaq|{generation}|{crc32 hex}|{byteLength}`
+ * followed by the content. A write never touches the current copy in place:
+ *
+ * 1. write `{file}.tmp` with the next generation and fsync it
+ * 2. rename the current `{file}` to `{file}.prev`
+ * 3. rename `{file}.tmp` to `{file}` and fsync the directory
+ *
+ * A crash or power loss at any point leaves at least one complete copy behind: the new copy
+ * is on disk before it is renamed into place, and the renames are before the next write can
+ * move it to `{file}.prev`. Reading validates every
+ * copy that exists and returns the valid one with the highest generation, so a torn or
+ * empty newest copy falls back to the last good one.
+ */
+
+const HEADER_PREFIX = "#pandaq|";
+const TEMP_SUFFIX = ".tmp";
+const PREVIOUS_SUFFIX = ".prev";
+
+// Last generation written/read per file, so writes don't have to re-read the file
+const generations = new Map<FilePath, number>();
+
+export type AtomicFileContent = {
+    content: string;
+    generation: number;
+    // The copy the content was read from (differs from the file path after a fallback)
+    source: FilePath;
+};
+
+function parseCopy(raw: string, source: FilePath): AtomicFileContent | null {
+    const headerEnd = raw.indexOf("\n");
+    if (!raw.startsWith(HEADER_PREFIX) || headerEnd === -1) {
+        return null;
+    }
+
+    const [, generation, checksum, length] = raw.slice(0, headerEnd).split("|");
+    const content = raw.slice(headerEnd + 1);
+    const body = Buffer.from(content, "utf-8");
+    if (body.length !== Number(length) || crc32(body).toString(16) !== checksum) {
+        return null;
+    }
+
+    return { content, generation: Number(generation), source };
+}
+
+export function atomicFileExists(filePath: FilePath): boolean {
+    return [filePath, filePath + TEMP_SUFFIX, filePath + PREVIOUS_SUFFIX].some(candidate => fs.existsSync(candidate));
+}
+
+/**
+ * Read the newest valid copy of `filePath`. Returns null if no copy exists at all.
+ * A main file without a header predates this format and is accepted as generation 0.
+ * Throws if copies exist but none of them is valid.
+ */
+export function readAtomicFile(filePath: FilePath): AtomicFileContent | null {
+    let newest: AtomicFileContent | null = null;
+
+    for (const candidate of [filePath, filePath + TEMP_SUFFIX, filePath + PREVIOUS_SUFFIX]) {
+        if (!fs.existsSync(candidate)) {
+            continue;
+        }
+        const parsed = parseCopy(fs.readFileSync(candidate, "utf-8"), candidate);
+        if (parsed && (!newest || parsed.generation > newest.generation)) {
+            newest = parsed;
+        }
+    }
+
+    if (newest) {
+        if (newest.source !== filePath) {
+            console.log(`[AtomicFile] ${filePath} failed validation, using last good copy ${newest.source} (generation ${newest.generation})`);
+        }
+        generations.set(filePath, newest.generation);
+        return newest;
+    }
+
+    if (fs.existsSync(filePath)) {
+        const raw = fs.readFileSync(filePath, "utf-8");
+        if (!raw.startsWith(HEADER_PREFIX)) {
+            generations.set(filePath, 0);
+            return { content: raw, generation: 0, source: filePath };
+        }
+    }
+
+    if (!atomicFileExists(filePath)) {
+        return null;
+    }
+    throw new Error(`No valid copy of ${filePath} found (checked ${filePath}, ${filePath}${TEMP_SUFFIX}, ${filePath}${PREVIOUS_SUFFIX})`);
+}
+
+// Make the renames in `directory` durable
+function syncDirectory(directory: string): void {
+    const fd = fs.openSync(directory, "r");
+    try {
+        fs.fsyncSync(fd);
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+/**
+ * Replace the content of `filePath` with write-temp-then-rename, bumping its generation.
+ */
+export function writeAtomicFile(filePath: FilePath, content: string): void {
+    let previousGeneration = generations.get(filePath);
+    if (previousGeneration === undefined) {
+        previousGeneration = atomicFileExists(filePath) ? (readAtomicFile(filePath)?.generation ?? 0) : 0;
+    }
+    const generation = previousGeneration + 1;
+
+    const body = Buffer.from(content, "utf-8");
+    const header = `${HEADER_PREFIX}${generation}|${crc32(body).toString(16)}|${body.length}\n`;
+
+    const tempPath = filePath + TEMP_SUFFIX;
+    const fd = fs.openSync(tempPath, "w");
+    try {
+        fs.writeFileSync(fd, header + content);
+        fs.fsyncSync(fd);
+    } finally {
+        fs.closeSync(fd);
+    }
+    if (fs.existsSync(filePath)) {
+        fs.renameSync(filePath, filePath + PREVIOUS_SUFFIX);
+    }
+    fs.renameSync(tempPath, filePath);
+    syncDirectory(path.dirname(filePath));
+
+    generations.set(filePath, generation);
+}
+
+// Delete every copy of `filePath`
+export function removeAtomicFile(filePath: FilePath): void {
+    for (const copy of [filePath, filePath + PREVIOUS_SUFFIX, filePath + TEMP_SUFFIX]) {
+        fs.rmSync(copy, { force: true });
+    }
+    generations.delete(filePath);
+}
@@ -0,0 +1,75 @@
+import { DedupConfig, Response } from "./types.js";
+
+type DedupEntry = {
+    offset: number;
+    timestamp: number;
+    // Settles once the original write is flushed; absent for entries rebuilt from the log
+    flushed?: Promise<Response<boolean>>;
+};
+
+/**
+ * Dedup Window
+ *
+ * Remembers the ingress offset of recent `(producerId, messageId)` pairs so a producer retry
+ * is acknowledged with the original offset instead of being appended again.
+ *
+ * An entry is forgotten once it is older than `windowMs` or once more than `windowSize`
+ * newer entries have been recorded, whichever comes first. Entries are kept in insertion
+ * (= offset) order, so eviction only ever looks at the head of the map.
+ */
+class DedupWindow {
+    private readonly windowMs: number;
+    private readonly windowSize: number;
+    private readonly entries: Map<string, DedupEntry> = new Map();
+
+    constructor(config: DedupConfig) {
+        this.windowMs = config.windowMs;
+        this.windowSize = config.windowSize;
+    }
+
+    // Private methods
+    private static keyOf(producerId: string, messageId: string): string {
+        return `${producerId}|${messageId}`;
+    }
+
+    private evict(now: number): void {
+        for (const [key, entry] of this.entries) {
+            if (this.entries.size <= this.windowSize && now - entry.timestamp <= this.windowMs) {
+                break;
+            }
+            this.entries.delete(key);
+        }
+    }
+
+    // Public methods
+    lookup(producerId: string, messageId: string, now: number = Date.now()): DedupEntry | undefined {
+        this.evict(now);
+        return this.entries.get(DedupWindow.keyOf(producerId, messageId));
+    }
+
+    record(producerId: string, messageId: string, entry: DedupEntry): void {
+        const key = DedupWindow.keyOf(producerId, messageId);
+        // Re-insert so the map stays in offset order
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        this.evict(Date.now());
+    }
+
+    // Forget a write that never reached the log, so its retry is appended
+    forget(producerId: string, messageId: string): void {
+        this.entries.delete(DedupWindow.keyOf(producerId, messageId));
+    }
+
+    // Offset of the oldest remembered write, which the ingress log has to retain for rebuilding
+    getOldestOffset(now: number = Date.now()): number | null {
+        this.evict(now);
+        const oldest = this.entries.values().next();
+        return oldest.done ? null : oldest.value.offset;
+    }
+
+    size(): number {
+        return this.entries.size;
+    }
+}
+
+export default DedupWindow;
@@ -2,6 +2,7 @@ const ERROR_CODES = {
     BUFFER_FULL: "BUFFER_FULL",
     BUFFER_EMPTY: "BUFFER_EMPTY",
     LOG_FILE_APPEND_FAILED: "LOG_FILE_APPEND_FAILED",
+    LOG_FILE_SYNC_FAILED: "LOG_FILE_SYNC_FAILED",
     BUFFER_BUILD_FAILED: "BUFFER_BUILD_FAILED",
     FILE_NOT_FOUND: "FILE_NOT_FOUND",
     DIRECTORY_NOT_FOUND: "DIRECTORY_NOT_FOUND",
@@ -11,6 +12,15 @@ const ERROR_CODES = {
     PARTITION_NOT_FOUND: "PARTITION_NOT_FOUND",
     NO_PARTITION_AVAILABLE: "NO_PARTITION_AVAILABLE",
     INVALID_OFFSET: "INVALID_OFFSET",
+    RETENTION_FAILED: "RETENTION_FAILED",
+    LOG_MIGRATION_FAILED: "LOG_MIGRATION_FAILED",
+    CORRUPT_RECORD: "CORRUPT_RECORD",
+    TRANSACTION_NOT_FOUND: "TRANSACTION_NOT_FOUND",
+    TRANSACTION_TOO_LARGE: "TRANSACTION_TOO_LARGE",
+    LEASE_NOT_FOUND: "LEASE_NOT_FOUND",
+    LEASE_CONFLICT: "LEASE_CONFLICT",
+    CONSUMER_NOT_REGISTERED: "CONSUMER_NOT_REGISTERED",
+    PARTITION_NOT_OWNED: "PARTITION_NOT_OWNED",
     UNKNOWN_ERROR: "UNKNOWN_ERROR"
 }
 
@@ -1,10 +1,8 @@
-import { promises as fs } from 'fs';
+import fs, { promises as fsPromises } from 'fs';
 import ERROR_CODES from "./error-codes.js";
 import { ensureFileExists } from "./utils.js";
-import { FilePath, Message, BrokerId, LOG_FILE_TYPE, Response } from "./types.js";
-import dotenv from "dotenv";
-import getEnv from './env-config.js';
-dotenv.config();
+import { Compression, FilePath, Message, LOG_FILE_TYPE, Response } from "./types.js";
+import { encodeBatch, encodeRecord, findNextRecord, isLegacyTextLog, messageToRecord, RecordScanResult, RecordTags, scanRecords } from "./record-codec.js";
 
 // Log File Handler
 class LogFileHandler {
@@ -12,7 +10,6 @@ class LogFileHandler {
     private readonly filePath: FilePath;
     private readonly topicId?: string;
     private readonly partitionId?: number;
-    private static readonly brokerId: BrokerId = getEnv().BROKER_ID as BrokerId;
 
     constructor(config: {
         label: LOG_FILE_TYPE,
@@ -33,33 +30,204 @@ class LogFileHandler {
         this.partitionId = config.partitionId;
     }
 
-    private formatLogEntry(message: Message, offset: number): string {
-        const stringifiedMsg = typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
-
-        if (this.label === LOG_FILE_TYPE.INGRESS_BUFFER) {
-            return [LogFileHandler.brokerId, offset, message.topicId, message.messageId, stringifiedMsg].join("|") + "\n";
-        } else if (this.label === LOG_FILE_TYPE.PARTITION_BUFFER) {
-            return [this.topicId, this.partitionId, offset, message.messageId, stringifiedMsg].join("|") + "\n";
-        }
+    formatLogEntry(message: Message, offset: number, tags: RecordTags = {}): Buffer {
+        return encodeRecord(messageToRecord(message, offset, Date.now(), tags));
+    }
 
-        return "";
+    // Encode entries as one batch, compressed into a single wrapper record unless `compression` is "none"
+    formatBatch(entries: { message: Message; offset: number; tags?: RecordTags }[], compression: Compression = "none"): Buffer {
+        const timestamp = Date.now();
+        return encodeBatch(entries.map(entry => messageToRecord(entry.message, entry.offset, timestamp, entry.tags)), compression);
     }
 
     async append(message: Message, offset: number): Promise<Response<boolean>> {
+        return this.appendEntries([{ message, offset }]);
+    }
+
+    /**
+     * Encode a batch of entries and append them with a single write (and a single fsync if `sync`).
+     * `compressionFor` picks the codec per entry; each run of consecutive entries sharing a codec
+     * (and transaction) becomes one batch, so a compressed batch never straddles a transaction boundary.
+     */
+    async appendEntries(
+        entries: { message: Message; offset: number; tags?: RecordTags }[],
+        sync: boolean = false,
+        compressionFor: (message: Message) => Compression = () => "none"
+    ): Promise<Response<boolean>> {
+        const batches: Buffer[] = [];
+        let run: { message: Message; offset: number; tags?: RecordTags }[] = [];
+        let runCompression: Compression = "none";
+        for (const entry of entries) {
+            const compression = compressionFor(entry.message);
+            if (run.length > 0 && (compression !== runCompression || entry.tags?.transactionId !== run[0].tags?.transactionId)) {
+                batches.push(this.formatBatch(run, runCompression));
+                run = [];
+            }
+            run.push(entry);
+            runCompression = compression;
+        }
+        if (run.length > 0) {
+            batches.push(this.formatBatch(run, runCompression));
+        }
+        return this.appendBuffer(Buffer.concat(batches), sync);
+    }
+
+    // Append already-encoded records. A failed append is cut off again, so the file never
+    // keeps part of a write its caller was told failed.
+    async appendBuffer(data: Buffer, sync: boolean = false): Promise<Response<boolean>> {
+        let handle: fsPromises.FileHandle | null = null;
+        let sizeBefore: number | undefined;
         try {
-            await fs.appendFile(this.filePath, this.formatLogEntry(message, offset), 'utf-8');
+            handle = await fsPromises.open(this.filePath, 'a');
+            sizeBefore = (await handle.stat()).size;
+            await handle.appendFile(data);
+            if (sync) {
+                await handle.sync();
+            }
             return {
                 success: true,
                 data: true
             };
         } catch (error) {
+            if (handle && sizeBefore !== undefined) {
+                await handle.truncate(sizeBefore).catch(() => undefined);
+            }
             return {
                 success: false,
                 errorCode: ERROR_CODES.LOG_FILE_APPEND_FAILED,
                 error: error
             };
+        } finally {
+            await handle?.close();
+        }
+    }
+
+    // Flush everything previously appended to this file out of the page cache
+    async sync(): Promise<Response<boolean>> {
+        let handle: fsPromises.FileHandle | null = null;
+        try {
+            handle = await fsPromises.open(this.filePath, 'r');
+            await handle.sync();
+            return {
+                success: true,
+                data: true
+            };
+        } catch (error) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.LOG_FILE_SYNC_FAILED,
+                error: error
+            };
+        } finally {
+            await handle?.close();
+        }
+    }
+
+    /**
+     * Read and validate every record of a log file. A torn or corrupt tail (from a crash
+     * mid-append) is truncated away so the next append starts on a record boundary. A damaged
+     * record with readable records after it is not a tail: truncating would drop acknowledged
+     * messages, so recovery fails instead and leaves the file to `pandaq fsck`.
+     */
+    static recover(filePath: FilePath): Response<RecordScanResult & { truncatedBytes: number }> {
+        try {
+            const content = fs.readFileSync(filePath);
+            const scan = scanRecords(content);
+
+            if (scan.status !== "ok") {
+                const nextRecord = findNextRecord(content, scan.validBytes + 1);
+                if (nextRecord !== -1) {
+                    return {
+                        success: false,
+                        errorCode: ERROR_CODES.CORRUPT_RECORD,
+                        error: new Error(`${filePath} has a ${scan.status} record at byte ${scan.validBytes} followed by a valid record at byte ${nextRecord}; run \`pandaq fsck\` to inspect it`)
+                    };
+                }
+            }
+
+            const truncatedBytes = content.length - scan.validBytes;
+            if (truncatedBytes > 0) {
+                fs.truncateSync(filePath, scan.validBytes);
+                console.log(`[LogFileHandler] Truncated ${truncatedBytes} byte(s) of ${scan.status} tail from ${filePath}`);
+            }
+
+            return {
+                success: true,
+                data: { ...scan, truncatedBytes }
+            };
+        } catch (error) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.BUFFER_BUILD_FAILED,
+                error: error
+            };
+        }
+    }
+
+    /**
+     * Rewrite a pre-binary `|`-delimited text log in the record format, in place.
+     * Content is re-joined from every field past the fixed ones, so messages that contained
+     * a `|` are restored intact. The file's mtime is preserved for retention.
+     * Only the first byte of a binary log is read (see `isLegacyTextLog`), so this is cheap to
+     * call on every boot.
+     */
+    static migrateLegacyTextLog(filePath: FilePath, label: LOG_FILE_TYPE): Response<number> {
+        try {
+            const head = Buffer.alloc(1);
+            const fd = fs.openSync(filePath, 'r');
+            let headBytes: number;
+            try {
+                headBytes = fs.readSync(fd, head, 0, 1, 0);
+            } finally {
+                fs.closeSync(fd);
+            }
+            if (!isLegacyTextLog(head.subarray(0, headBytes))) {
+                return { success: true, data: 0 };
+            }
+
+            const content = fs.readFileSync(filePath);
+            if (!isLegacyTextLog(content)) {
+                return { success: true, data: 0 };
+            }
+
+            const { mtime } = fs.statSync(filePath);
+            const records: Buffer[] = [];
+            for (const line of content.toString('utf-8').split("\n")) {
+                if (!line) {
+                    continue;
+                }
+                const fields = line.split("|");
+                // ingress: brokerId|offset|topicId|messageId|content
+                // partition: topicId|partitionId|offset|messageId|content
+                const [topicId, offset] = label === LOG_FILE_TYPE.INGRESS_BUFFER
+                    ? [fields[2], fields[1]]
+                    : [fields[0], fields[2]];
+                const message: Message = {
+                    topicId,
+                    messageId: fields[3],
+                    content: fields.slice(4).join("|")
+                };
+                records.push(encodeRecord(messageToRecord(message, Number(offset), mtime.getTime())));
+            }
+
+            const tempPath = `${filePath}.tmp`;
+            fs.writeFileSync(tempPath, Buffer.concat(records));
+            fs.utimesSync(tempPath, mtime, mtime);
+            fs.renameSync(tempPath, filePath);
+
+            console.log(`[LogFileHandler] Migrated ${records.length} text entries in ${filePath} to the binary record format`);
+            return {
+                success: true,
+                data: records.length
+            };
+        } catch (error) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.LOG_MIGRATION_FAILED,
+                error: error
+            };
         }
     }
 }
 
-export default LogFileHandler;
\ No newline at end of file
+export default LogFileHandler;
@@ -0,0 +1,116 @@
+import fs from "fs";
+import { FilePath } from "./types.js";
+
+type IndexEntry = {
+    offset: number;
+    position: number;
+};
+
+/**
+ * Offset Index
+ *
+ * Sparse index of a single log segment, stored next to it as `<baseOffset>.index`.
+ * Every `indexInterval`-th record of the segment gets a fixed-size 8-byte entry:
+ *
+ * ```
+ * relativeOffset  u32   offset - segment baseOffset
+ * position        u32   byte position of the record within the segment
+ * ```
+ *
+ * A lookup finds the closest indexed record at or before the target offset, so a reader
+ * only has to scan at most `indexInterval - 1` records to reach any offset.
+ *
+ * The index is derived data: a torn trailing entry or entries pointing past the end of the
+ * segment are dropped on load, and a missing index is rebuilt from the segment.
+ */
+class OffsetIndex {
+    static readonly ENTRY_BYTES = 8;
+    static readonly FILE_EXTENSION = ".index";
+
+    private readonly filePath: FilePath;
+    private readonly baseOffset: number;
+    private entries: IndexEntry[] = [];
+
+    constructor(filePath: FilePath, baseOffset: number) {
+        this.filePath = filePath;
+        this.baseOffset = baseOffset;
+    }
+
+    static indexPathFor(segmentPath: FilePath): FilePath {
+        return segmentPath.replace(/\.log$/, OffsetIndex.FILE_EXTENSION) as FilePath;
+    }
+
+    exists(): boolean {
+        return fs.existsSync(this.filePath);
+    }
+
+    /**
+     * Load the index from disk, keeping only the leading run of well-formed entries that
+     * point inside a segment of `segmentSize` bytes.
+     */
+    load(segmentSize: number): void {
+        this.entries = [];
+        if (!this.exists()) {
+            return;
+        }
+
+        const content = fs.readFileSync(this.filePath);
+        const entryCount = Math.floor(content.length / OffsetIndex.ENTRY_BYTES);
+        for (let i = 0; i < entryCount; i++) {
+            const pos = i * OffsetIndex.ENTRY_BYTES;
+            const entry = {
+                offset: this.baseOffset + content.readUInt32BE(pos),
+                position: content.readUInt32BE(pos + 4)
+            };
+            const previous = this.entries[this.entries.length - 1];
+            if (entry.position >= segmentSize || (previous && (entry.offset <= previous.offset || entry.position <= previous.position))) {
+                break;
+            }
+            this.entries.push(entry);
+        }
+    }
+
+    // Replace the index with the given entries (used when rebuilding from the segment)
+    rewrite(entries: IndexEntry[]): void {
+        this.entries = [...entries];
+        const content = Buffer.alloc(entries.length * OffsetIndex.ENTRY_BYTES);
+        entries.forEach((entry, i) => {
+            content.writeUInt32BE(entry.offset - this.baseOffset, i * OffsetIndex.ENTRY_BYTES);
+            content.writeUInt32BE(entry.position, i * OffsetIndex.ENTRY_BYTES + 4);
+        });
+        fs.writeFileSync(this.filePath, content);
+    }
+
+    append(offset: number, position: number): void {
+        const content = Buffer.alloc(OffsetIndex.ENTRY_BYTES);
+        content.writeUInt32BE(offset - this.baseOffset, 0);
+        content.writeUInt32BE(position, 4);
+        fs.appendFileSync(this.filePath, content);
+        this.entries.push({ offset, position });
+    }
+
+    /**
+     * Byte position of the closest indexed record at or before `offset` (0 if none).
+     */
+    lookup(offset: number): number {
+        let low = 0;
+        let high = this.entries.length - 1;
+        let position = 0;
+        while (low <= high) {
+            const mid = (low + high) >>> 1;
+            if (this.entries[mid].offset <= offset) {
+                position = this.entries[mid].position;
+                low = mid + 1;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return position;
+    }
+
+    delete(): void {
+        fs.rmSync(this.filePath, { force: true });
+    }
+}
+
+export default OffsetIndex;
@@ -0,0 +1,180 @@
+import ERROR_CODES from "./error-codes.js";
+import { Message, PartitionId, PartitionerStrategy, Response, ValidationResult } from "./types.js";
+
+const MURMUR2_SEED = 0x9747b28c;
+const MURMUR2_M = 0x5bd1e995;
+
+/**
+ * 32-bit murmur2 of `data`, bit-for-bit the same as Kafka's `Utils.murmur2`, so a key lands on
+ * the same partition number it would get from a Kafka producer's default partitioner.
+ */
+export function murmur2(data: Buffer): number {
+    const length = data.length;
+    let h = MURMUR2_SEED ^ length;
+
+    const blocks = length >>> 2;
+    for (let i = 0; i < blocks; i++) {
+        let k = data.readInt32LE(i * 4);
+        k = Math.imul(k, MURMUR2_M);
+        k ^= k >>> 24;
+        k = Math.imul(k, MURMUR2_M);
+        h = Math.imul(h, MURMUR2_M);
+        h ^= k;
+    }
+
+    const tail = blocks * 4;
+    switch (length & 3) {
+        case 3:
+            h ^= data[tail + 2] << 16;
+        // falls through
+        case 2:
+            h ^= data[tail + 1] << 8;
+        // falls through
+        case 1:
+            h ^= data[tail];
+            h = Math.imul(h, MURMUR2_M);
+    }
+
+    h ^= h >>> 13;
+    h = Math.imul(h, MURMUR2_M);
+    h ^= h >>> 15;
+    return h | 0;
+}
+
+/**
+ * Partitioner
+ *
+ * Picks the partition of a topic a message is appended to. Whatever the strategy, a message
+ * that names a `partitionId` goes to that partition. The strategies differ in how they place
+ * the rest:
+ * - `murmur2`: by the murmur2 hash of the key, or of the messageId without one (the default)
+ * - `round-robin`: keyed messages by key hash, the others to each partition in turn
+ * - `sticky`: keyed messages by key hash, the others in runs of `stickyBatchSize` to one
+ *   partition before moving on to the next (fewer, larger appends)
+ * - `explicit`: none; every message must name its partition
+ *
+ * Round-robin and sticky placement is derived from the message's `position` among the messages
+ * routed to its topic (see `IngressBuffer`'s routed counts) rather than from an in-memory
+ * counter, so a batch routed again after a crash lands where it did the first time and the
+ * partitions' `sourceOffset` check still filters out what was already appended. Ingress offsets
+ * won't do: `ingress.log` is shared by every topic, so one topic's offsets have gaps. Messages
+ * without a position (moved to a dead-letter topic) are counted instead.
+ */
+export abstract class Partitioner {
+    protected readonly partitionCount: number;
+    private sequence: number = 0;
+
+    constructor(partitionCount: number) {
+        this.partitionCount = partitionCount;
+    }
+
+    // Private methods
+    protected hashPartition(value: string): PartitionId {
+        // Same as Kafka's `toPositive(murmur2(bytes)) % numPartitions`
+        return (murmur2(Buffer.from(value, "utf-8")) & 0x7fffffff) % this.partitionCount;
+    }
+
+    // Position of a message in the stream of messages this partitioner has placed
+    protected positionOf(position: number | undefined): number {
+        return position ?? this.sequence++;
+    }
+
+    protected abstract select(message: Message, position?: number): PartitionId | undefined;
+
+    // Public methods
+    validate(message: Message): ValidationResult {
+        if (message.partitionId === undefined) {
+            return { isValid: true };
+        }
+        if (!Number.isInteger(message.partitionId) || message.partitionId < 0 || message.partitionId >= this.partitionCount) {
+            return {
+                isValid: false,
+                error: `Invalid partitionId. Expected an integer from 0 to ${this.partitionCount - 1}`
+            };
+        }
+        return { isValid: true };
+    }
+
+    partition(message: Message, position?: number): Response<PartitionId> {
+        const validation = this.validate(message);
+        if (!validation.isValid) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.PARTITION_NOT_FOUND,
+                error: validation.error
+            };
+        }
+        const partitionId = message.partitionId ?? this.select(message, position);
+        if (partitionId === undefined) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.NO_PARTITION_AVAILABLE,
+                error: `Message ${message.messageId} doesn't name a partition`
+            };
+        }
+        return {
+            success: true,
+            data: partitionId
+        };
+    }
+}
+
+export class Murmur2Partitioner extends Partitioner {
+    protected select(message: Message): PartitionId {
+        return this.hashPartition(message.key ?? message.messageId);
+    }
+}
+
+export class RoundRobinPartitioner extends Partitioner {
+    protected select(message: Message, position?: number): PartitionId {
+        if (message.key !== undefined) {
+            return this.hashPartition(message.key);
+        }
+        return this.positionOf(position) % this.partitionCount;
+    }
+}
+
+export class StickyPartitioner extends Partitioner {
+    private readonly batchSize: number;
+
+    constructor(partitionCount: number, batchSize: number) {
+        super(partitionCount);
+        this.batchSize = batchSize;
+    }
+
+    protected select(message: Message, position?: number): PartitionId {
+        if (message.key !== undefined) {
+            return this.hashPartition(message.key);
+        }
+        return Math.floor(this.positionOf(position) / this.batchSize) % this.partitionCount;
+    }
+}
+
+export class ExplicitPartitioner extends Partitioner {
+    protected select(): undefined {
+        return undefined;
+    }
+
+    validate(message: Message): ValidationResult {
+        if (message.partitionId === undefined) {
+            return {
+                isValid: false,
+                error: "Missing partitionId. The topic uses explicit partitioning"
+            };
+        }
+        return super.validate(message);
+    }
+}
+
+export function createPartitioner(strategy: PartitionerStrategy, partitionCount: number, stickyBatchSize: number): Partitioner {
+    switch (strategy) {
+        case "round-robin":
+            return new RoundRobinPartitioner(partitionCount);
+        case "sticky":
+            return new StickyPartitioner(partitionCount, stickyBatchSize);
+        case "explicit":
+            return new ExplicitPartitioner(partitionCount);
+        default:
+            return new Murmur2Partitioner(partitionCount);
+    }
+}
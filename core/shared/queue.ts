@@ -42,11 +42,17 @@ class Queue<T> {
         return this.queue.get(this.frontOffset);
     }
 
-    peekBatch(count: number): T[] {
+    // Read the item `index` places behind the front without removing it
+    peekAt(index: number): T | undefined {
+        return this.queue.get(this.frontOffset + index);
+    }
+
+    // Read up to `count` items after the first `skip` without removing them
+    peekBatch(count: number, skip: number = 0): T[] {
         const items: T[] = [];
-        const actualCount = Math.min(count, this.size());
+        const actualCount = Math.min(count, this.size() - skip);
         for (let i = 0; i < actualCount; i++) {
-            const item = this.queue.get(this.frontOffset + i);
+            const item = this.queue.get(this.frontOffset + skip + i);
             if (item !== undefined) {
                 items.push(item);
             }
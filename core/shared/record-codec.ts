@@ -0,0 +1,507 @@
+import { brotliCompressSync, brotliDecompressSync, crc32, deflateSync, gunzipSync, gzipSync, inflateSync } from "node:zlib";
+import { Compression, DEFAULT_GROUP_ID, Message, TopicId } from "./types.js";
+
+/**
+ * Record Codec
+ *
+ * Length-prefixed binary record format shared by `ingress.log`, `scheduled.log` and the partition segments.
+ * All integers are big-endian.
+ *
+ * ```
+ * length      u32   number of bytes that follow this field
+ * crc         u32   CRC32 of every byte after this field
+ * magic       u8    record format version (RECORD_MAGIC)
+ * attributes  u8    bits 0-2: compression codec of a batch (0 = none), other bits reserved
+ * offset      i64
+ * timestamp   i64   ms since epoch when the broker accepted the message (kept when it is routed)
+ * topicId     u16 length + utf-8
+ * messageId   u16 length + utf-8
+ * key         i32 length (-1 = null) + utf-8
+ * headers     u16 count, then per header: u16 length + utf-8 name, u32 length + utf-8 value
+ * value       u32 length + utf-8
+ * tags        u8 count, then per tag: u8 tag id, u32 length + bytes
+ * ```
+ *
+ * A compressed batch is stored as a single wrapper record: its `attributes` hold the codec
+ * (1 = gzip, 2 = deflate, 3 = brotli), its offset is the first inner offset, and its value
+ * is the compressed concatenation of the inner records in this same format. `scanRecords`
+ * expands wrappers, so readers only ever see the inner records.
+ *
+ * Tagged fields carry optional broker-internal metadata. Readers skip tags they don't
+ * know, so new ones can be added without bumping `RECORD_MAGIC`. Known tags:
+ *
+ * ```
+ * 1  sourceOffset  i64   ingress offset a partition record was routed from
+ * 2  producerId    utf-8 idempotent producer that wrote an ingress record
+ * 3  transactionId utf-8 transaction an ingress record was committed in
+ * 4  transactionEnd  -   marks the last record of a transaction (no value)
+ * 5  deliveryCount u32   deliveries of a nacked message before it was redelivered at this offset
+ * 6  deliverAt     i64   due time (ms since epoch) of a delayed message in `scheduled.log`
+ * 7  scheduleId    i64   `scheduled.log` entry an ingress record was released from; in
+ *                        `scheduled.log` itself, marks that entry as released
+ * 8  ttlMs         i64   time to live of the message, counted from `timestamp`
+ * 9  priority      u8    delivery priority of the message (absent: 0)
+ * 10 offsetCommit  u32 + i64  partition and offset a transaction commits; the record is a
+ *                        control record (its messageId is the consumer id) and is never routed
+ * 11 partitionId   u32   partition the producer picked for the message, bypassing the partitioner
+ * 12 groupId       utf-8 consumer group a redelivered (nacked) message is for, which other groups
+ *                        skip; on an offsetCommit control record, the group it commits for
+ * ```
+ */
+
+export const RECORD_MAGIC = 1;
+
+export const RECORD_TAG = {
+    SOURCE_OFFSET: 1,
+    PRODUCER_ID: 2,
+    TRANSACTION_ID: 3,
+    TRANSACTION_END: 4,
+    DELIVERY_COUNT: 5,
+    DELIVER_AT: 6,
+    SCHEDULE_ID: 7,
+    TTL_MS: 8,
+    PRIORITY: 9,
+    OFFSET_COMMIT: 10,
+    PARTITION_ID: 11,
+    GROUP_ID: 12
+} as const;
+
+export type RecordTags = {
+    sourceOffset?: number;
+    producerId?: string;
+    transactionId?: string;
+    transactionEnd?: boolean;
+    deliveryCount?: number;
+    deliverAt?: number;
+    scheduleId?: number;
+    ttlMs?: number;
+    priority?: number;
+    offsetCommit?: { partitionId: number; offset: number };
+    partitionId?: number;
+    groupId?: string;
+};
+
+// length + crc
+const RECORD_PREFIX_BYTES = 8;
+
+export type LogRecord = {
+    offset: number;
+    timestamp: number;
+    attributes: number;
+    topicId: TopicId;
+    messageId: string;
+    key: string | null;
+    headers: Record<string, string>;
+    value: string;
+    tags: RecordTags;
+};
+
+// For a record inside a compressed batch, `position` and `size` are those of the wrapper record
+export type DecodedRecord = {
+    record: LogRecord;
+    position: number;
+    size: number;
+};
+
+const COMPRESSION_CODEC_MASK = 0x07;
+
+const COMPRESSION_CODECS: Record<Compression, number> = {
+    none: 0,
+    gzip: 1,
+    deflate: 2,
+    brotli: 3
+};
+
+export type RecordScanStatus = "ok" | "torn" | "corrupt";
+
+export type RecordScanResult = {
+    records: DecodedRecord[];
+    // Bytes from the start of the buffer up to the end of the last valid record
+    validBytes: number;
+    status: RecordScanStatus;
+};
+
+// `timestamp` only applies to messages that don't carry their own
+export function messageToRecord(message: Message, offset: number, timestamp: number = Date.now(), tags: RecordTags = {}): LogRecord {
+    return {
+        offset,
+        timestamp: message.timestamp ?? timestamp,
+        attributes: 0,
+        topicId: message.topicId,
+        messageId: message.messageId,
+        key: message.key ?? null,
+        headers: message.headers ?? {},
+        value: typeof message.content === "string" ? message.content : JSON.stringify(message.content),
+        tags: {
+            ...tags,
+            ...(message.ttlMs !== undefined && { ttlMs: message.ttlMs }),
+            ...(message.priority !== undefined && { priority: message.priority }),
+            ...(message.offsetCommit && {
+                offsetCommit: { partitionId: message.offsetCommit.partitionId, offset: message.offsetCommit.offset },
+                groupId: message.offsetCommit.groupId
+            }),
+            ...(message.partitionId !== undefined && { partitionId: message.partitionId })
+        }
+    };
+}
+
+export function recordToMessage(record: LogRecord): Message {
+    return {
+        topicId: record.topicId,
+        messageId: record.messageId,
+        content: record.value,
+        ...(record.key !== null && { key: record.key }),
+        ...(Object.keys(record.headers).length > 0 && { headers: record.headers }),
+        timestamp: record.timestamp,
+        ...(record.tags.ttlMs !== undefined && { ttlMs: record.tags.ttlMs }),
+        ...(record.tags.priority !== undefined && { priority: record.tags.priority }),
+        ...(record.tags.offsetCommit && { offsetCommit: { ...record.tags.offsetCommit, groupId: record.tags.groupId ?? DEFAULT_GROUP_ID, consumerId: record.messageId } }),
+        ...(record.tags.partitionId !== undefined && { partitionId: record.tags.partitionId })
+    };
+}
+
+export function encodeRecord(record: LogRecord): Buffer {
+    return encodeRecordWithValue(record, Buffer.from(record.value, "utf-8"));
+}
+
+/**
+ * Encode records as one contiguous batch. With a compression codec the batch becomes a single
+ * wrapper record, unless compressing doesn't make it smaller.
+ */
+export function encodeBatch(records: LogRecord[], compression: Compression = "none"): Buffer {
+    const raw = Buffer.concat(records.map(encodeRecord));
+    if (compression === "none" || records.length === 0) {
+        return raw;
+    }
+
+    const first = records[0];
+    const wrapper = encodeRecordWithValue({
+        offset: first.offset,
+        timestamp: records[records.length - 1].timestamp,
+        attributes: COMPRESSION_CODECS[compression],
+        topicId: first.topicId,
+        messageId: "",
+        key: null,
+        headers: {},
+        value: "",
+        tags: {}
+    }, compress(compression, raw));
+    return wrapper.length < raw.length ? wrapper : raw;
+}
+
+function compress(compression: Compression, data: Buffer): Buffer {
+    switch (compression) {
+        case "gzip":
+            return gzipSync(data);
+        case "deflate":
+            return deflateSync(data);
+        case "brotli":
+            return brotliCompressSync(data);
+        default:
+            return data;
+    }
+}
+
+// Inner records of a compressed batch wrapper
+function decompressBatch(codec: number, value: Buffer): LogRecord[] {
+    let raw: Buffer;
+    switch (codec) {
+        case COMPRESSION_CODECS.gzip:
+            raw = gunzipSync(value);
+            break;
+        case COMPRESSION_CODECS.deflate:
+            raw = inflateSync(value);
+            break;
+        case COMPRESSION_CODECS.brotli:
+            raw = brotliDecompressSync(value);
+            break;
+        default:
+            throw new Error(`Unsupported compression codec: ${codec}`);
+    }
+
+    const scan = scanRecords(raw);
+    if (scan.status !== "ok") {
+        throw new Error(`Compressed batch holds a ${scan.status} record`);
+    }
+    return scan.records.map(({ record }) => record);
+}
+
+function encodeRecordWithValue(record: LogRecord, value: Buffer): Buffer {
+    const topicId = Buffer.from(record.topicId, "utf-8");
+    const messageId = Buffer.from(record.messageId, "utf-8");
+    const key = record.key === null ? null : Buffer.from(record.key, "utf-8");
+    const headers = Object.entries(record.headers).map(([name, value]) => [Buffer.from(name, "utf-8"), Buffer.from(value, "utf-8")]);
+
+    const tags: [number, Buffer][] = [];
+    if (record.tags.sourceOffset !== undefined) {
+        const sourceOffset = Buffer.alloc(8);
+        sourceOffset.writeBigInt64BE(BigInt(record.tags.sourceOffset));
+        tags.push([RECORD_TAG.SOURCE_OFFSET, sourceOffset]);
+    }
+    if (record.tags.producerId !== undefined) {
+        tags.push([RECORD_TAG.PRODUCER_ID, Buffer.from(record.tags.producerId, "utf-8")]);
+    }
+    if (record.tags.transactionId !== undefined) {
+        tags.push([RECORD_TAG.TRANSACTION_ID, Buffer.from(record.tags.transactionId, "utf-8")]);
+    }
+    if (record.tags.transactionEnd) {
+        tags.push([RECORD_TAG.TRANSACTION_END, Buffer.alloc(0)]);
+    }
+    if (record.tags.deliveryCount !== undefined) {
+        const deliveryCount = Buffer.alloc(4);
+        deliveryCount.writeUInt32BE(record.tags.deliveryCount);
+        tags.push([RECORD_TAG.DELIVERY_COUNT, deliveryCount]);
+    }
+    if (record.tags.deliverAt !== undefined) {
+        const deliverAt = Buffer.alloc(8);
+        deliverAt.writeBigInt64BE(BigInt(record.tags.deliverAt));
+        tags.push([RECORD_TAG.DELIVER_AT, deliverAt]);
+    }
+    if (record.tags.scheduleId !== undefined) {
+        const scheduleId = Buffer.alloc(8);
+        scheduleId.writeBigInt64BE(BigInt(record.tags.scheduleId));
+        tags.push([RECORD_TAG.SCHEDULE_ID, scheduleId]);
+    }
+    if (record.tags.ttlMs !== undefined) {
+        const ttlMs = Buffer.alloc(8);
+        ttlMs.writeBigInt64BE(BigInt(record.tags.ttlMs));
+        tags.push([RECORD_TAG.TTL_MS, ttlMs]);
+    }
+    if (record.tags.priority !== undefined) {
+        tags.push([RECORD_TAG.PRIORITY, Buffer.from([record.tags.priority])]);
+    }
+    if (record.tags.offsetCommit !== undefined) {
+        const offsetCommit = Buffer.alloc(12);
+        offsetCommit.writeUInt32BE(record.tags.offsetCommit.partitionId, 0);
+        offsetCommit.writeBigInt64BE(BigInt(record.tags.offsetCommit.offset), 4);
+        tags.push([RECORD_TAG.OFFSET_COMMIT, offsetCommit]);
+    }
+    if (record.tags.partitionId !== undefined) {
+        const partitionId = Buffer.alloc(4);
+        partitionId.writeUInt32BE(record.tags.partitionId);
+        tags.push([RECORD_TAG.PARTITION_ID, partitionId]);
+    }
+    if (record.tags.groupId !== undefined) {
+        tags.push([RECORD_TAG.GROUP_ID, Buffer.from(record.tags.groupId, "utf-8")]);
+    }
+
+    let bodySize = 1 + 1 + 8 + 8 + 2 + topicId.length + 2 + messageId.length + 4 + (key ? key.length : 0) + 2;
+    for (const [name, headerValue] of headers) {
+        bodySize += 2 + name.length + 4 + headerValue.length;
+    }
+    bodySize += 4 + value.length + 1;
+    for (const [, tagValue] of tags) {
+        bodySize += 1 + 4 + tagValue.length;
+    }
+
+    const buf = Buffer.alloc(RECORD_PREFIX_BYTES + bodySize);
+    let pos = RECORD_PREFIX_BYTES;
+    pos = buf.writeUInt8(RECORD_MAGIC, pos);
+    pos = buf.writeUInt8(record.attributes, pos);
+    pos = buf.writeBigInt64BE(BigInt(record.offset), pos);
+    pos = buf.writeBigInt64BE(BigInt(record.timestamp), pos);
+    pos = buf.writeUInt16BE(topicId.length, pos);
+    pos += topicId.copy(buf, pos);
+    pos = buf.writeUInt16BE(messageId.length, pos);
+    pos += messageId.copy(buf, pos);
+    pos = buf.writeInt32BE(key ? key.length : -1, pos);
+    if (key) {
+        pos += key.copy(buf, pos);
+    }
+    pos = buf.writeUInt16BE(headers.length, pos);
+    for (const [name, headerValue] of headers) {
+        pos = buf.writeUInt16BE(name.length, pos);
+        pos += name.copy(buf, pos);
+        pos = buf.writeUInt32BE(headerValue.length, pos);
+        pos += headerValue.copy(buf, pos);
+    }
+    pos = buf.writeUInt32BE(value.length, pos);
+    pos += value.copy(buf, pos);
+    pos = buf.writeUInt8(tags.length, pos);
+    for (const [tagId, tagValue] of tags) {
+        pos = buf.writeUInt8(tagId, pos);
+        pos = buf.writeUInt32BE(tagValue.length, pos);
+        pos += tagValue.copy(buf, pos);
+    }
+
+    buf.writeUInt32BE(bodySize + 4, 0);
+    buf.writeUInt32BE(crc32(buf.subarray(RECORD_PREFIX_BYTES)), 4);
+    return buf;
+}
+
+// The raw value bytes are returned alongside, since a batch wrapper's value isn't text
+function decodeBody(body: Buffer): { record: LogRecord; value: Buffer } {
+    let pos = 0;
+    const magic = body.readUInt8(pos); pos += 1;
+    if (magic !== RECORD_MAGIC) {
+        throw new Error(`Unsupported record format version: ${magic}`);
+    }
+    const attributes = body.readUInt8(pos); pos += 1;
+    const offset = Number(body.readBigInt64BE(pos)); pos += 8;
+    const timestamp = Number(body.readBigInt64BE(pos)); pos += 8;
+
+    const topicIdLength = body.readUInt16BE(pos); pos += 2;
+    const topicId = body.toString("utf-8", pos, pos + topicIdLength); pos += topicIdLength;
+
+    const messageIdLength = body.readUInt16BE(pos); pos += 2;
+    const messageId = body.toString("utf-8", pos, pos + messageIdLength); pos += messageIdLength;
+
+    const keyLength = body.readInt32BE(pos); pos += 4;
+    let key: string | null = null;
+    if (keyLength >= 0) {
+        key = body.toString("utf-8", pos, pos + keyLength);
+        pos += keyLength;
+    }
+
+    const headerCount = body.readUInt16BE(pos); pos += 2;
+    const headers: Record<string, string> = {};
+    for (let i = 0; i < headerCount; i++) {
+        const nameLength = body.readUInt16BE(pos); pos += 2;
+        const name = body.toString("utf-8", pos, pos + nameLength); pos += nameLength;
+        const valueLength = body.readUInt32BE(pos); pos += 4;
+        headers[name] = body.toString("utf-8", pos, pos + valueLength); pos += valueLength;
+    }
+
+    const valueLength = body.readUInt32BE(pos); pos += 4;
+    const value = body.subarray(pos, pos + valueLength); pos += valueLength;
+
+    const tagCount = body.readUInt8(pos); pos += 1;
+    const tags: RecordTags = {};
+    for (let i = 0; i < tagCount; i++) {
+        const tagId = body.readUInt8(pos); pos += 1;
+        const tagLength = body.readUInt32BE(pos); pos += 4;
+        if (tagId === RECORD_TAG.SOURCE_OFFSET && tagLength === 8) {
+            tags.sourceOffset = Number(body.readBigInt64BE(pos));
+        } else if (tagId === RECORD_TAG.PRODUCER_ID) {
+            tags.producerId = body.toString("utf-8", pos, pos + tagLength);
+        } else if (tagId === RECORD_TAG.TRANSACTION_ID) {
+            tags.transactionId = body.toString("utf-8", pos, pos + tagLength);
+        } else if (tagId === RECORD_TAG.TRANSACTION_END) {
+            tags.transactionEnd = true;
+        } else if (tagId === RECORD_TAG.DELIVERY_COUNT && tagLength === 4) {
+            tags.deliveryCount = body.readUInt32BE(pos);
+        } else if (tagId === RECORD_TAG.DELIVER_AT && tagLength === 8) {
+            tags.deliverAt = Number(body.readBigInt64BE(pos));
+        } else if (tagId === RECORD_TAG.SCHEDULE_ID && tagLength === 8) {
+            tags.scheduleId = Number(body.readBigInt64BE(pos));
+        } else if (tagId === RECORD_TAG.TTL_MS && tagLength === 8) {
+            tags.ttlMs = Number(body.readBigInt64BE(pos));
+        } else if (tagId === RECORD_TAG.PRIORITY && tagLength === 1) {
+            tags.priority = body.readUInt8(pos);
+        } else if (tagId === RECORD_TAG.OFFSET_COMMIT && tagLength === 12) {
+            tags.offsetCommit = { partitionId: body.readUInt32BE(pos), offset: Number(body.readBigInt64BE(pos + 4)) };
+        } else if (tagId === RECORD_TAG.PARTITION_ID && tagLength === 4) {
+            tags.partitionId = body.readUInt32BE(pos);
+        } else if (tagId === RECORD_TAG.GROUP_ID) {
+            tags.groupId = body.toString("utf-8", pos, pos + tagLength);
+        }
+        pos += tagLength;
+    }
+    if (pos > body.length) {
+        throw new RangeError("Record body overruns its length prefix");
+    }
+
+    const text = (attributes & COMPRESSION_CODEC_MASK) === 0 ? value.toString("utf-8") : "";
+    return {
+        record: { offset, timestamp, attributes, topicId, messageId, key, headers, value: text, tags },
+        value
+    };
+}
+
+/**
+ * Decode the records of a log buffer starting at `start`, stopping at the first record that
+ * is incomplete (`torn`, e.g. a crash mid-append) or fails its CRC / structure check (`corrupt`).
+ * At most `maxRecords` records are decoded.
+ */
+export function scanRecords(buf: Buffer, start: number = 0, maxRecords: number = Infinity): RecordScanResult {
+    const records: DecodedRecord[] = [];
+    let pos = start;
+
+    while (pos < buf.length && records.length < maxRecords) {
+        if (buf.length - pos < RECORD_PREFIX_BYTES) {
+            return { records, validBytes: pos, status: "torn" };
+        }
+
+        const length = buf.readUInt32BE(pos);
+        const end = pos + 4 + length;
+        if (length < 4 || end > buf.length) {
+            return { records, validBytes: pos, status: "torn" };
+        }
+
+        const body = buf.subarray(pos + RECORD_PREFIX_BYTES, end);
+        if (crc32(body) !== buf.readUInt32BE(pos + 4)) {
+            return { records, validBytes: pos, status: "corrupt" };
+        }
+
+        try {
+            const { record, value } = decodeBody(body);
+            const codec = record.attributes & COMPRESSION_CODEC_MASK;
+            if (codec === 0) {
+                records.push({ record, position: pos, size: end - pos });
+            } else {
+                for (const inner of decompressBatch(codec, value)) {
+                    records.push({ record: inner, position: pos, size: end - pos });
+                }
+            }
+        } catch (error) {
+            return { records, validBytes: pos, status: "corrupt" };
+        }
+        pos = end;
+    }
+
+    return { records, validBytes: pos, status: "ok" };
+}
+
+/**
+ * Position of the first complete record at or after `from` that passes its CRC and decodes,
+ * or -1 if there is none. `scanRecords` stops at a damaged record; this tells a damaged tail
+ * (nothing readable follows) from damage in the middle of a log.
+ */
+export function findNextRecord(buf: Buffer, from: number): number {
+    for (let pos = from; pos + RECORD_PREFIX_BYTES <= buf.length; pos++) {
+        const length = buf.readUInt32BE(pos);
+        const end = pos + 4 + length;
+        if (length < 4 || end > buf.length) {
+            continue;
+        }
+        const body = buf.subarray(pos + RECORD_PREFIX_BYTES, end);
+        if (crc32(body) !== buf.readUInt32BE(pos + 4)) {
+            continue;
+        }
+        try {
+            decodeBody(body);
+            return pos;
+        } catch (error) {
+            continue;
+        }
+    }
+    return -1;
+}
+
+/**
+ * A log written before the binary format is plain `|`-delimited text. A binary log starts
+ * with the high byte of a length prefix (always 0 for records under 16 MiB) followed by a
+ * CRC-checked record; a text log starts with a printable character.
+ */
+export function isLegacyTextLog(buf: Buffer): boolean {
+    if (buf.length === 0 || buf[0] === 0x00) {
+        return false;
+    }
+    return scanRecords(buf, 0, 1).records.length === 0;
+}
+
+/**
+ * Index of the first record of a trailing transaction whose end record is missing (its
+ * append was torn by a crash), or -1 if the records don't end mid-transaction.
+ */
+export function findIncompleteTransaction(records: DecodedRecord[]): number {
+    const last = records[records.length - 1]?.record;
+    if (last?.tags.transactionId === undefined || last.tags.transactionEnd) {
+        return -1;
+    }
+    let first = records.length - 1;
+    while (first > 0 && records[first - 1].record.tags.transactionId === last.tags.transactionId && !records[first - 1].record.tags.transactionEnd) {
+        first--;
+    }
+    return first;
+}
@@ -0,0 +1,514 @@
+import fs from "fs";
+import path from "path";
+import ERROR_CODES from "./error-codes.js";
+import LogFileHandler from "./log-file-handler.js";
+import OffsetIndex from "./offset-index.js";
+import { ensureDirectoryExists } from "./utils.js";
+import { DecodedRecord, LogRecord, RecordTags, recordToMessage, scanRecords } from "./record-codec.js";
+import { Compression, FilePath, LOG_FILE_TYPE, Message, Response, RetentionPolicy, TopicId, PartitionId } from "./types.js";
+
+export type SegmentInfo = {
+    baseOffset: number;
+    filePath: FilePath;
+};
+
+/**
+ * Segmented Log
+ *
+ * A partition log split into a directory of segment files. Each segment is named after the
+ * offset of the first message it holds (zero-padded to 20 digits, e.g. `00000000000000001000.log`),
+ * so the offset range of a segment is `[baseOffset, nextSegment.baseOffset)`.
+ *
+ * Writes always go to the last ("active") segment. The active segment is rolled over once it
+ * reaches `segmentBytes` bytes or `segmentMessages` messages, whichever comes first.
+ * On open, a torn or corrupt tail of the active segment is truncated (see `LogFileHandler.recover`).
+ *
+ * Each segment has a sparse `.index` (see `OffsetIndex`) so reads can seek straight to the
+ * closest indexed record before a given offset instead of scanning the whole segment.
+ * Segments are read in bounded chunks, never loaded whole.
+ *
+ * During recovery only the segments that still hold messages past the committed `readOffset`
+ * are opened, one at a time, so restart cost and peak memory are bounded by the uncommitted
+ * tail of the log rather than its full history.
+ *
+ * Retention only ever deletes whole, fully committed, non-active segments from the head of
+ * the log, so offsets of the remaining messages never change.
+ */
+class SegmentedLog {
+    static readonly SEGMENT_FILE_EXTENSION = ".log";
+    private static readonly OFFSET_DIGITS = 20;
+    private static readonly READ_CHUNK_BYTES = 1024 * 1024;
+
+    private readonly directory: FilePath;
+    private readonly topicId: TopicId;
+    private readonly partitionId: PartitionId;
+    private readonly segmentBytes: number;
+    private readonly segmentMessages: number;
+    private readonly indexInterval: number;
+    private readonly compression: Compression;
+    private segments: SegmentInfo[] = [];
+    private readonly indexes: Map<number, OffsetIndex> = new Map();
+    private activeSegmentSize: number = 0;
+    private activeRecordCount: number = 0;
+    // Whether the active segment has appends that haven't been fsync'd yet
+    private isDirty: boolean = false;
+    private lastOffset: number;
+    private logHandler: LogFileHandler;
+
+    constructor(config: {
+        directory: FilePath,
+        topicId: TopicId,
+        partitionId: PartitionId,
+        segmentBytes: number,
+        segmentMessages: number,
+        indexInterval: number,
+        compression: Compression,
+        nextOffset: number,
+        legacyFilePath?: FilePath
+    }) {
+        const dirValidation = ensureDirectoryExists(config.directory);
+        if (!dirValidation.isValid) {
+            throw new Error(dirValidation.error);
+        }
+
+        this.directory = config.directory;
+        this.topicId = config.topicId;
+        this.partitionId = config.partitionId;
+        this.segmentBytes = config.segmentBytes;
+        this.segmentMessages = config.segmentMessages;
+        this.indexInterval = config.indexInterval;
+        this.compression = config.compression;
+
+        this.segments = SegmentedLog.listSegments(this.directory);
+
+        // Migrate a pre-segmentation `partition_N.log` into the first segment of the directory.
+        // Legacy offsets start at 1, so the whole file becomes segment `...0001.log`.
+        if (this.segments.length === 0 && config.legacyFilePath && fs.existsSync(config.legacyFilePath)) {
+            const migratedPath = this.segmentPath(1);
+            fs.renameSync(config.legacyFilePath, migratedPath);
+            console.log(`[SegmentedLog] Migrated legacy log ${config.legacyFilePath} to ${migratedPath}`);
+            this.segments = SegmentedLog.listSegments(this.directory);
+        }
+
+        if (this.segments.length === 0) {
+            this.segments.push(this.createSegment(config.nextOffset));
+        }
+
+        // Rewrite any segment still in the pre-binary text format
+        for (const segment of this.segments) {
+            const migrationResult = LogFileHandler.migrateLegacyTextLog(segment.filePath, LOG_FILE_TYPE.PARTITION_BUFFER);
+            if (!migrationResult.success) {
+                throw migrationResult.error;
+            }
+        }
+
+        // Only the active segment can have a torn tail, since the others are never appended to again
+        const active = this.activeSegment();
+        const recoveryResult = LogFileHandler.recover(active.filePath);
+        if (!recoveryResult.success) {
+            throw recoveryResult.error;
+        }
+        const { records, validBytes } = recoveryResult.data;
+        this.lastOffset = records.length > 0 ? records[records.length - 1].record.offset : active.baseOffset - 1;
+        this.activeSegmentSize = validBytes;
+        this.activeRecordCount = records.length;
+        this.logHandler = this.createHandler(active.filePath);
+
+        // The active index may lag or lead its segment after a crash, so rebuild it from the scan
+        this.rebuildIndex(active, records);
+    }
+
+    /**
+     * List the segment files of a partition directory, sorted by base offset.
+     */
+    static listSegments(directory: FilePath): SegmentInfo[] {
+        if (!fs.existsSync(directory)) {
+            return [];
+        }
+
+        return fs.readdirSync(directory)
+            .filter(name => name.endsWith(SegmentedLog.SEGMENT_FILE_EXTENSION))
+            .map(name => ({
+                baseOffset: Number(name.slice(0, -SegmentedLog.SEGMENT_FILE_EXTENSION.length)),
+                filePath: path.join(directory, name) as FilePath
+            }))
+            .filter(segment => Number.isInteger(segment.baseOffset))
+            .sort((a, b) => a.baseOffset - b.baseOffset);
+    }
+
+    static segmentFileName(baseOffset: number): string {
+        return String(baseOffset).padStart(SegmentedLog.OFFSET_DIGITS, "0") + SegmentedLog.SEGMENT_FILE_EXTENSION;
+    }
+
+    // Private methods
+    private segmentPath(baseOffset: number): FilePath {
+        return path.join(this.directory, SegmentedLog.segmentFileName(baseOffset)) as FilePath;
+    }
+
+    private createSegment(baseOffset: number): SegmentInfo {
+        const filePath = this.segmentPath(baseOffset);
+        if (!fs.existsSync(filePath)) {
+            fs.writeFileSync(filePath, "", "utf-8");
+        }
+        return { baseOffset, filePath };
+    }
+
+    private createHandler(filePath: FilePath): LogFileHandler {
+        return new LogFileHandler({
+            label: LOG_FILE_TYPE.PARTITION_BUFFER,
+            filePath,
+            topicId: this.topicId,
+            partitionId: this.partitionId
+        });
+    }
+
+    private activeSegment(): SegmentInfo {
+        return this.segments[this.segments.length - 1];
+    }
+
+    private rebuildIndex(segment: SegmentInfo, records: Iterable<DecodedRecord>): OffsetIndex {
+        const index = new OffsetIndex(OffsetIndex.indexPathFor(segment.filePath), segment.baseOffset);
+        const entries: { offset: number; position: number }[] = [];
+        let i = 0;
+        for (const { record, position } of records) {
+            // Records of a compressed batch share the batch's position; index it only once
+            if (i++ % this.indexInterval === 0 && position !== entries[entries.length - 1]?.position) {
+                entries.push({ offset: record.offset, position });
+            }
+        }
+        index.rewrite(entries);
+        this.indexes.set(segment.baseOffset, index);
+        return index;
+    }
+
+    // Load a segment's index, rebuilding it if it was never written (e.g. a migrated segment)
+    private getIndex(segment: SegmentInfo): OffsetIndex {
+        const cached = this.indexes.get(segment.baseOffset);
+        if (cached) {
+            return cached;
+        }
+
+        const index = new OffsetIndex(OffsetIndex.indexPathFor(segment.filePath), segment.baseOffset);
+        if (!index.exists()) {
+            return this.rebuildIndex(segment, this.readSegment(segment, 0));
+        }
+        index.load(fs.statSync(segment.filePath).size);
+        this.indexes.set(segment.baseOffset, index);
+        return index;
+    }
+
+    // Position of the segment that holds `offset` (the first segment if it was deleted by retention)
+    private findSegment(offset: number): number {
+        let low = 0;
+        let high = this.segments.length - 1;
+        let found = 0;
+        while (low <= high) {
+            const mid = (low + high) >>> 1;
+            if (this.segments[mid].baseOffset <= offset) {
+                found = mid;
+                low = mid + 1;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return found;
+    }
+
+    /**
+     * Decode the records of a segment from byte `position`, reading it in bounded chunks.
+     * Stops quietly at a torn record at the very end of the segment (an append still in
+     * flight); a corrupt record anywhere throws.
+     */
+    private *readSegment(segment: SegmentInfo, position: number): Generator<DecodedRecord> {
+        const fd = fs.openSync(segment.filePath, "r");
+        try {
+            const size = fs.fstatSync(fd).size;
+            let chunkSize = SegmentedLog.READ_CHUNK_BYTES;
+            while (position < size) {
+                const length = Math.min(chunkSize, size - position);
+                const chunk = Buffer.alloc(length);
+                fs.readSync(fd, chunk, 0, length, position);
+
+                const scan = scanRecords(chunk);
+                for (const decoded of scan.records) {
+                    yield { ...decoded, position: position + decoded.position };
+                }
+
+                if (scan.status === "corrupt") {
+                    throw new Error(`Segment ${segment.filePath} has a corrupt record at byte ${position + scan.validBytes}`);
+                }
+                if (scan.status === "torn") {
+                    if (position + length >= size) {
+                        return;
+                    }
+                    // A record larger than the chunk: grow the chunk and retry
+                    if (scan.records.length === 0) {
+                        chunkSize *= 2;
+                    }
+                }
+                position += scan.validBytes;
+            }
+        } finally {
+            fs.closeSync(fd);
+        }
+    }
+
+    // Records with an offset >= `fromOffset`, in offset order, seeking through the index
+    private *recordsFrom(fromOffset: number): Generator<LogRecord> {
+        const first = this.findSegment(fromOffset);
+        for (let i = first; i < this.segments.length; i++) {
+            const segment = this.segments[i];
+            const position = i === first ? this.getIndex(segment).lookup(fromOffset) : 0;
+            for (const { record } of this.readSegment(segment, position)) {
+                if (record.offset >= fromOffset) {
+                    yield record;
+                }
+            }
+        }
+    }
+
+    // Roll over to a new segment starting at `offset` if the active one is full.
+    private async maybeRollover(offset: number, entryBytes: number): Promise<void> {
+        const active = this.activeSegment();
+        if (this.activeSegmentSize === 0) {
+            return;
+        }
+
+        const isCountFull = offset - active.baseOffset >= this.segmentMessages;
+        const isSizeFull = this.activeSegmentSize + entryBytes > this.segmentBytes;
+        if (!isCountFull && !isSizeFull) {
+            return;
+        }
+
+        // Unsynced appends must not be left behind in a segment that `sync` no longer tracks
+        if (this.isDirty) {
+            const syncResult = await this.sync();
+            if (!syncResult.success) {
+                throw syncResult.error;
+            }
+        }
+
+        const segment = this.createSegment(offset);
+        this.segments.push(segment);
+        this.indexes.set(segment.baseOffset, new OffsetIndex(OffsetIndex.indexPathFor(segment.filePath), segment.baseOffset));
+        this.activeSegmentSize = 0;
+        this.activeRecordCount = 0;
+        this.logHandler = this.createHandler(segment.filePath);
+        console.log(`[SegmentedLog] Partition ${this.partitionId} of topic ${this.topicId} rolled over to segment ${segment.filePath}`);
+    }
+
+    // Public methods
+    async append(message: Message, offset: number, tags: RecordTags = {}): Promise<Response<boolean>> {
+        return this.appendBatch([{ message, offset, tags }]);
+    }
+
+    /**
+     * Append consecutive entries with a single write. With compression the batch is stored as one
+     * wrapper record and indexed at most once, at its first offset.
+     */
+    async appendBatch(entries: { message: Message; offset: number; tags?: RecordTags }[]): Promise<Response<boolean>> {
+        try {
+            if (entries.length === 0) {
+                return { success: true, data: true };
+            }
+
+            // Byte position of each entry within the write (all 0 for a compressed batch)
+            let data: Buffer;
+            let positions: number[];
+            if (this.compression === "none") {
+                const encoded = entries.map(entry => this.logHandler.formatLogEntry(entry.message, entry.offset, entry.tags));
+                data = Buffer.concat(encoded);
+                let position = 0;
+                positions = encoded.map(entry => (position += entry.length) - entry.length);
+            } else {
+                data = this.logHandler.formatBatch(entries, this.compression);
+                positions = entries.map(() => 0);
+            }
+
+            await this.maybeRollover(entries[0].offset, data.length);
+
+            const appendResult = await this.logHandler.appendBuffer(data);
+            if (!appendResult.success) {
+                return appendResult;
+            }
+
+            const index = this.getIndex(this.activeSegment());
+            let lastIndexedPosition = -1;
+            entries.forEach((entry, i) => {
+                if ((this.activeRecordCount + i) % this.indexInterval === 0 && positions[i] !== lastIndexedPosition) {
+                    // Every record of a compressed batch shares its position, so point at the batch start
+                    const offset = this.compression === "none" ? entry.offset : entries[0].offset;
+                    index.append(offset, this.activeSegmentSize + positions[i]);
+                    lastIndexedPosition = positions[i];
+                }
+            });
+            this.activeSegmentSize += data.length;
+            this.activeRecordCount += entries.length;
+            this.lastOffset = entries[entries.length - 1].offset;
+            this.isDirty = true;
+            return {
+                success: true,
+                data: true
+            };
+        } catch (error) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.LOG_FILE_APPEND_FAILED,
+                error: error
+            };
+        }
+    }
+
+    // fsync the active segment if it has unsynced appends (group commit for `acks: fsync` topics)
+    async sync(): Promise<Response<boolean>> {
+        if (!this.isDirty) {
+            return { success: true, data: true };
+        }
+        const syncResult = await this.logHandler.sync();
+        if (syncResult.success) {
+            this.isDirty = false;
+        }
+        return syncResult;
+    }
+
+    /**
+     * Replay every message with an offset greater than `afterOffset` (and up to `toOffset`), in
+     * offset order. Segments that only hold offsets up to `afterOffset` are never opened, and
+     * the first one is entered at the indexed position closest to `afterOffset`.
+     */
+    replay(afterOffset: number, onMessage: (message: Message, offset: number, tags: RecordTags) => void, toOffset: number = Infinity): Response<number> {
+        try {
+            let replayed = 0;
+            for (const record of this.recordsFrom(afterOffset + 1)) {
+                if (record.offset > toOffset) {
+                    break;
+                }
+                onMessage(recordToMessage(record), record.offset, record.tags);
+                replayed++;
+            }
+
+            return {
+                success: true,
+                data: replayed
+            };
+        } catch (error) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.CORRUPT_RECORD,
+                error: error
+            };
+        }
+    }
+
+    /**
+     * Read up to `maxMessages` messages starting at `fromOffset` (or at the oldest retained
+     * offset, if `fromOffset` has already been deleted by retention).
+     */
+    read(fromOffset: number, maxMessages: number): Response<{ offset: number; message: Message }[]> {
+        try {
+            const entries: { offset: number; message: Message }[] = [];
+            if (maxMessages <= 0) {
+                return { success: true, data: entries };
+            }
+            for (const record of this.recordsFrom(fromOffset)) {
+                entries.push({ offset: record.offset, message: recordToMessage(record) });
+                if (entries.length >= maxMessages) {
+                    break;
+                }
+            }
+
+            return {
+                success: true,
+                data: entries
+            };
+        } catch (error) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.CORRUPT_RECORD,
+                error: error
+            };
+        }
+    }
+
+    /**
+     * Delete segments from the head of the log that are fully committed (every offset
+     * `<= committedOffset`) and past the retention policy. A segment is past `retentionMs`
+     * once its last write is older than the limit, and past `retentionBytes` while the log
+     * is larger than the limit. The active segment is never deleted.
+     */
+    enforceRetention(committedOffset: number, policy: RetentionPolicy, now: number = Date.now()): Response<number> {
+        try {
+            if (policy.retentionMs === undefined && policy.retentionBytes === undefined) {
+                return { success: true, data: 0 };
+            }
+
+            let totalSize = this.getSize();
+            let deleted = 0;
+
+            while (this.segments.length > 1) {
+                const [oldest, next] = this.segments;
+                if (next.baseOffset - 1 > committedOffset) {
+                    break;
+                }
+
+                const stats = fs.statSync(oldest.filePath);
+                const isExpired = policy.retentionMs !== undefined && now - stats.mtimeMs > policy.retentionMs;
+                const isOversized = policy.retentionBytes !== undefined && totalSize > policy.retentionBytes;
+                if (!isExpired && !isOversized) {
+                    break;
+                }
+
+                fs.rmSync(oldest.filePath, { force: true });
+                fs.rmSync(OffsetIndex.indexPathFor(oldest.filePath), { force: true });
+                this.indexes.delete(oldest.baseOffset);
+                this.segments.shift();
+                totalSize -= stats.size;
+                deleted++;
+                console.log(`[SegmentedLog] Partition ${this.partitionId} of topic ${this.topicId} deleted segment ${oldest.filePath}`);
+            }
+
+            return {
+                success: true,
+                data: deleted
+            };
+        } catch (error) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.RETENTION_FAILED,
+                error: error
+            };
+        }
+    }
+
+    getSize(): number {
+        let size = 0;
+        for (const segment of this.segments) {
+            size += fs.statSync(segment.filePath).size;
+        }
+        return size;
+    }
+
+    // Offset of the newest message on disk, i.e. the log's true end offset
+    getLastOffset(): number {
+        return this.lastOffset;
+    }
+
+    // The newest record on disk (null if the log is empty)
+    getLastRecord(): LogRecord | null {
+        for (const record of this.recordsFrom(this.lastOffset)) {
+            return record;
+        }
+        return null;
+    }
+
+    // Offset of the oldest message still retained on disk
+    getLogStartOffset(): number {
+        return this.segments[0].baseOffset;
+    }
+
+    getSegments(): SegmentInfo[] {
+        return [...this.segments];
+    }
+}
+
+export default SegmentedLog;
@@ -1,7 +1,7 @@
-import fs from "fs";
 import path from "path";
-import { TopicId, PartitionId, ConsumerId } from "./types.js";
+import { TopicId, PartitionId, ConsumerId, DEFAULT_GROUP_ID, GroupId } from "./types.js";
 import getEnv from "./env-config.js";
+import { atomicFileExists, readAtomicFile, writeAtomicFile } from "./atomic-file.js";
 
 
 const TPC_LOG_FILE = "TPC.log";
@@ -11,58 +11,75 @@ export function getTPCLogPath(): string {
     return path.join(process.cwd(), dataDir, TPC_LOG_FILE);
 }
 
-export function serializeTPCMap(tpcMap: Map<TopicId, Map<PartitionId, ConsumerId>>): string {
+/**
+ * One line per consumer group assigned to a partition, `{topicId}|{partitionId}|{consumerId}|{groupId}`,
+ * and `{topicId}|{partitionId}|` for a partition without any. A line without a group (written
+ * before consumer groups existed) belongs to the default group.
+ */
+export function serializeTPCMap(tpcMap: Map<TopicId, Map<PartitionId, Map<GroupId, ConsumerId>>>): string {
     const lines: string[] = [];
 
     for (const [topicId, partitionMap] of tpcMap) {
-        for (const [partitionId, consumerId] of partitionMap) {
-            lines.push(`${topicId}|${partitionId}|${consumerId}`);
+        for (const [partitionId, groupMap] of partitionMap) {
+            if (groupMap.size === 0) {
+                lines.push(`${topicId}|${partitionId}|`);
+            }
+            for (const [groupId, consumerId] of groupMap) {
+                lines.push(`${topicId}|${partitionId}|${consumerId}|${groupId}`);
+            }
         }
     }
 
     return lines.join("\n") + "\n";
 }
 
-export function deserializeTPCMap(content: string): Map<TopicId, Map<PartitionId, ConsumerId>> {
-    const tpcMap = new Map<TopicId, Map<PartitionId, ConsumerId>>();
+export function deserializeTPCMap(content: string): Map<TopicId, Map<PartitionId, Map<GroupId, ConsumerId>>> {
+    const tpcMap = new Map<TopicId, Map<PartitionId, Map<GroupId, ConsumerId>>>();
 
     const lines = content.split("\n").filter(line => line.trim());
 
     for (const line of lines) {
-        const [topicId, partitionIdStr, consumerId] = line.split("|");
+        const [topicId, partitionIdStr, consumerId, groupId = DEFAULT_GROUP_ID] = line.split("|");
         const partitionId = parseInt(partitionIdStr);
 
         if (!tpcMap.has(topicId)) {
-            tpcMap.set(topicId, new Map<PartitionId, ConsumerId>());
+            tpcMap.set(topicId, new Map<PartitionId, Map<GroupId, ConsumerId>>());
+        }
+        const partitionMap = tpcMap.get(topicId)!;
+        if (!partitionMap.has(partitionId)) {
+            partitionMap.set(partitionId, new Map<GroupId, ConsumerId>());
         }
 
-        tpcMap.get(topicId)!.set(partitionId, consumerId || "");
+        if (consumerId) {
+            partitionMap.get(partitionId)!.set(groupId, consumerId);
+        }
     }
 
     return tpcMap;
 }
 
-export function writeTPCLog(tpcMap: Map<TopicId, Map<PartitionId, ConsumerId>>): void {
+export function writeTPCLog(tpcMap: Map<TopicId, Map<PartitionId, Map<GroupId, ConsumerId>>>): void {
     const logPath = getTPCLogPath();
     const content = serializeTPCMap(tpcMap);
-    fs.writeFileSync(logPath, content);
+    writeAtomicFile(logPath, content);
     console.log(`[TPCHelper] TPC Map written to ${logPath}`);
 }
 
-export function readTPCLog(): Map<TopicId, Map<PartitionId, ConsumerId>> | null {
+export function readTPCLog(): Map<TopicId, Map<PartitionId, Map<GroupId, ConsumerId>>> | null {
     const logPath = getTPCLogPath();
 
-    if (!fs.existsSync(logPath)) {
+    // Falls back to the previous copy if the latest write was torn; throws if no copy is valid
+    const stored = readAtomicFile(logPath);
+    if (!stored) {
         console.log(`[TPCHelper] TPC.log not found at ${logPath}`);
         return null;
     }
 
-    const content = fs.readFileSync(logPath, "utf-8");
-    const tpcMap = deserializeTPCMap(content);
+    const tpcMap = deserializeTPCMap(stored.content);
     console.log(`[TPCHelper] TPC Map loaded from ${logPath} with ${tpcMap.size} topic(s)`);
     return tpcMap;
 }
 
 export function tpcLogExists(): boolean {
-    return fs.existsSync(getTPCLogPath());
+    return atomicFileExists(getTPCLogPath());
 }
@@ -2,15 +2,144 @@ export type PartitionId = number;
 export type TopicId = string;
 export type BrokerId = string;
 export type ConsumerId = string;
+export type GroupId = string;
+
+// Group of consumers that don't name one
+export const DEFAULT_GROUP_ID: GroupId = "default";
 
 export type Message = {
     topicId: TopicId;
     messageId: string;
     content: string;
+    // Partition key; messages with the same key share a partition (see `Partitioner`)
+    key?: string;
+    // Explicit partition, which bypasses the topic's partitioner
+    partitionId?: PartitionId;
+    // Application metadata (trace id, content type, schema version, ...)
+    headers?: Record<string, string>;
+    // When the broker accepted the message (ms since epoch), stored as the record timestamp
+    timestamp?: number;
+    // Time to live from `timestamp`; an expired message is never delivered
+    ttlMs?: number;
+    // 0 (default) to `MAX_PRIORITY`; higher priorities are consumed first
+    priority?: number;
+    // Set on the control record of a transaction that commits an input offset; never routed to a partition
+    offsetCommit?: OffsetCommit;
+    // Set on messages returned by `/consume`: the message's offset in its partition
+    offset?: number;
+    // Set on messages returned by `/consume`: how many times this message has been delivered
+    deliveryCount?: number;
 }
 
+export const MAX_PRIORITY = 9;
+
+// A partition commit made by a consume-transform-produce transaction (see `IngressBuffer`)
+export type OffsetCommit = {
+    partitionId: PartitionId;
+    groupId: GroupId;
+    consumerId: ConsumerId;
+    offset: number;
+};
+
 export type FilePath = string;
 
+/**
+ * Durability level of a write:
+ * - `none`: acknowledged once staged in memory
+ * - `leader`: acknowledged once written to the OS page cache
+ * - `fsync`: acknowledged once fsync'd to disk (group-committed with the rest of its batch)
+ */
+export type Acks = "none" | "leader" | "fsync";
+
+export const ACKS_LEVELS: Acks[] = ["none", "leader", "fsync"];
+
+// Codec for record batches written to disk (from Node's zlib)
+export type Compression = "none" | "gzip" | "deflate" | "brotli";
+
+export const COMPRESSION_TYPES: Compression[] = ["none", "gzip", "deflate", "brotli"];
+
+// How a topic spreads messages that don't name a partition (see `Partitioner`)
+export type PartitionerStrategy = "murmur2" | "round-robin" | "sticky" | "explicit";
+
+export const PARTITIONER_STRATEGIES: PartitionerStrategy[] = ["murmur2", "round-robin", "sticky", "explicit"];
+
+// How a consumer group's partitions are divided among its consumers (see `Assignor`)
+export type AssignmentStrategy = "range" | "round-robin" | "sticky";
+
+export const ASSIGNMENT_STRATEGIES: AssignmentStrategy[] = ["range", "round-robin", "sticky"];
+
+export interface TopicConfig {
+    id: string;
+    partitions: number;
+    segmentBytes: number;
+    segmentMessages: number;
+    indexInterval: number;
+    acks: Acks;
+    compression: Compression;
+    partitioner: PartitionerStrategy;
+    // Unkeyed messages the `sticky` partitioner sends to one partition before moving on
+    stickyBatchSize: number;
+    assignmentStrategy: AssignmentStrategy;
+    retentionMs?: number;
+    retentionBytes?: number;
+    // How long a consumed batch stays leased to its consumer before it is offered again
+    visibilityTimeoutMs: number;
+    // How long a consumer group can be idle before it is dropped with its offsets
+    groupRetentionMs: number;
+    // Default time to live of the topic's messages
+    ttlMs?: number;
+    // After this many deliveries a nacked message goes to `deadLetterTopic` instead of being redelivered
+    maxDeliveries?: number;
+    // Move expired messages to `deadLetterTopic` instead of dropping them
+    deadLetterExpired?: boolean;
+    deadLetterTopic?: TopicId;
+}
+
+export type RetentionPolicy = {
+    retentionMs?: number;
+    retentionBytes?: number;
+};
+
+/**
+ * A batch handed out by `/consume`, reserved for one consumer of `groupId` until `expiresAt`.
+ * Other groups consume the same messages independently.
+ * Covers `offsets` (ascending), which lie between `startOffset + 1` and `endOffset` like the
+ * batch itself. Only a batch of a single priority is guaranteed to be contiguous.
+ */
+export type Lease = {
+    leaseId: string;
+    groupId: GroupId;
+    consumerId: ConsumerId;
+    offsets: number[];
+    startOffset: number;
+    endOffset: number;
+    expiresAt: number;
+};
+
+// A consumer's share of its group's partitions (see `GroupCoordinator`)
+export type ConsumerAssignment = {
+    // Bumped by every rebalance of the group
+    generation: number;
+    partitionIds: PartitionId[];
+    // Partitions it still owns but has to release: a rebalance moved them to another consumer
+    revokingPartitionIds: PartitionId[];
+};
+
+// Producer retry deduplication window (see `DedupWindow`)
+export interface DedupConfig {
+    windowMs: number;
+    windowSize: number;
+}
+
+export interface BrokerConfig {
+    brokerId: string;
+    topics: TopicConfig[];
+    reboot: boolean;
+    dedup: DedupConfig;
+    // A consumer that hasn't been heard from for this long loses its partitions
+    sessionTimeoutMs: number;
+}
+
 export type ValidationResult = {
     isValid: boolean;
     error?: string;
@@ -31,5 +160,17 @@ export type Response<T = any> = SuccessResponse<T> | ErrorResponse;
 
 export enum LOG_FILE_TYPE {
     INGRESS_BUFFER,
-    PARTITION_BUFFER
+    PARTITION_BUFFER,
+    SCHEDULER
 }
+
+export type FsckSeverity = "error" | "warning";
+
+export type FsckIssue = {
+    severity: FsckSeverity;
+    // Path relative to the data directory
+    location: string;
+    message: string;
+    // Set when `--repair` fixed the issue; describes what was done
+    repair?: string;
+};
@@ -1,64 +1,107 @@
-import { createHash } from "node:crypto";
 import Partition from "./partition.js";
 import ERROR_CODES from "./shared/error-codes.js";
-import { Message, PartitionId, Response, TopicId } from "./shared/types.js";
+import { Assignor, createAssignor } from "./shared/assignor.js";
+import { Partitioner, createPartitioner } from "./shared/partitioner.js";
+import { atomicFileExists } from "./shared/atomic-file.js";
+import { Acks, ConsumerId, GroupId, Lease, Message, PartitionId, Response, TopicConfig, TopicId, ValidationResult } from "./shared/types.js";
 
+/**
+ * Topic
+ * 
+ * Owns the partitions of a topic and routes messages to them with the topic's `partitioner`
+ * strategy (see `Partitioner`).
+ * 
+ * Messages a consumer nacked are settled when it commits past them: they are appended to the
+ * end of their partition again, or, once they have been delivered `maxDeliveries` times, to
+ * the topic's dead-letter topic (a normal topic, `{topicId}.DLQ` unless configured otherwise).
+ * 
+ * Expired messages (past `ttlMs`) are settled the same way: dropped, or moved to the
+ * dead-letter topic with `deadLetterExpired`. A partition's expired head is committed as
+ * soon as it is found, since no consumer will ever be handed those messages.
+ * 
+ * A batch is committed either up to an offset (`commitOffset`) or by its lease
+ * (`commitLease`), which leaves out the older, lower-priority messages it skipped.
+ * 
+ * Consumption is tracked per consumer group: a group's commits, nacks and expired messages
+ * only settle messages for that group. A nacked message is redelivered to its group alone,
+ * while a message that expired or was dead-lettered by several groups is moved to the
+ * dead-letter topic once per group.
+ */
 class Topic {
     private readonly topicId: TopicId;
     private readonly noOfPartitions: number;
+    private readonly config: TopicConfig;
     private partitions: Map<PartitionId, Partition>;
+    private readonly partitioner: Partitioner;
+    private readonly assignor: Assignor;
+    private deadLetterTopic?: Topic;
 
-    constructor(topicId: TopicId, noOfPartitions: number) {
+    constructor(topicId: TopicId, noOfPartitions: number, config: TopicConfig) {
         console.log(`[Topic] Initializing Topic: ${topicId}`);
         this.topicId = topicId;
         this.noOfPartitions = noOfPartitions;
+        this.config = config;
         this.partitions = new Map<PartitionId, Partition>();
+        this.partitioner = createPartitioner(config.partitioner, noOfPartitions, config.stickyBatchSize);
+        this.assignor = createAssignor(config.assignmentStrategy);
         this.setupPartitions();
         console.log(`[Topic] Topic ${topicId} initialized with ${noOfPartitions} partition(s)`);
     }
 
     private setupPartitions(): void {
+        // A topic without an offsets file was consumed before consumer groups existed
+        const migrateLegacyOffsets = !atomicFileExists(Partition.getGroupOffsetsFilePath(this.topicId));
+
         // Create partitions
         for (let i = 0; i < this.noOfPartitions; i++) {
-            this.partitions.set(i, new Partition(i, this.topicId));
+            this.partitions.set(i, new Partition(i, this.topicId, {
+                segmentBytes: this.config.segmentBytes,
+                segmentMessages: this.config.segmentMessages,
+                indexInterval: this.config.indexInterval,
+                acks: this.config.acks,
+                compression: this.config.compression,
+                visibilityTimeoutMs: this.config.visibilityTimeoutMs,
+                ttlMs: this.config.ttlMs,
+                groupRetentionMs: this.config.groupRetentionMs,
+                migrateLegacyOffsets
+            }));
         }
     }
 
-    private assignPartition(messageId: string): Response<PartitionId> {
-        try {
-            // Generate a secure hash of the string messageId
-            const hash = createHash('sha256')
-                .update(messageId)
-                .digest('hex');
-
-            // Convert hash to a number for partition assignment
-            const hashValue = parseInt(hash.substring(0, 8), 16);
-            const partitionId = hashValue % this.noOfPartitions;
+    // The partitions (other than `partitionId`) whose messages end a long poll early
+    private getWakePartitions(partitionId: PartitionId, wakeOn: PartitionId[] = []): Partition[] {
+        return wakeOn
+            .filter(other => other !== partitionId)
+            .map(other => this.partitions.get(other))
+            .filter((other): other is Partition => other !== undefined);
+    }
 
-            const partitionExists = this.partitions.has(partitionId);
-            if (!partitionExists) {
-                return {
-                    success: false,
-                    errorCode: ERROR_CODES.PARTITION_NOT_FOUND,
-                    error: `Partition ${partitionId} not found`
-                }
-            }
+    // Resolves once messages are appended to any of `partitions`, after `waitMs`, or when `signal` aborts
+    private static async waitForAny(partitions: Partition[], waitMs: number, signal?: AbortSignal): Promise<void> {
+        const woken = new AbortController();
+        const onAbort = () => woken.abort();
+        signal?.addEventListener("abort", onAbort);
+        await Promise.race(partitions.map(partition => partition.waitForMessages(waitMs, woken.signal)));
+        // Stop the other waits
+        woken.abort();
+        signal?.removeEventListener("abort", onAbort);
+    }
 
-            return {
-                success: true,
-                data: partitionId
-            }
-        } catch (error) {
+    // `position` is the message's place among the messages routed to the topic (see `Partitioner`)
+    private assignPartition(message: Message, position?: number): Response<PartitionId> {
+        const partitionIdResponse = this.partitioner.partition(message, position);
+        if (partitionIdResponse.success && !this.partitions.has(partitionIdResponse.data)) {
             return {
                 success: false,
-                errorCode: ERROR_CODES.UNKNOWN_ERROR,
-                error: error
+                errorCode: ERROR_CODES.PARTITION_NOT_FOUND,
+                error: `Partition ${partitionIdResponse.data} not found`
             }
         }
+        return partitionIdResponse;
     }
 
-    async push(message: Message): Promise<Response<void>> {
-        const partitionIdResponse = this.assignPartition(message.messageId);
+    async push(message: Message, sourceOffset?: number): Promise<Response<void>> {
+        const partitionIdResponse = this.assignPartition(message);
         if (!partitionIdResponse.success) {
             console.log(`[Topic] Failed to assign partition for message ${message.messageId}: ${partitionIdResponse.errorCode}`);
             return partitionIdResponse;
@@ -74,12 +117,28 @@ class Topic {
             }
         }
         console.log(`[Topic] Pushing message ${message.messageId} to topic ${this.topicId}, partition ${partitionId}`);
-        return await partition.push(message);
+        return await partition.push(message, sourceOffset);
     }
 
-    async batchPush(messages: Message[]): Promise<Response<void>> {
-        for (const message of messages) {
-            const result = await this.push(message);
+    // Messages bound for the same partition are appended together, in order, as one write
+    async batchPush(entries: { message: Message; sourceOffset?: number; position?: number; deliveryCount?: number }[]): Promise<Response<void>> {
+        const entriesByPartition = new Map<PartitionId, { message: Message; sourceOffset?: number; position?: number; deliveryCount?: number }[]>();
+        for (const entry of entries) {
+            const partitionIdResponse = this.assignPartition(entry.message, entry.position);
+            if (!partitionIdResponse.success) {
+                console.log(`[Topic] Failed to assign partition for message ${entry.message.messageId}: ${partitionIdResponse.errorCode}`);
+                return partitionIdResponse;
+            }
+            const partitionId = partitionIdResponse.data;
+            if (!entriesByPartition.has(partitionId)) {
+                entriesByPartition.set(partitionId, []);
+            }
+            entriesByPartition.get(partitionId)!.push(entry);
+        }
+
+        for (const [partitionId, partitionEntries] of entriesByPartition) {
+            console.log(`[Topic] Pushing ${partitionEntries.length} message(s) to topic ${this.topicId}, partition ${partitionId}`);
+            const result = await this.partitions.get(partitionId)!.batchPush(partitionEntries);
             if (!result.success) {
                 return result;
             }
@@ -87,6 +146,350 @@ class Topic {
         return { success: true, data: undefined };
     }
 
+    /**
+     * Lease the next batch of a partition to `consumerId` of `groupId` (see
+     * `Partition.batchExtract`), then commit any expired messages it found at the head of the
+     * partition for the group.
+     *
+     * With a `waitMs`, this long-polls: it waits up to `waitMs` for `minMessages` (at most
+     * `batchSize`) to be available first, and then leases whatever there is. Waiting stops
+     * early when `signal` aborts (the consumer went away), or when messages are available on
+     * one of the `wakeOn` partitions (the consumer's others), so it can fetch them instead.
+     */
+    async batchExtract(partitionId: PartitionId, batchSize: number, groupId: GroupId, consumerId: ConsumerId, wait: { waitMs: number; minMessages: number; signal?: AbortSignal; wakeOn?: PartitionId[] } = { waitMs: 0, minMessages: 1 }): Promise<Response<{ messages: Message[]; startOffset: number; endOffset: number; lease: Lease }>> {
+        const partition = this.partitions.get(partitionId);
+        if (!partition) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.PARTITION_NOT_FOUND,
+                error: `Partition ${partitionId} not found`
+            };
+        }
+
+        const minMessages = Math.min(wait.minMessages, batchSize);
+        const deadline = Date.now() + wait.waitMs;
+        const others = this.getWakePartitions(partitionId, wait.wakeOn);
+        while (Date.now() < deadline && !wait.signal?.aborted && partition.countAvailable(minMessages, groupId) < minMessages
+            && !others.some(other => other.countAvailable(1, groupId) > 0)) {
+            await Topic.waitForAny([partition, ...others], deadline - Date.now(), wait.signal);
+        }
+        if (wait.signal?.aborted) {
+            // Nobody to lease the batch to
+            return {
+                success: false,
+                errorCode: ERROR_CODES.BUFFER_EMPTY,
+                error: `Consumer ${consumerId} stopped waiting for partition ${partitionId}`
+            };
+        }
+
+        const extractResult = partition.batchExtract(batchSize, groupId, consumerId);
+
+        const expiredHeadEnd = partition.getExpiredHeadEnd(groupId);
+        if (expiredHeadEnd > (partition.getCommittedOffset(groupId) ?? expiredHeadEnd)) {
+            const commitResult = await this.commitOffset(partitionId, expiredHeadEnd, groupId, consumerId);
+            if (!commitResult.success) {
+                console.log(`[Topic] Failed to commit expired messages of topic ${this.topicId}, partition ${partitionId} up to ${expiredHeadEnd} for group ${groupId}: ${commitResult.errorCode}`);
+            }
+        }
+        return extractResult;
+    }
+
+    /**
+     * Read a partition's log from `fromOffset` (see `Partition.readRange`). With a `waitMs`,
+     * this long-polls like `batchExtract`: it waits up to `waitMs` for `minMessages` (at most
+     * `maxMessages`) to be appended from `fromOffset` on, until `signal` aborts, or until
+     * messages are appended to one of the `wakeOn` partitions.
+     */
+    async readRange(partitionId: PartitionId, fromOffset: number, maxMessages: number, wait: { waitMs: number; minMessages: number; signal?: AbortSignal; wakeOn?: PartitionId[] } = { waitMs: 0, minMessages: 1 }): Promise<Response<{ messages: Message[]; startOffset: number; endOffset: number }>> {
+        const partition = this.partitions.get(partitionId);
+        if (!partition) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.PARTITION_NOT_FOUND,
+                error: `Partition ${partitionId} not found`
+            };
+        }
+
+        // An offset past the end is refused by readRange right away
+        const minMessages = Math.min(wait.minMessages, maxMessages);
+        const deadline = Date.now() + wait.waitMs;
+        const others = this.getWakePartitions(partitionId, wait.wakeOn);
+        const othersEndOffset = () => others.reduce((sum, other) => sum + other.getLogEndOffset(), 0);
+        const startEndOffset = othersEndOffset();
+        while (Date.now() < deadline && !wait.signal?.aborted && fromOffset <= partition.getLogEndOffset() + 1
+            && partition.getLogEndOffset() - fromOffset + 1 < minMessages && othersEndOffset() === startEndOffset) {
+            await Topic.waitForAny([partition, ...others], deadline - Date.now(), wait.signal);
+        }
+        if (wait.signal?.aborted) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.BUFFER_EMPTY,
+                error: `Stopped waiting for partition ${partitionId}`
+            };
+        }
+        return partition.readRange(fromOffset, maxMessages);
+    }
+
+    /**
+     * Settle the nacked and expired messages a commit of `groupId` covers. A nacked message is
+     * redelivered to the group at the end of its partition, or dead-lettered once it has been
+     * delivered `maxDeliveries` times. An expired one is dropped, or dead-lettered with
+     * `deadLetterExpired`.
+     */
+    private async settle(partitionId: PartitionId, partition: Partition, groupId: GroupId, isCovered: (offset: number) => boolean): Promise<Response<{ redelivered: number; deadLettered: number; expired: number }>> {
+        const nacked = partition.getNacked(groupId, isCovered);
+        const maxDeliveries = this.config.maxDeliveries;
+        const toDeadLetter = nacked.filter(({ deliveryCount }) => maxDeliveries !== undefined && deliveryCount >= maxDeliveries);
+        const toRedeliver = nacked.filter(({ deliveryCount }) => maxDeliveries === undefined || deliveryCount < maxDeliveries);
+        const expired = partition.getExpired(groupId, isCovered);
+        if (this.config.deadLetterExpired) {
+            // Without its TTL, so it doesn't expire again in the dead-letter topic
+            toDeadLetter.push(...expired.map(({ offset, message }) => ({ offset, message: { ...message, ttlMs: undefined }, deliveryCount: 0 })));
+            toDeadLetter.sort((a, b) => a.offset - b.offset);
+        } else if (expired.length > 0) {
+            console.log(`[Topic] Dropping ${expired.length} expired message(s) of topic ${this.topicId}, partition ${partitionId}`);
+        }
+
+        if (toDeadLetter.length > 0) {
+            if (!this.deadLetterTopic) {
+                return {
+                    success: false,
+                    errorCode: ERROR_CODES.TOPIC_NOT_FOUND,
+                    error: new Error(`Dead-letter topic ${this.config.deadLetterTopic} of topic ${this.topicId} not found`)
+                };
+            }
+            const deadLetterTopicId = this.deadLetterTopic.topicId;
+            console.log(`[Topic] Moving ${toDeadLetter.length} message(s) of topic ${this.topicId}, partition ${partitionId} to dead-letter topic ${deadLetterTopicId}`);
+            // Placed by the dead-letter topic's own partitioner, which may have fewer partitions
+            const pushResult = await this.deadLetterTopic.batchPush(toDeadLetter.map(({ message }) => ({
+                message: { ...message, topicId: deadLetterTopicId, partitionId: undefined }
+            })));
+            if (!pushResult.success) {
+                return pushResult;
+            }
+            const syncResult = await this.deadLetterTopic.sync();
+            if (!syncResult.success) {
+                return syncResult;
+            }
+        }
+
+        if (toRedeliver.length > 0) {
+            console.log(`[Topic] Redelivering ${toRedeliver.length} nacked message(s) of topic ${this.topicId}, partition ${partitionId}`);
+            const pushResult = await partition.batchPush(toRedeliver.map(({ message, deliveryCount }) => ({ message, deliveryCount, groupId })));
+            if (!pushResult.success) {
+                return pushResult;
+            }
+            const syncResult = await partition.sync();
+            if (!syncResult.success) {
+                return syncResult;
+            }
+        }
+
+        return {
+            success: true,
+            data: {
+                redelivered: toRedeliver.length,
+                deadLettered: toDeadLetter.length,
+                expired: expired.length
+            }
+        };
+    }
+
+    /**
+     * Commit a partition up to `offset` for `groupId`, first settling the messages nacked or
+     * expired at or below it (see `settle`). The commit is refused while it would cut short a
+     * batch another consumer of the group still holds a lease on, unless `checkLeases` is off:
+     * a transaction's offset commit was checked (and fenced) when the transaction committed.
+     */
+    async commitOffset(partitionId: PartitionId, offset: number, groupId: GroupId, consumerId: ConsumerId, checkLeases: boolean = true): Promise<Response<{ logEndOffset: number; newReadOffset: number; redelivered: number; deadLettered: number; expired: number }>> {
+        const partition = this.partitions.get(partitionId);
+        if (!partition) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.PARTITION_NOT_FOUND,
+                error: `Partition ${partitionId} not found`
+            };
+        }
+
+        // Validate before settling: redelivered messages move logEndOffset forward
+        const { logEndOffset } = partition.getStats();
+        if (offset > logEndOffset) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.INVALID_OFFSET,
+                error: new Error(`Invalid offset: ${offset} exceeds logEndOffset: ${logEndOffset}`)
+            };
+        }
+
+        const conflictingLease = checkLeases ? partition.getConflictingLease(offset, groupId, consumerId) : undefined;
+        if (conflictingLease) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.LEASE_CONFLICT,
+                error: new Error(`Offsets ${conflictingLease.startOffset + 1}..${conflictingLease.endOffset} are leased to consumer ${conflictingLease.consumerId} of group ${groupId} until ${new Date(conflictingLease.expiresAt).toISOString()}`)
+            };
+        }
+
+        const settleResult = await this.settle(partitionId, partition, groupId, settledOffset => settledOffset <= offset);
+        if (!settleResult.success) {
+            return settleResult;
+        }
+
+        const commitResult = partition.commitOffset(offset, groupId);
+        if (!commitResult.success) {
+            return commitResult;
+        }
+        return {
+            success: true,
+            data: {
+                ...commitResult.data,
+                ...settleResult.data
+            }
+        };
+    }
+
+    /**
+     * Fence a partition up to `offset` for `groupId` on behalf of a committing transaction (see
+     * `Partition.fenceOffset`). Refused like `commitOffset` while another consumer of the group
+     * holds a lease it would cut short.
+     */
+    fenceOffset(partitionId: PartitionId, offset: number, groupId: GroupId, consumerId: ConsumerId): Response<void> {
+        const partition = this.partitions.get(partitionId);
+        if (!partition) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.PARTITION_NOT_FOUND,
+                error: `Partition ${partitionId} not found`
+            };
+        }
+
+        const { logEndOffset } = partition.getStats();
+        if (offset > logEndOffset) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.INVALID_OFFSET,
+                error: new Error(`Invalid offset: ${offset} exceeds logEndOffset: ${logEndOffset}`)
+            };
+        }
+
+        const conflictingLease = partition.getConflictingLease(offset, groupId, consumerId);
+        if (conflictingLease) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.LEASE_CONFLICT,
+                error: new Error(`Offsets ${conflictingLease.startOffset + 1}..${conflictingLease.endOffset} are leased to consumer ${conflictingLease.consumerId} of group ${groupId} until ${new Date(conflictingLease.expiresAt).toISOString()}`)
+            };
+        }
+
+        partition.fenceOffset(offset, groupId);
+        return { success: true, data: undefined };
+    }
+
+    unfenceOffset(partitionId: PartitionId, offset: number, groupId: GroupId): void {
+        this.partitions.get(partitionId)?.unfenceOffset(offset, groupId);
+    }
+
+    /**
+     * Commit exactly the batch leased as `leaseId` to `consumerId` of `groupId`, first settling
+     * its nacked and expired messages (see `settle`). Unlike `commitOffset`, older messages the
+     * batch skipped (of a lower priority) stay uncommitted.
+     */
+    async commitLease(partitionId: PartitionId, leaseId: string, groupId: GroupId, consumerId: ConsumerId): Promise<Response<{ logEndOffset: number; newReadOffset: number; acknowledged: number; redelivered: number; deadLettered: number; expired: number }>> {
+        const partition = this.partitions.get(partitionId);
+        if (!partition) {
+            return {
+                success: false,
+                errorCode: ERROR_CODES.PARTITION_NOT_FOUND,
+                error: `Partition ${partitionId} not found`
+            };
+        }
+
+        const leaseResult = partition.getLease(leaseId, groupId, consumerId);
+        if (!leaseResult.success) {
+            return leaseResult;
+        }
+        const leasedOffsets = new Set(leaseResult.data.offsets);
+
+        const settleResult = await this.settle(partitionId, partition, groupId, settledOffset => leasedOffsets.has(settledOffset));
+        if (!settleResult.success) {
+            return settleResult;
+        }
+
+        const commitResult = partition.commitLease(leaseResult.data);
+        if (!commitResult.success) {
+            return commitResult;
+        }
+        return {
+            success: true,
+            data: {
+                ...commitResult.data,
+                ...settleResult.data
+            }
+        };
+    }
+
+    // Start tracking a consumer group on every partition (for a known group, only mark it active)
+    registerGroup(groupId: GroupId): void {
+        for (const [, partition] of this.partitions) {
+            partition.registerGroup(groupId);
+        }
+    }
+
+    setDeadLetterTopic(topic: Topic): void {
+        this.deadLetterTopic = topic;
+    }
+
+    async sync(): Promise<Response<boolean>> {
+        for (const [, partition] of this.partitions) {
+            const result = await partition.sync();
+            if (!result.success) {
+                return result;
+            }
+        }
+        return { success: true, data: true };
+    }
+
+    // Newest ingress offset routed into any partition of this topic
+    getLastSourceOffset(): number {
+        let lastSourceOffset = 0;
+        for (const [, partition] of this.partitions) {
+            lastSourceOffset = Math.max(lastSourceOffset, partition.getLastSourceOffset());
+        }
+        return lastSourceOffset;
+    }
+
+    // Default durability level for writes to this topic
+    getAcks(): Acks {
+        return this.config.acks;
+    }
+
+    // Whether the topic's partitioner can place the message (an explicit partition is in range, ...)
+    validatePlacement(message: Message): ValidationResult {
+        return this.partitioner.validate(message);
+    }
+
+    // Divide the partitions among a consumer group's `consumerIds` with the topic's assignment strategy
+    balancePartitions(consumerIds: ConsumerId[], current: Map<PartitionId, ConsumerId>): Map<PartitionId, ConsumerId> {
+        return this.assignor.assign(consumerIds, [...this.partitions.keys()], current);
+    }
+
+    // A failing partition is logged and skipped so it doesn't hold back the others
+    enforceRetention(): Response<number> {
+        let deleted = 0;
+        for (const [partitionId, partition] of this.partitions) {
+            const result = partition.enforceRetention({
+                retentionMs: this.config.retentionMs,
+                retentionBytes: this.config.retentionBytes
+            });
+            if (!result.success) {
+                console.log(`[Topic] Retention failed for topic ${this.topicId}, partition ${partitionId}: ${result.errorCode}`);
+                continue;
+            }
+            deleted += result.data;
+        }
+        return { success: true, data: deleted };
+    }
+
     getPartition(partitionId: PartitionId): Partition | undefined {
         return this.partitions.get(partitionId);
     }
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    createAssignor,
+    RangeAssignor,
+    RoundRobinAssignor,
+    StickyAssignor
+} from '../dist/core/shared/assignor.js';
+
+// Run with `npm test` (builds first)
+
+const PARTITIONS = [0, 1, 2, 3, 4, 5, 6];
+
+// Partitions of each consumer, in partition order
+function byConsumer(assignment) {
+    const owned = {};
+    for (const [partitionId, consumerId] of [...assignment].sort(([a], [b]) => a - b)) {
+        (owned[consumerId] ??= []).push(partitionId);
+    }
+    return owned;
+}
+
+function assertBalanced(assignment, consumerIds, partitionIds = PARTITIONS) {
+    assert.deepEqual([...assignment.keys()].sort((a, b) => a - b), partitionIds);
+    const counts = consumerIds.map(consumerId => [...assignment.values()].filter(owner => owner === consumerId).length);
+    assert.ok(Math.max(...counts) - Math.min(...counts) <= 1, `unbalanced: ${counts}`);
+}
+
+test('range assignor gives each consumer consecutive partitions', () => {
+    const assignment = new RangeAssignor().assign(['c2', 'c1', 'c3'], PARTITIONS, new Map());
+    assert.deepEqual(byConsumer(assignment), { c1: [0, 1, 2], c2: [3, 4], c3: [5, 6] });
+});
+
+test('round-robin assignor deals partitions out in turn', () => {
+    const assignment = new RoundRobinAssignor().assign(['c2', 'c1', 'c3'], PARTITIONS, new Map());
+    assert.deepEqual(byConsumer(assignment), { c1: [0, 3, 6], c2: [1, 4], c3: [2, 5] });
+});
+
+test('sticky assignor keeps partitions where they are when a consumer joins', () => {
+    const assignor = new StickyAssignor();
+    const before = assignor.assign(['c1', 'c2'], PARTITIONS, new Map());
+    assertBalanced(before, ['c1', 'c2']);
+
+    const after = assignor.assign(['c1', 'c2', 'c3'], PARTITIONS, before);
+    assertBalanced(after, ['c1', 'c2', 'c3']);
+    // Only the partitions c3 takes over move
+    const moved = PARTITIONS.filter(partitionId => after.get(partitionId) !== before.get(partitionId));
+    assert.deepEqual(moved.map(partitionId => after.get(partitionId)), ['c3', 'c3']);
+});
+
+test('sticky assignor only moves the partitions of a consumer that left', () => {
+    const assignor = new StickyAssignor();
+    const before = assignor.assign(['c1', 'c2', 'c3'], PARTITIONS, new Map());
+    const after = assignor.assign(['c1', 'c3'], PARTITIONS, before);
+    assertBalanced(after, ['c1', 'c3']);
+    for (const partitionId of PARTITIONS) {
+        if (before.get(partitionId) !== 'c2') {
+            assert.equal(after.get(partitionId), before.get(partitionId));
+        }
+    }
+});
+
+test('every strategy assigns every partition once and stays balanced', () => {
+    for (const strategy of ['range', 'round-robin', 'sticky']) {
+        const assignor = createAssignor(strategy);
+        for (const consumerIds of [['c1'], ['c1', 'c2'], ['c1', 'c2', 'c3', 'c4', 'c5', 'c6', 'c7', 'c8', 'c9']]) {
+            assertBalanced(assignor.assign(consumerIds, PARTITIONS, new Map()), consumerIds);
+        }
+    }
+});
+
+test('nothing is assigned without consumers', () => {
+    for (const strategy of ['range', 'round-robin', 'sticky']) {
+        assert.equal(createAssignor(strategy).assign([], PARTITIONS, new Map([[0, 'c1']])).size, 0);
+    }
+});
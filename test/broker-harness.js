@@ -0,0 +1,83 @@
+import { spawn } from 'child_process';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const MAIN = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'dist', 'core', 'main.js');
+const STARTUP_TIMEOUT_MS = 15000;
+
+function freePort() {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+        server.once('error', reject);
+        server.listen(0, () => {
+            const { port } = server.address();
+            server.close(() => resolve(port));
+        });
+    });
+}
+
+// A broker running from `dist` in a fresh data directory, configured with `topics`
+export async function startBroker(topics) {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'pandaq-test-'));
+    fs.writeFileSync(path.join(cwd, 'pandaq-config.json'), JSON.stringify({ brokerId: 'broker_1', reboot: false, topics }));
+    const port = await freePort();
+
+    const child = spawn(process.execPath, [MAIN], {
+        cwd,
+        env: {
+            ...process.env,
+            DATA_STORAGE_VOLUME: 'pandaq-data',
+            INGRESS_LOG_FILE: 'pandaq-data/ingress.log',
+            INGRESS_METADATA_FILE: 'pandaq-data/ingress_metadata.log',
+            BROKER_ID: 'broker_1',
+            PORT: String(port)
+        },
+        stdio: ['ignore', 'pipe', 'pipe']
+    });
+
+    let output = '';
+    await new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`Broker did not start:\n${output}`)), STARTUP_TIMEOUT_MS);
+        const onData = (chunk) => {
+            output += chunk;
+            if (output.includes(`listening on port ${port}`)) {
+                clearTimeout(timer);
+                resolve();
+            }
+        };
+        child.stdout.on('data', onData);
+        child.stderr.on('data', onData);
+        child.once('exit', (code) => {
+            clearTimeout(timer);
+            reject(new Error(`Broker exited with code ${code}:\n${output}`));
+        });
+    });
+
+    const request = async (method, urlPath, body) => {
+        const response = await fetch(`http://localhost:${port}${urlPath}`, {
+            method,
+            headers: { 'Content-Type': 'application/json' },
+            body: body === undefined ? undefined : JSON.stringify(body)
+        });
+        return { status: response.status, body: await response.json() };
+    };
+
+    const stop = async () => {
+        if (child.exitCode === null) {
+            const exited = new Promise(resolve => child.once('exit', resolve));
+            child.kill();
+            await exited;
+        }
+        fs.rmSync(cwd, { recursive: true, force: true });
+    };
+
+    return {
+        request,
+        stop,
+        produce: (topicId, message) => request('POST', `/ingress/${topicId}`, { brokerId: 'broker_1', message }),
+        consume: (topicId, partitionId, query) => request('GET', `/consume/broker_1/${topicId}/${partitionId}?${new URLSearchParams({ b: 't', ...query })}`)
+    };
+}
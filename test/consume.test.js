@@ -0,0 +1,73 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startBroker } from './broker-harness.js';
+
+// Run with `npm test` (builds first); starts a broker from `dist`
+
+let broker;
+
+before(async () => {
+    broker = await startBroker([
+        { id: 'events', partitions: 1 },
+        { id: 'pairs', partitions: 2, partitioner: 'explicit' }
+    ]);
+});
+
+after(async () => {
+    await broker?.stop();
+});
+
+test('a replay past the end of the log waits for the next message', async () => {
+    const started = Date.now();
+    const replay = broker.consume('events', 0, { fromOffset: 1, waitMs: 10000 });
+    await new Promise(resolve => setTimeout(resolve, 300));
+    const produced = await broker.produce('events', { messageId: 'e1', content: 'event 1' });
+    assert.equal(produced.status, 200);
+
+    const result = await replay;
+    assert.equal(result.status, 200);
+    assert.deepEqual(result.body.data.messages.map(message => message.messageId), ['e1']);
+    assert.ok(Date.now() - started < 5000, 'woken by the append, not the timeout');
+});
+
+test('a long poll ends early when another partition of the consumer gets messages', async () => {
+    const registered = await broker.request('POST', '/register/pairs', { brokerId: 'broker_1', consumerId: 'c1', groupId: 'g' });
+    assert.deepEqual(registered.body.data.partitionIds, [0, 1]);
+
+    const started = Date.now();
+    const poll = broker.consume('pairs', 0, { consumerId: 'c1', groupId: 'g', waitMs: 10000 });
+    await new Promise(resolve => setTimeout(resolve, 300));
+    const produced = await broker.produce('pairs', { messageId: 'p1', content: 'pair 1', partitionId: 1 });
+    assert.equal(produced.status, 200);
+
+    const result = await poll;
+    assert.equal(result.status, 200);
+    assert.equal(result.body.data.count, 0);
+    assert.ok(Date.now() - started < 5000, 'woken by partition 1, not the timeout');
+
+    const other = await broker.consume('pairs', 1, { consumerId: 'c1', groupId: 'g' });
+    assert.deepEqual(other.body.data.messages.map(message => message.messageId), ['p1']);
+});
+
+test('only the consumer that owns a partition in its group may consume it', async () => {
+    const registered = await broker.request('POST', '/register/pairs', { brokerId: 'broker_1', consumerId: 'c1', groupId: 'owned' });
+    assert.deepEqual(registered.body.data.partitionIds, [0, 1]);
+
+    const stranger = await broker.consume('pairs', 0, { consumerId: 'c2', groupId: 'owned' });
+    assert.equal(stranger.status, 409);
+    assert.equal(stranger.body.errorCode, 'PARTITION_NOT_OWNED');
+
+    const owner = await broker.consume('pairs', 0, { consumerId: 'c1', groupId: 'owned' });
+    assert.equal(owner.status, 200);
+
+    // A group nobody registered with stays open to any consumer
+    const adHoc = await broker.consume('pairs', 0, { consumerId: 'c2', groupId: 'unregistered' });
+    assert.equal(adHoc.status, 200);
+});
+
+test('a commit needs a non-negative integer offset', async () => {
+    for (const offset of [2.5, -1]) {
+        const committed = await broker.request('POST', '/commit', { topicId: 'events', partitionId: 0, consumerId: 'c1', offset });
+        assert.equal(committed.status, 400);
+    }
+});
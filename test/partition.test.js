@@ -0,0 +1,120 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Run with `npm test` (builds first)
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pandaq-partition-'));
+process.env.DATA_STORAGE_VOLUME = dataDir;
+const { default: Partition } = await import('../dist/core/partition.js');
+
+let topicCount = 0;
+
+// A partition of a fresh topic
+function createPartition(config = {}) {
+    return new Partition(0, `topic-${++topicCount}`, {
+        segmentBytes: 1024 * 1024,
+        segmentMessages: 1000,
+        indexInterval: 10,
+        acks: 'leader',
+        compression: 'none',
+        visibilityTimeoutMs: 30_000,
+        groupRetentionMs: 60_000,
+        migrateLegacyOffsets: false,
+        ...config
+    });
+}
+
+async function pushMessages(partition, from, count) {
+    const entries = [];
+    for (let i = from; i < from + count; i++) {
+        entries.push({ message: { topicId: 'orders', messageId: `msg-${i}`, content: `message ${i}` } });
+    }
+    const result = await partition.batchPush(entries);
+    assert.ok(result.success);
+}
+
+const messageIds = (result) => result.data.messages.map(message => message.messageId);
+
+before(() => {
+    // Partition logs are noisy
+    console.log = () => {};
+});
+
+after(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('without consumer groups nothing is kept in the buffer', async () => {
+    const partition = createPartition();
+    await pushMessages(partition, 1, 3);
+    const stats = partition.getStats();
+    assert.equal(stats.bufferSize, 0);
+    assert.equal(stats.readOffset, 3);
+});
+
+test('a late-joining group starts at the oldest retained message', async () => {
+    const partition = createPartition();
+    await pushMessages(partition, 1, 3);
+
+    partition.registerGroup('early');
+    const early = partition.batchExtract(10, 'early', 'c1');
+    assert.deepEqual(messageIds(early), ['msg-1', 'msg-2', 'msg-3']);
+    assert.ok(partition.commitOffset(3, 'early').success);
+    await pushMessages(partition, 4, 2);
+
+    const late = partition.batchExtract(10, 'late', 'c2');
+    assert.equal(late.data.startOffset, 0);
+    assert.deepEqual(messageIds(late), ['msg-1', 'msg-2', 'msg-3', 'msg-4', 'msg-5']);
+
+    // The early group only sees what it hasn't committed
+    assert.deepEqual(messageIds(partition.batchExtract(10, 'early', 'c1')), ['msg-4', 'msg-5']);
+});
+
+test('an abandoned group expires and stops holding back the buffer', async () => {
+    const partition = createPartition({ groupRetentionMs: 1000 });
+    const start = Date.now();
+    partition.registerGroup('abandoned', start - 5000);
+    await pushMessages(partition, 1, 3);
+
+    const batch = partition.batchExtract(10, 'active', 'c1', start);
+    assert.equal(batch.data.endOffset, 3);
+    assert.ok(partition.commitOffset(3, 'active').success);
+    assert.equal(partition.getStats().bufferSize, 3);
+
+    assert.ok(partition.enforceRetention({}, start + 500).success);
+    assert.equal(partition.getCommittedOffset('abandoned'), undefined);
+    assert.equal(partition.getCommittedOffset('active'), 3);
+    assert.equal(partition.getStats().bufferSize, 0);
+
+    // Coming back, it starts over at the oldest retained message
+    assert.deepEqual(messageIds(partition.batchExtract(10, 'abandoned', 'c2')), ['msg-1', 'msg-2', 'msg-3']);
+});
+
+test('a group holding a lease does not expire', async () => {
+    const partition = createPartition({ groupRetentionMs: 1000 });
+    const start = Date.now();
+    await pushMessages(partition, 1, 2);
+    partition.batchExtract(10, 'slow', 'c1', start);
+
+    assert.ok(partition.enforceRetention({}, start + 2000).success);
+    assert.equal(partition.getCommittedOffset('slow'), 0);
+});
+
+test('a consumer can only nack offsets it leases', async () => {
+    const partition = createPartition();
+    partition.registerGroup('g');
+    await pushMessages(partition, 1, 4);
+    assert.ok(partition.batchExtract(2, 'g', 'c1').success);
+
+    const unleased = partition.nack([3], 'g', 'c1');
+    assert.equal(unleased.errorCode, 'LEASE_CONFLICT');
+    const foreign = partition.nack([1], 'g', 'c2');
+    assert.equal(foreign.errorCode, 'LEASE_CONFLICT');
+
+    const own = partition.nack([1, 2], 'g', 'c1');
+    assert.ok(own.success);
+    assert.equal(own.data, 2);
+});
@@ -0,0 +1,125 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    murmur2,
+    createPartitioner,
+    Murmur2Partitioner,
+    RoundRobinPartitioner,
+    StickyPartitioner,
+    ExplicitPartitioner
+} from '../dist/core/shared/partitioner.js';
+
+// Run with `npm test` (builds first)
+
+const PARTITIONS = 4;
+
+const message = (messageId, extra = {}) => ({ topicId: 'orders', messageId, content: '', ...extra });
+
+// Place `count` messages (positions 1..count in their topic) and count how many land on each partition
+function distribute(partitioner, count, makeMessage = i => message(`msg-${i}`)) {
+    const counts = new Array(PARTITIONS).fill(0);
+    for (let position = 1; position <= count; position++) {
+        const result = partitioner.partition(makeMessage(position), position);
+        assert.equal(result.success, true);
+        counts[result.data]++;
+    }
+    return counts;
+}
+
+test('murmur2 matches Kafka', () => {
+    // Reference values from Kafka's UtilsTest
+    assert.equal(murmur2(Buffer.from('21')), -973932308);
+    assert.equal(murmur2(Buffer.from('foobar')), -790332482);
+    assert.equal(murmur2(Buffer.from('a-little-bit-long-string')), -985981536);
+    assert.equal(murmur2(Buffer.from('a-little-bit-longer-string')), -1486304829);
+    assert.equal(murmur2(Buffer.from('lkjh234lh9fiuh90y23oiuhsafujhadof229phr9h19h89h8')), -58897971);
+    assert.equal(murmur2(Buffer.from('abc')), 479470107);
+});
+
+test('murmur2 partitioner spreads messageIds evenly', () => {
+    const counts = distribute(new Murmur2Partitioner(PARTITIONS), 10_000);
+    for (const count of counts) {
+        assert.ok(Math.abs(count - 2500) < 250, `uneven distribution: ${counts}`);
+    }
+});
+
+test('murmur2 partitioner keeps a key on one partition', () => {
+    const partitioner = new Murmur2Partitioner(PARTITIONS);
+    const counts = distribute(partitioner, 100, i => message(`msg-${i}`, { key: 'customer-7' }));
+    assert.equal(counts.filter(count => count > 0).length, 1);
+    // Same partition as Kafka's default partitioner: toPositive(murmur2(key)) % partitions
+    const expected = (murmur2(Buffer.from('customer-7')) & 0x7fffffff) % PARTITIONS;
+    assert.equal(counts[expected], 100);
+});
+
+test('round-robin partitioner cycles through partitions', () => {
+    const partitioner = new RoundRobinPartitioner(PARTITIONS);
+    assert.deepEqual(distribute(partitioner, 1000), [250, 250, 250, 250]);
+    const placed = [1, 2, 3, 4, 5].map(position => partitioner.partition(message(`msg-${position}`), position).data);
+    assert.deepEqual(placed, [1, 2, 3, 0, 1]);
+});
+
+test('round-robin partitioner places a routed message the same way twice', () => {
+    const first = new RoundRobinPartitioner(PARTITIONS);
+    const second = new RoundRobinPartitioner(PARTITIONS);
+    first.partition(message('msg-1'), 1);
+    assert.equal(first.partition(message('msg-2'), 2).data, second.partition(message('msg-2'), 2).data);
+});
+
+test('round-robin partitioner hashes keyed messages', () => {
+    const partitioner = new RoundRobinPartitioner(PARTITIONS);
+    const counts = distribute(partitioner, 100, i => message(`msg-${i}`, { key: 'customer-7' }));
+    assert.equal(counts.filter(count => count > 0).length, 1);
+});
+
+test('round-robin partitioner counts messages without a position', () => {
+    const partitioner = new RoundRobinPartitioner(PARTITIONS);
+    const placed = [1, 2, 3, 4, 5].map(i => partitioner.partition(message(`msg-${i}`)).data);
+    assert.deepEqual(placed, [0, 1, 2, 3, 0]);
+});
+
+test('sticky partitioner fills one partition per batch', () => {
+    const partitioner = new StickyPartitioner(PARTITIONS, 10);
+    const placed = [];
+    for (let position = 10; position < 50; position++) {
+        placed.push(partitioner.partition(message(`msg-${position}`), position).data);
+    }
+    assert.deepEqual(placed, [
+        ...new Array(10).fill(1),
+        ...new Array(10).fill(2),
+        ...new Array(10).fill(3),
+        ...new Array(10).fill(0)
+    ]);
+    assert.deepEqual(distribute(new StickyPartitioner(PARTITIONS, 10), 800), [200, 200, 200, 200]);
+});
+
+test('sticky partitioner hashes keyed messages', () => {
+    const partitioner = new StickyPartitioner(PARTITIONS, 10);
+    const counts = distribute(partitioner, 100, i => message(`msg-${i}`, { key: 'customer-7' }));
+    assert.equal(counts.filter(count => count > 0).length, 1);
+});
+
+test('explicit partitioner requires a partitionId', () => {
+    const partitioner = new ExplicitPartitioner(PARTITIONS);
+    assert.equal(partitioner.validate(message('msg-1')).isValid, false);
+    assert.equal(partitioner.partition(message('msg-1', { key: 'customer-7' }), 1).success, false);
+    const counts = distribute(partitioner, 100, i => message(`msg-${i}`, { partitionId: i % 2 }));
+    assert.deepEqual(counts, [50, 50, 0, 0]);
+});
+
+test('every strategy honors an explicit partitionId', () => {
+    for (const strategy of ['murmur2', 'round-robin', 'sticky', 'explicit']) {
+        const partitioner = createPartitioner(strategy, PARTITIONS, 10);
+        const counts = distribute(partitioner, 50, i => message(`msg-${i}`, { key: `key-${i}`, partitionId: 3 }));
+        assert.deepEqual(counts, [0, 0, 0, 50], strategy);
+    }
+});
+
+test('a partitionId outside the topic is rejected', () => {
+    const partitioner = createPartitioner('murmur2', PARTITIONS, 10);
+    for (const partitionId of [-1, PARTITIONS, 1.5]) {
+        assert.equal(partitioner.validate(message('msg-1', { partitionId })).isValid, false);
+        assert.equal(partitioner.partition(message('msg-1', { partitionId }), 1).success, false);
+    }
+    assert.equal(partitioner.validate(message('msg-1', { partitionId: PARTITIONS - 1 })).isValid, true);
+});
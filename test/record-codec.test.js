@@ -0,0 +1,100 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { encodeRecord, isLegacyTextLog, messageToRecord, scanRecords } from '../dist/core/shared/record-codec.js';
+import LogFileHandler from '../dist/core/shared/log-file-handler.js';
+import { LOG_FILE_TYPE } from '../dist/core/shared/types.js';
+
+// Run with `npm test` (builds first)
+
+let dataDir;
+let fileCount = 0;
+
+// Encoded records for offsets 1..count
+function encodeRecords(count) {
+    const records = [];
+    for (let offset = 1; offset <= count; offset++) {
+        records.push(encodeRecord(messageToRecord({ topicId: 'orders', messageId: `msg-${offset}`, content: `message ${offset}` }, offset)));
+    }
+    return records;
+}
+
+function writeLog(content) {
+    const filePath = path.join(dataDir, `log-${++fileCount}.log`);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+}
+
+before(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pandaq-codec-'));
+    // Recovery logs what it truncates
+    console.log = () => {};
+});
+
+after(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('a torn tail is truncated back to the last whole record', () => {
+    const records = encodeRecords(3);
+    const filePath = writeLog(Buffer.concat([...records.slice(0, 2), records[2].subarray(0, 10)]));
+
+    const recovery = LogFileHandler.recover(filePath);
+    assert.ok(recovery.success);
+    assert.equal(recovery.data.status, 'torn');
+    assert.equal(recovery.data.records.length, 2);
+    assert.equal(recovery.data.truncatedBytes, 10);
+    assert.equal(fs.statSync(filePath).size, records[0].length + records[1].length);
+});
+
+test('a corrupt last record is truncated', () => {
+    const records = encodeRecords(3);
+    const content = Buffer.concat(records);
+    content[content.length - 1] ^= 0xff;
+    const filePath = writeLog(content);
+
+    const recovery = LogFileHandler.recover(filePath);
+    assert.ok(recovery.success);
+    assert.equal(recovery.data.status, 'corrupt');
+    assert.equal(recovery.data.records.length, 2);
+});
+
+test('corruption in the middle of a log fails recovery and keeps the file intact', () => {
+    const records = encodeRecords(5);
+    const content = Buffer.concat(records);
+    // Flip a bit inside the second record's body
+    content[records[0].length + 12] ^= 0x01;
+    const filePath = writeLog(content);
+
+    const scan = scanRecords(content);
+    assert.equal(scan.status, 'corrupt');
+    assert.equal(scan.records.length, 1);
+
+    const recovery = LogFileHandler.recover(filePath);
+    assert.equal(recovery.success, false);
+    assert.equal(recovery.errorCode, 'CORRUPT_RECORD');
+    assert.match(recovery.error.message, /fsck/);
+    assert.equal(fs.statSync(filePath).size, content.length);
+});
+
+test('legacy text logs are told apart from binary ones', () => {
+    assert.equal(isLegacyTextLog(Buffer.from('broker_1|1|orders|msg-1|hello\n')), true);
+    assert.equal(isLegacyTextLog(Buffer.concat(encodeRecords(2))), false);
+    assert.equal(isLegacyTextLog(Buffer.alloc(0)), false);
+});
+
+test('a legacy text log is migrated and a binary one is left alone', () => {
+    const legacyPath = writeLog('orders|0|1|msg-1|a|b\norders|0|2|msg-2|hello\n');
+    const migration = LogFileHandler.migrateLegacyTextLog(legacyPath, LOG_FILE_TYPE.PARTITION_BUFFER);
+    assert.ok(migration.success);
+    assert.equal(migration.data, 2);
+    const { records } = scanRecords(fs.readFileSync(legacyPath));
+    assert.deepEqual(records.map(({ record }) => [record.offset, record.value]), [[1, 'a|b'], [2, 'hello']]);
+
+    const binary = Buffer.concat(encodeRecords(2));
+    const binaryPath = writeLog(binary);
+    assert.equal(LogFileHandler.migrateLegacyTextLog(binaryPath, LOG_FILE_TYPE.PARTITION_BUFFER).data, 0);
+    assert.deepEqual(fs.readFileSync(binaryPath), binary);
+});
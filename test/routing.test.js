@@ -0,0 +1,60 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startBroker } from './broker-harness.js';
+
+// Run with `npm test` (builds first); starts a broker from `dist`
+
+let broker;
+
+before(async () => {
+    broker = await startBroker([
+        { id: 'rr', partitions: 2, partitioner: 'round-robin' },
+        { id: 'sticky', partitions: 2, partitioner: 'sticky', stickyBatchSize: 5 },
+        { id: 'other', partitions: 1 }
+    ]);
+});
+
+after(async () => {
+    await broker?.stop();
+});
+
+async function produce(topicId, messageId) {
+    const result = await broker.produce(topicId, { messageId, content: messageId });
+    assert.equal(result.status, 200);
+}
+
+// Wait for the broker loop to route `total` messages into the partitions of `topicId`
+async function partitionSizes(topicId, partitionCount, total) {
+    for (let attempt = 0; attempt < 50; attempt++) {
+        const sizes = [];
+        for (let partitionId = 0; partitionId < partitionCount; partitionId++) {
+            const offsets = await broker.request('GET', `/offsets/${topicId}/${partitionId}`);
+            sizes.push(offsets.body.data.logEndOffset);
+        }
+        if (sizes.reduce((sum, size) => sum + size, 0) >= total) {
+            return sizes;
+        }
+        await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    assert.fail(`${topicId} never received ${total} message(s)`);
+}
+
+test('round-robin placement ignores the messages of other topics', async () => {
+    for (let i = 1; i <= 10; i++) {
+        await produce('rr', `rr-${i}`);
+        await produce('other', `other-${i}`);
+    }
+    assert.deepEqual(await partitionSizes('rr', 2, 10), [5, 5]);
+});
+
+test('sticky placement ignores the messages of other topics', async () => {
+    for (let run = 1; run <= 4; run++) {
+        for (let i = 1; i <= 5; i++) {
+            await produce('sticky', `sticky-${run}-${i}`);
+        }
+        for (let i = 1; i <= 3; i++) {
+            await produce('other', `filler-${run}-${i}`);
+        }
+    }
+    assert.deepEqual(await partitionSizes('sticky', 2, 20), [10, 10]);
+});
@@ -0,0 +1,103 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startBroker } from './broker-harness.js';
+
+// Run with `npm test` (builds first); starts a broker from `dist`
+
+let broker;
+
+before(async () => {
+    broker = await startBroker([
+        { id: 'orders', partitions: 1 },
+        { id: 'out', partitions: 1 }
+    ]);
+});
+
+after(async () => {
+    await broker?.stop();
+});
+
+async function produceOrders(count, from) {
+    for (let i = from; i < from + count; i++) {
+        const result = await broker.produce('orders', { messageId: `order-${i}`, content: `order ${i}` });
+        assert.equal(result.status, 200);
+    }
+}
+
+// Wait for the broker loop to route orders up to `offset` into orders/0
+async function waitForOrders(offset) {
+    for (let attempt = 0; attempt < 50; attempt++) {
+        const offsets = await broker.request('GET', '/offsets/orders/0');
+        if (offsets.body.data.logEndOffset >= offset) {
+            return;
+        }
+        await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    assert.fail(`orders/0 never reached offset ${offset}`);
+}
+
+// A transaction publishing `o1` to `out` and committing orders/0 up to `offset` for `consumerId`
+async function stageTransaction(consumerId, offset) {
+    const begin = await broker.request('POST', '/transactions', { brokerId: 'broker_1' });
+    const { transactionId } = begin.body.data;
+    const staged = await broker.request('POST', `/transactions/${transactionId}/messages`, {
+        topicId: 'out',
+        message: { messageId: 'o1', content: 'output 1' }
+    });
+    assert.equal(staged.status, 200);
+    const offsets = await broker.request('POST', `/transactions/${transactionId}/offsets`, {
+        topicId: 'orders', partitionId: 0, consumerId, offset
+    });
+    assert.equal(offsets.status, 200);
+    return transactionId;
+}
+
+test('a transaction commit is refused while another consumer leases its input offsets', async () => {
+    await produceOrders(5, 1);
+    const first = await broker.consume('orders', 0, { consumerId: 'c1', waitMs: 5000, minMessages: 5 });
+    assert.equal(first.body.data.endOffset, 5);
+
+    await produceOrders(2, 6);
+    await waitForOrders(7);
+    const transactionId = await stageTransaction('c1', 7);
+
+    // c2 takes the next two orders between staging and commit
+    const second = await broker.consume('orders', 0, { consumerId: 'c2', waitMs: 5000, minMessages: 2 });
+    assert.equal(second.body.data.startOffset, 5);
+    assert.equal(second.body.data.endOffset, 7);
+
+    const commit = await broker.request('POST', `/transactions/${transactionId}/commit`, {});
+    assert.equal(commit.status, 409);
+    assert.equal(commit.body.errorCode, 'LEASE_CONFLICT');
+
+    // Nothing was published, and the transaction is still open to abort
+    const output = await broker.consume('out', 0, { consumerId: 'reader', waitMs: 500 });
+    assert.equal(output.body.data.count, 0);
+    const abort = await broker.request('POST', `/transactions/${transactionId}/abort`, {});
+    assert.equal(abort.status, 200);
+
+    // Both consumers finish their batches instead
+    for (const [consumerId, offset] of [['c1', 5], ['c2', 7]]) {
+        const committed = await broker.request('POST', '/commit', { topicId: 'orders', partitionId: 0, consumerId, offset });
+        assert.equal(committed.status, 200);
+    }
+});
+
+test('a committed transaction publishes its output and commits its input offsets', async () => {
+    await produceOrders(2, 8);
+    const batch = await broker.consume('orders', 0, { consumerId: 'c1', waitMs: 5000, minMessages: 2 });
+    assert.equal(batch.body.data.endOffset, 9);
+
+    const transactionId = await stageTransaction('c1', 9);
+    const commit = await broker.request('POST', `/transactions/${transactionId}/commit`, { acks: 'leader' });
+    assert.equal(commit.status, 200);
+
+    // The fenced offsets are never handed out again, before or after the commit is applied
+    const output = await broker.consume('out', 0, { consumerId: 'reader', waitMs: 5000 });
+    assert.equal(output.body.data.messages[0].messageId, 'o1');
+    const again = await broker.consume('orders', 0, { consumerId: 'c3', waitMs: 500 });
+    assert.equal(again.body.data.count, 0);
+
+    const offsets = await broker.request('GET', '/offsets/orders/0?groupId=default');
+    assert.equal(offsets.body.data.committedOffset, 9);
+});